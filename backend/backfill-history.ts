@@ -0,0 +1,59 @@
+// Seed the price candle store from the configured market data provider
+//
+//   npm run history:backfill -- [days] [symbol or coinId...] [--restart]
+//
+// Fills daily candles `days` back (default 365) and hourly candles as far back as the
+// provider keeps them, for the given coins or every active CoinList coin. Progress is
+// checkpointed, so rerunning after an interruption picks up where it stopped;
+// --restart fills everything again.
+import dotenv from 'dotenv';
+import { prisma } from './src/server';
+import { historyBackfillService } from './src/services/history-backfill.service';
+
+dotenv.config();
+
+async function backfillHistory() {
+  const args = process.argv.slice(2);
+  const restart = args.includes('--restart');
+  const [daysArg, ...coins] = args.filter(arg => arg !== '--restart');
+  const days = parseInt(daysArg || '365', 10);
+
+  if (!Number.isInteger(days) || days < 1) {
+    console.error('❌ days must be a positive whole number');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    console.log(`\n📥 Backfilling ${days} days of price history${coins.length > 0 ? ` for ${coins.join(', ')}` : ''}\n`);
+
+    const summary = await historyBackfillService.run({
+      days,
+      coins: coins.length > 0 ? coins : undefined,
+      restart,
+      requestDelayMs: process.env.HISTORY_BACKFILL_DELAY_MS ? parseInt(process.env.HISTORY_BACKFILL_DELAY_MS, 10) : undefined,
+      onProgress: ({ done, total, coinId, interval, status, candlesAdded, error }) => {
+        const step = `[${done}/${total}] ${coinId} ${interval}`;
+        if (status === 'filled') console.log(`✅ ${step}: ${candlesAdded} candle(s) added`);
+        else if (status === 'skipped') console.log(`⏭️  ${step}: already done`);
+        else console.error(`❌ ${step}: ${error}`);
+      },
+    });
+
+    console.log(
+      `\n🎉 Done in ${Math.round(summary.durationMs / 1000)}s: ${summary.filled} filled, ${summary.skipped} skipped, ` +
+      `${summary.failed} failed, ${summary.candlesAdded} candle(s) added\n`
+    );
+    if (summary.failed > 0) {
+      console.log('Run it again to retry the failed ones.\n');
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillHistory();
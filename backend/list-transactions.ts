@@ -1,5 +1,5 @@
 // Query transactions from database
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -35,8 +35,8 @@ async function listTransactions() {
         console.log(`   Type: ${tx.type}`);
         console.log(`   Symbol: ${tx.symbol}`);
         console.log(`   Quantity: ${tx.quantity}`);
-        console.log(`   Price: $${tx.price.toLocaleString('en-US', { minimumFractionDigits: 2 })}`);
-        console.log(`   Total: $${(tx.quantity * tx.price).toLocaleString('en-US', { minimumFractionDigits: 2 })}`);
+        console.log(`   Price: $${tx.price.toFixed(2)}`);
+        console.log(`   Total: $${tx.quantity.times(tx.price).toFixed(2)}`);
         console.log(`   Fee: $${tx.fee}`);
         console.log(`   Timestamp: ${new Date(tx.timestamp).toLocaleString()}`);
         console.log(`   Portfolio: ${tx.portfolio.name}`);
@@ -48,13 +48,13 @@ async function listTransactions() {
       // Summary
       const buyTransactions = transactions.filter(t => t.type === 'BUY');
       const sellTransactions = transactions.filter(t => t.type === 'SELL');
-      const totalBuyValue = buyTransactions.reduce((sum, t) => sum + (t.quantity * t.price), 0);
-      const totalSellValue = sellTransactions.reduce((sum, t) => sum + (t.quantity * t.price), 0);
+      const totalBuyValue = buyTransactions.reduce((sum, t) => sum.plus(t.quantity.times(t.price)), new Prisma.Decimal(0));
+      const totalSellValue = sellTransactions.reduce((sum, t) => sum.plus(t.quantity.times(t.price)), new Prisma.Decimal(0));
       
       console.log('\n📊 SUMMARY:');
       console.log(`   Total Transactions: ${transactions.length}`);
-      console.log(`   BUY Transactions: ${buyTransactions.length} (Total: $${totalBuyValue.toLocaleString('en-US', { minimumFractionDigits: 2 })})`);
-      console.log(`   SELL Transactions: ${sellTransactions.length} (Total: $${totalSellValue.toLocaleString('en-US', { minimumFractionDigits: 2 })})`);
+      console.log(`   BUY Transactions: ${buyTransactions.length} (Total: $${totalBuyValue.toFixed(2)})`);
+      console.log(`   SELL Transactions: ${sellTransactions.length} (Total: $${totalSellValue.toFixed(2)})`);
       console.log('');
     }
     
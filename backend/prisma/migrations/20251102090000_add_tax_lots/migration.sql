@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN "costBasisMethod" TEXT;
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "costBasisMethod" TEXT NOT NULL DEFAULT 'FIFO';
+
+-- CreateTable
+CREATE TABLE "TaxLot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "portfolioId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "remainingQuantity" REAL NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "unitFee" REAL NOT NULL DEFAULT 0,
+    "acquiredAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TaxLot_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaxLot_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "LotDisposal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lotId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "quantity" REAL NOT NULL,
+    "costBasis" REAL NOT NULL,
+    "acquisitionFee" REAL NOT NULL DEFAULT 0,
+    "proceeds" REAL NOT NULL,
+    "disposalFee" REAL NOT NULL DEFAULT 0,
+    "disposedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LotDisposal_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "TaxLot" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LotDisposal_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TaxLot_portfolioId_symbol_idx" ON "TaxLot"("portfolioId", "symbol");
+
+-- CreateIndex
+CREATE INDEX "TaxLot_transactionId_idx" ON "TaxLot"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LotDisposal_lotId_idx" ON "LotDisposal"("lotId");
+
+-- CreateIndex
+CREATE INDEX "LotDisposal_transactionId_idx" ON "LotDisposal"("transactionId");
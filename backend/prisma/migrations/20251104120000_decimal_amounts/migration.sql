@@ -0,0 +1,145 @@
+-- Money and quantity columns move from REAL to DECIMAL.
+-- Existing values are rounded to 8 decimal places on the way over so float
+-- noise (e.g. 0.30000000000000004) does not carry forward.
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Asset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "portfolioId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DECIMAL NOT NULL,
+    "purchasePrice" DECIMAL NOT NULL,
+    "purchaseDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Asset_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Asset" ("createdAt", "id", "name", "portfolioId", "purchaseDate", "purchasePrice", "quantity", "symbol", "updatedAt") SELECT "createdAt", "id", "name", "portfolioId", "purchaseDate", ROUND("purchasePrice", 8), ROUND("quantity", 8), "symbol", "updatedAt" FROM "Asset";
+-- Holdings that round to nothing are re-derived from their ledger, BUYs less SELLs,
+-- rounded the same way as the Transaction rows below
+UPDATE "new_Asset"
+SET "quantity" = COALESCE((
+    SELECT ROUND(SUM(CASE "type" WHEN 'SELL' THEN -ROUND("quantity", 8) ELSE ROUND("quantity", 8) END), 8)
+    FROM "Transaction"
+    WHERE "Transaction"."portfolioId" = "new_Asset"."portfolioId" AND "Transaction"."symbol" = "new_Asset"."symbol"
+), "quantity")
+WHERE "quantity" <= 0;
+-- Positions the ledger shows as closed go, as they would have when the last SELL was recorded
+DELETE FROM "new_Asset"
+WHERE "quantity" = 0
+  AND EXISTS (
+    SELECT 1 FROM "Transaction"
+    WHERE "Transaction"."portfolioId" = "new_Asset"."portfolioId" AND "Transaction"."symbol" = "new_Asset"."symbol"
+);
+-- Anything still empty or negative has no ledger to explain it: stop rather than drop it
+CREATE TEMP TABLE "AssetQuantityCheck" (
+    "id" TEXT NOT NULL,
+    CONSTRAINT "asset_quantity_not_positive_and_not_explained_by_ledger" CHECK (0)
+);
+INSERT INTO "AssetQuantityCheck" SELECT "id" FROM "new_Asset" WHERE "quantity" <= 0;
+DROP TABLE "AssetQuantityCheck";
+DROP TABLE "Asset";
+ALTER TABLE "new_Asset" RENAME TO "Asset";
+CREATE INDEX "Asset_portfolioId_idx" ON "Asset"("portfolioId");
+CREATE INDEX "Asset_symbol_idx" ON "Asset"("symbol");
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "portfolioId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "quantity" DECIMAL NOT NULL,
+    "price" DECIMAL NOT NULL,
+    "fee" DECIMAL NOT NULL DEFAULT 0,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Transaction_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("createdAt", "fee", "id", "notes", "portfolioId", "price", "quantity", "symbol", "timestamp", "type") SELECT "createdAt", ROUND("fee", 8), "id", "notes", "portfolioId", ROUND("price", 8), ROUND("quantity", 8), "symbol", "timestamp", "type" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_portfolioId_idx" ON "Transaction"("portfolioId");
+CREATE INDEX "Transaction_symbol_idx" ON "Transaction"("symbol");
+CREATE INDEX "Transaction_timestamp_idx" ON "Transaction"("timestamp");
+CREATE TABLE "new_TaxLot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "portfolioId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "quantity" DECIMAL NOT NULL,
+    "remainingQuantity" DECIMAL NOT NULL,
+    "unitPrice" DECIMAL NOT NULL,
+    "unitFee" DECIMAL NOT NULL DEFAULT 0,
+    "acquiredAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TaxLot_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaxLot_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_TaxLot" ("acquiredAt", "createdAt", "id", "portfolioId", "quantity", "remainingQuantity", "symbol", "transactionId", "unitFee", "unitPrice", "updatedAt") SELECT "acquiredAt", "createdAt", "id", "portfolioId", ROUND("quantity", 8), ROUND("remainingQuantity", 8), "symbol", "transactionId", ROUND("unitFee", 8), ROUND("unitPrice", 8), "updatedAt" FROM "TaxLot";
+DROP TABLE "TaxLot";
+ALTER TABLE "new_TaxLot" RENAME TO "TaxLot";
+CREATE INDEX "TaxLot_portfolioId_symbol_idx" ON "TaxLot"("portfolioId", "symbol");
+CREATE INDEX "TaxLot_transactionId_idx" ON "TaxLot"("transactionId");
+CREATE TABLE "new_LotDisposal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lotId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "quantity" DECIMAL NOT NULL,
+    "costBasis" DECIMAL NOT NULL,
+    "acquisitionFee" DECIMAL NOT NULL DEFAULT 0,
+    "proceeds" DECIMAL NOT NULL,
+    "disposalFee" DECIMAL NOT NULL DEFAULT 0,
+    "disposedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LotDisposal_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "TaxLot" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LotDisposal_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_LotDisposal" ("acquisitionFee", "costBasis", "createdAt", "disposalFee", "disposedAt", "id", "lotId", "proceeds", "quantity", "transactionId") SELECT ROUND("acquisitionFee", 8), ROUND("costBasis", 8), "createdAt", ROUND("disposalFee", 8), "disposedAt", "id", "lotId", ROUND("proceeds", 8), ROUND("quantity", 8), "transactionId" FROM "LotDisposal";
+DROP TABLE "LotDisposal";
+ALTER TABLE "new_LotDisposal" RENAME TO "LotDisposal";
+CREATE INDEX "LotDisposal_lotId_idx" ON "LotDisposal"("lotId");
+CREATE INDEX "LotDisposal_transactionId_idx" ON "LotDisposal"("transactionId");
+CREATE TABLE "new_PriceAlert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "targetPrice" DECIMAL NOT NULL,
+    "condition" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isTriggered" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "triggeredAt" DATETIME,
+    CONSTRAINT "PriceAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_PriceAlert" ("condition", "createdAt", "id", "isActive", "isTriggered", "symbol", "targetPrice", "triggeredAt", "userId") SELECT "condition", "createdAt", "id", "isActive", "isTriggered", "symbol", ROUND("targetPrice", 8), "triggeredAt", "userId" FROM "PriceAlert";
+DROP TABLE "PriceAlert";
+ALTER TABLE "new_PriceAlert" RENAME TO "PriceAlert";
+CREATE INDEX "PriceAlert_userId_idx" ON "PriceAlert"("userId");
+CREATE INDEX "PriceAlert_symbol_idx" ON "PriceAlert"("symbol");
+CREATE INDEX "PriceAlert_isActive_idx" ON "PriceAlert"("isActive");
+CREATE TABLE "new_MarketPrice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "coinId" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currentPrice" DECIMAL NOT NULL,
+    "marketCap" DECIMAL,
+    "volume24h" DECIMAL,
+    "priceChange24h" DECIMAL,
+    "priceChangePerc24h" DECIMAL,
+    "lastUpdated" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_MarketPrice" ("coinId", "createdAt", "currentPrice", "id", "lastUpdated", "marketCap", "name", "priceChange24h", "priceChangePerc24h", "symbol", "volume24h") SELECT "coinId", "createdAt", "currentPrice", "id", "lastUpdated", "marketCap", "name", "priceChange24h", "priceChangePerc24h", "symbol", "volume24h" FROM "MarketPrice";
+DROP TABLE "MarketPrice";
+ALTER TABLE "new_MarketPrice" RENAME TO "MarketPrice";
+CREATE UNIQUE INDEX "MarketPrice_coinId_key" ON "MarketPrice"("coinId");
+CREATE INDEX "MarketPrice_coinId_idx" ON "MarketPrice"("coinId");
+CREATE INDEX "MarketPrice_symbol_idx" ON "MarketPrice"("symbol");
+CREATE INDEX "MarketPrice_lastUpdated_idx" ON "MarketPrice"("lastUpdated");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE "Portfolio" ADD COLUMN "cashBalance" DECIMAL NOT NULL DEFAULT 0;
+
+-- Existing portfolios take the owner's currency
+UPDATE "Portfolio"
+SET "currency" = COALESCE(
+    (SELECT "currency" FROM "UserSettings" WHERE "UserSettings"."userId" = "Portfolio"."userId"),
+    'USD'
+);
+
+-- Backfill cash from the ledger; portfolios that bought without deposits start below zero
+UPDATE "Portfolio"
+SET "cashBalance" = ROUND(COALESCE(
+    (SELECT SUM(
+        CASE "type"
+            WHEN 'BUY' THEN -("quantity" * "price" + "fee")
+            WHEN 'SELL' THEN "quantity" * "price" - "fee"
+            ELSE 0
+        END
+    ) FROM "Transaction" WHERE "Transaction"."portfolioId" = "Portfolio"."id"),
+    0
+), 8);
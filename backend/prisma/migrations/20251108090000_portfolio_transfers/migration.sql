@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "acquiredAt" DATETIME;
+ALTER TABLE "Transaction" ADD COLUMN "transferId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_transferId_idx" ON "Transaction"("transferId");
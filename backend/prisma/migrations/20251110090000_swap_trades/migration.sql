@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "swapId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_swapId_idx" ON "Transaction"("swapId");
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "PriceTick" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "coinId" TEXT NOT NULL,
+    "price" DECIMAL NOT NULL,
+    "volume24h" DECIMAL,
+    "recordedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_PriceAlert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "portfolioId" TEXT,
+    "symbol" TEXT,
+    "targetPrice" DECIMAL,
+    "condition" TEXT NOT NULL,
+    "percent" DECIMAL,
+    "direction" TEXT,
+    "windowMinutes" INTEGER,
+    "multiplier" DECIMAL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isTriggered" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "triggeredAt" DATETIME,
+    CONSTRAINT "PriceAlert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PriceAlert_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_PriceAlert" ("condition", "createdAt", "id", "isActive", "isTriggered", "symbol", "targetPrice", "triggeredAt", "userId") SELECT "condition", "createdAt", "id", "isActive", "isTriggered", "symbol", "targetPrice", "triggeredAt", "userId" FROM "PriceAlert";
+DROP TABLE "PriceAlert";
+ALTER TABLE "new_PriceAlert" RENAME TO "PriceAlert";
+CREATE INDEX "PriceAlert_userId_idx" ON "PriceAlert"("userId");
+CREATE INDEX "PriceAlert_portfolioId_idx" ON "PriceAlert"("portfolioId");
+CREATE INDEX "PriceAlert_symbol_idx" ON "PriceAlert"("symbol");
+CREATE INDEX "PriceAlert_isActive_idx" ON "PriceAlert"("isActive");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "PriceTick_coinId_recordedAt_idx" ON "PriceTick"("coinId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "PriceTick_recordedAt_idx" ON "PriceTick"("recordedAt");
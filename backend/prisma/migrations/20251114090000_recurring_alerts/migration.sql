@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "PriceAlert" ADD COLUMN "repeatMode" TEXT NOT NULL DEFAULT 'ONCE';
+ALTER TABLE "PriceAlert" ADD COLUMN "cooldownMinutes" INTEGER;
+ALTER TABLE "PriceAlert" ADD COLUMN "expiresAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "AlertTrigger" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "alertId" TEXT NOT NULL,
+    "symbol" TEXT,
+    "price" DECIMAL,
+    "value" DECIMAL NOT NULL,
+    "triggeredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AlertTrigger_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "PriceAlert" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- Alerts that already fired keep that firing in their history; the price at the
+-- time was never stored, so the target they crossed stands in for it
+INSERT INTO "AlertTrigger" ("id", "alertId", "symbol", "price", "value", "triggeredAt")
+SELECT lower(hex(randomblob(16))), "id", "symbol", NULL, "targetPrice", "triggeredAt"
+FROM "PriceAlert"
+WHERE "isTriggered" = true AND "triggeredAt" IS NOT NULL AND "targetPrice" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "AlertTrigger_alertId_triggeredAt_idx" ON "AlertTrigger"("alertId", "triggeredAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN "emailAlerts" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "UserSettings" ADD COLUMN "emailDigest" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "UserSettings" ADD COLUMN "emailSecurity" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "UserSettings" ADD COLUMN "lastDigestAt" DATETIME;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "MarketPrice" ADD COLUMN "source" TEXT;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PriceCandle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "coinId" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "openTime" DATETIME NOT NULL,
+    "open" DECIMAL NOT NULL,
+    "high" DECIMAL NOT NULL,
+    "low" DECIMAL NOT NULL,
+    "close" DECIMAL NOT NULL,
+    "volume" DECIMAL,
+    "source" TEXT NOT NULL DEFAULT 'sync',
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceCandle_coinId_interval_openTime_key" ON "PriceCandle"("coinId", "interval", "openTime");
+
+-- CreateIndex
+CREATE INDEX "PriceCandle_interval_openTime_idx" ON "PriceCandle"("interval", "openTime");
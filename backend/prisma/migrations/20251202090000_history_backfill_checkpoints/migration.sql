@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "HistoryBackfillCheckpoint" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "coinId" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "coveredFrom" DATETIME,
+    "coveredTo" DATETIME,
+    "candlesAdded" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HistoryBackfillCheckpoint_coinId_interval_key" ON "HistoryBackfillCheckpoint"("coinId", "interval");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "CoinList" ADD COLUMN "image" TEXT;
+ALTER TABLE "CoinList" ADD COLUMN "marketCapRank" INTEGER;
+
+-- Polygon was seeded under an ID CoinGecko doesn't know
+UPDATE "CoinList" SET "coinId" = 'matic-network'
+WHERE "coinId" = 'polygon' AND NOT EXISTS (SELECT 1 FROM "CoinList" WHERE "coinId" = 'matic-network');
+DELETE FROM "MarketPrice" WHERE "coinId" = 'polygon';
@@ -0,0 +1,3 @@
+-- Synced candles stored the provider's rolling 24h volume, which isn't the volume traded
+-- within the candle
+UPDATE "PriceCandle" SET "volume" = NULL WHERE "source" = 'sync';
@@ -0,0 +1,8 @@
+-- Fees on transfers, gifts, rewards and FEE entries come out of cash as well
+UPDATE "Portfolio"
+SET "cashBalance" = ROUND("cashBalance" - COALESCE(
+    (SELECT SUM("fee") FROM "Transaction"
+     WHERE "Transaction"."portfolioId" = "Portfolio"."id"
+       AND "type" NOT IN ('BUY', 'SELL', 'DEPOSIT', 'WITHDRAW')),
+    0
+), 8);
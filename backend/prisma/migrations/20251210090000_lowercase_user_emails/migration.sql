@@ -0,0 +1,11 @@
+-- Sign-in now trims and lower-cases the email before looking the account up, so stored
+-- emails are brought into the same form. Accounts whose emails differ only in case are
+-- left as they are, to be merged by hand, rather than failing the unique index.
+UPDATE "User"
+SET "email" = LOWER(TRIM("email"))
+WHERE "email" <> LOWER(TRIM("email"))
+  AND NOT EXISTS (
+    SELECT 1 FROM "User" AS "other"
+    WHERE "other"."id" <> "User"."id"
+      AND LOWER(TRIM("other"."email")) = LOWER(TRIM("User"."email"))
+  );
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "RotatedRefreshToken" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "rotatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RotatedRefreshToken_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RotatedRefreshToken_tokenHash_key" ON "RotatedRefreshToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "RotatedRefreshToken_sessionId_rotatedAt_idx" ON "RotatedRefreshToken"("sessionId", "rotatedAt");
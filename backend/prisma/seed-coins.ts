@@ -2,22 +2,26 @@ import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// The coins the app knows about; logos and market cap ranks are kept current by the price sync
 const INITIAL_COINS = [
-  { coinId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
-  { coinId: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
-  { coinId: 'tether', symbol: 'USDT', name: 'Tether' },
-  { coinId: 'binancecoin', symbol: 'BNB', name: 'BNB' },
-  { coinId: 'solana', symbol: 'SOL', name: 'Solana' },
-  { coinId: 'ripple', symbol: 'XRP', name: 'XRP' },
-  { coinId: 'usd-coin', symbol: 'USDC', name: 'USD Coin' },
-  { coinId: 'cardano', symbol: 'ADA', name: 'Cardano' },
-  { coinId: 'dogecoin', symbol: 'DOGE', name: 'Dogecoin' },
-  { coinId: 'avalanche-2', symbol: 'AVAX', name: 'Avalanche' },
-  { coinId: 'tron', symbol: 'TRX', name: 'TRON' },
-  { coinId: 'polkadot', symbol: 'DOT', name: 'Polkadot' },
-  { coinId: 'chainlink', symbol: 'LINK', name: 'Chainlink' },
-  { coinId: 'polygon', symbol: 'MATIC', name: 'Polygon' },
-  { coinId: 'litecoin', symbol: 'LTC', name: 'Litecoin' },
+  { coinId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', image: 'https://assets.coingecko.com/coins/images/1/small/bitcoin.png' },
+  { coinId: 'ethereum', symbol: 'ETH', name: 'Ethereum', image: 'https://assets.coingecko.com/coins/images/279/small/ethereum.png' },
+  { coinId: 'tether', symbol: 'USDT', name: 'Tether', image: 'https://assets.coingecko.com/coins/images/325/small/Tether.png' },
+  { coinId: 'binancecoin', symbol: 'BNB', name: 'BNB', image: 'https://assets.coingecko.com/coins/images/825/small/bnb-icon2_2x.png' },
+  { coinId: 'solana', symbol: 'SOL', name: 'Solana', image: 'https://assets.coingecko.com/coins/images/4128/small/solana.png' },
+  { coinId: 'ripple', symbol: 'XRP', name: 'XRP', image: 'https://assets.coingecko.com/coins/images/44/small/xrp-symbol-white-128.png' },
+  { coinId: 'usd-coin', symbol: 'USDC', name: 'USD Coin', image: 'https://assets.coingecko.com/coins/images/6319/small/USD_Coin_icon.png' },
+  { coinId: 'cardano', symbol: 'ADA', name: 'Cardano', image: 'https://assets.coingecko.com/coins/images/975/small/cardano.png' },
+  { coinId: 'dogecoin', symbol: 'DOGE', name: 'Dogecoin', image: 'https://assets.coingecko.com/coins/images/5/small/dogecoin.png' },
+  { coinId: 'avalanche-2', symbol: 'AVAX', name: 'Avalanche', image: 'https://assets.coingecko.com/coins/images/12559/small/Avalanche_Circle_RedWhite_Trans.png' },
+  { coinId: 'tron', symbol: 'TRX', name: 'TRON', image: 'https://assets.coingecko.com/coins/images/1094/small/tron-logo.png' },
+  { coinId: 'polkadot', symbol: 'DOT', name: 'Polkadot', image: 'https://assets.coingecko.com/coins/images/12171/small/polkadot.png' },
+  { coinId: 'chainlink', symbol: 'LINK', name: 'Chainlink', image: 'https://assets.coingecko.com/coins/images/877/small/chainlink-new-logo.png' },
+  { coinId: 'matic-network', symbol: 'MATIC', name: 'Polygon', image: 'https://assets.coingecko.com/coins/images/4713/small/matic-token-icon.png' },
+  { coinId: 'litecoin', symbol: 'LTC', name: 'Litecoin', image: 'https://assets.coingecko.com/coins/images/2/small/litecoin.png' },
+  { coinId: 'uniswap', symbol: 'UNI', name: 'Uniswap', image: 'https://assets.coingecko.com/coins/images/12504/small/uniswap-uni.png' },
+  { coinId: 'cosmos', symbol: 'ATOM', name: 'Cosmos Hub', image: 'https://assets.coingecko.com/coins/images/1481/small/cosmos_hub.png' },
+  { coinId: 'bitcoin-cash', symbol: 'BCH', name: 'Bitcoin Cash', image: 'https://assets.coingecko.com/coins/images/780/small/bitcoin-cash-circle.png' },
 ];
 
 async function seedCoinList() {
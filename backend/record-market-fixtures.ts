@@ -0,0 +1,63 @@
+// Record live CoinGecko data as fixtures for MARKET_DATA_PROVIDER=fixture / simulated
+//
+//   npm run market:record -- [limit] [historyDays]
+//
+// Writes markets.json, trending.json and history/<id>.json for the top `limit` coins
+// into MARKET_FIXTURE_DIR (default fixtures/market).
+import { promises as fs } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { createCoinGeckoProvider } from './src/services/coingecko.provider';
+import { DEFAULT_FIXTURE_DIR } from './src/services/fixture.provider';
+
+dotenv.config();
+
+// Keep well under the public API's per-minute limit
+const REQUEST_DELAY_MS = 2500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const writeJson = async (file: string, data: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+};
+
+async function recordMarketFixtures() {
+  const limit = parseInt(process.argv[2] || '20', 10);
+  const days = parseInt(process.argv[3] || '30', 10);
+  const dir = process.env.MARKET_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+  const provider = createCoinGeckoProvider({
+    baseUrl: process.env.CRYPTO_API_BASE_URL,
+    apiKey: process.env.CRYPTO_API_KEY,
+  });
+
+  try {
+    console.log(`\n📼 Recording top ${limit} coins and ${days} days of history into ${dir}\n`);
+
+    const markets = await provider.getMarkets({ limit });
+    await writeJson(path.join(dir, 'markets.json'), markets);
+    console.log(`✅ markets.json (${markets.length} coins)`);
+
+    await sleep(REQUEST_DELAY_MS);
+    await writeJson(path.join(dir, 'trending.json'), await provider.getTrending());
+    console.log('✅ trending.json');
+
+    for (const coin of markets) {
+      await sleep(REQUEST_DELAY_MS);
+      try {
+        const history = await provider.getHistory(coin.id, days);
+        await writeJson(path.join(dir, 'history', `${coin.id}.json`), history);
+        console.log(`✅ history/${coin.id}.json (${history.length} points)`);
+      } catch (error) {
+        console.error(`❌ history for ${coin.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log('\n🎉 Done\n');
+  } catch (error) {
+    console.error('❌ Recording failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+recordMarketFixtures();
@@ -1,5 +1,129 @@
 import { Request, Response } from 'express';
+import { PriceAlert } from '@prisma/client';
 import { prisma } from '../server';
+import {
+  ALERT_CONDITIONS,
+  ALERT_PARAMETERS,
+  ALERT_PARAMETER_FIELDS,
+  MOVE_DIRECTIONS,
+  REPEAT_MODES,
+  isAlertCondition,
+} from '../services/alert.service';
+import { Decimal, parseDecimal, exceedsScale, PRICE_SCALE, FIAT_SCALE } from '../utils/decimal.utils';
+
+// PERCENT_CHANGE looks back at most as far as price ticks are kept
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+const MAX_COOLDOWN_MINUTES = 30 * 24 * 60;
+
+interface AlertParams {
+  condition: string;
+  symbol: string | null;
+  portfolioId: string | null;
+  targetPrice: Decimal | null;
+  percent: Decimal | null;
+  direction: string | null;
+  windowMinutes: number | null;
+  multiplier: Decimal | null;
+  repeatMode: string;
+  cooldownMinutes: number | null;
+  expiresAt: Date | null;
+}
+
+// Read alert parameters from a request body, falling back to the stored alert for
+// anything left out, and clear the ones the condition doesn't use
+const readAlertParams = (body: Record<string, unknown>, existing?: PriceAlert): AlertParams => {
+  const pick = <T>(field: string, parse: (value: unknown) => T | null, fallback: T | null): T | null =>
+    body[field] !== undefined ? parse(body[field]) : fallback;
+  const upper = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : null);
+  const integer = (value: unknown) => (value !== null && value !== '' && Number.isInteger(Number(value)) ? Number(value) : null);
+  const date = (value: unknown) => (typeof value === 'string' && value ? new Date(value) : null);
+
+  const params: AlertParams = {
+    condition: pick('condition', upper, existing?.condition ?? null) || '',
+    symbol: pick('symbol', upper, existing?.symbol ?? null),
+    portfolioId: pick('portfolioId', value => (typeof value === 'string' && value ? value : null), existing?.portfolioId ?? null),
+    targetPrice: pick('targetPrice', parseDecimal, existing?.targetPrice ?? null),
+    percent: pick('percent', parseDecimal, existing?.percent ?? null),
+    direction: pick('direction', upper, existing?.direction ?? null),
+    windowMinutes: pick('windowMinutes', integer, existing?.windowMinutes ?? null),
+    multiplier: pick('multiplier', parseDecimal, existing?.multiplier ?? null),
+    repeatMode: pick('repeatMode', upper, existing?.repeatMode ?? null) || 'ONCE',
+    cooldownMinutes: pick('cooldownMinutes', integer, existing?.cooldownMinutes ?? null),
+    expiresAt: pick('expiresAt', date, existing?.expiresAt ?? null),
+  };
+
+  if (params.repeatMode !== 'COOLDOWN') {
+    params.cooldownMinutes = null;
+  }
+
+  if (isAlertCondition(params.condition)) {
+    const used: readonly string[] = ALERT_PARAMETERS[params.condition];
+    ALERT_PARAMETER_FIELDS.filter(field => !used.includes(field)).forEach(field => {
+      params[field] = null;
+    });
+
+    if (params.condition === 'PERCENT_CHANGE' && !params.direction) {
+      params.direction = 'EITHER';
+    }
+  }
+
+  return params;
+};
+
+// Check the parameters the condition needs; returns an error message or null
+const validateAlertParams = (params: AlertParams): string | null => {
+  const { condition, symbol, targetPrice, percent, direction, windowMinutes, multiplier, repeatMode, cooldownMinutes, expiresAt } = params;
+
+  if (!isAlertCondition(condition)) {
+    return `Condition must be one of ${ALERT_CONDITIONS.join(', ')}`;
+  }
+
+  const used = ALERT_PARAMETERS[condition];
+
+  if (used.includes('symbol') && !symbol) {
+    return `${condition} alerts need a symbol`;
+  }
+
+  if (used.includes('targetPrice')) {
+    const scale = condition === 'PORTFOLIO_BELOW' ? FIAT_SCALE : PRICE_SCALE;
+    if (!targetPrice || targetPrice.lte(0) || exceedsScale(targetPrice, scale)) {
+      return `Invalid target price. Must be a positive number with at most ${scale} decimal places.`;
+    }
+  }
+
+  if (used.includes('percent')) {
+    const max = condition === 'HOLDING_LOSS' ? 100 : 1000;
+    if (!percent || percent.lte(0) || percent.gt(max) || exceedsScale(percent, 2)) {
+      return `Invalid percent. Must be greater than 0 and at most ${max}, with at most 2 decimal places.`;
+    }
+  }
+
+  if (used.includes('direction') && !(MOVE_DIRECTIONS as readonly string[]).includes(direction || '')) {
+    return `Direction must be one of ${MOVE_DIRECTIONS.join(', ')}`;
+  }
+
+  if (used.includes('windowMinutes') && (!windowMinutes || windowMinutes < 1 || windowMinutes > MAX_WINDOW_MINUTES)) {
+    return `Invalid window. Must be a whole number of minutes between 1 and ${MAX_WINDOW_MINUTES}.`;
+  }
+
+  if (used.includes('multiplier') && (!multiplier || multiplier.lte(1) || exceedsScale(multiplier, 2))) {
+    return 'Invalid multiplier. Must be greater than 1 with at most 2 decimal places.';
+  }
+
+  if (!(REPEAT_MODES as readonly string[]).includes(repeatMode)) {
+    return `Repeat mode must be one of ${REPEAT_MODES.join(', ')}`;
+  }
+
+  if (repeatMode === 'COOLDOWN' && (!cooldownMinutes || cooldownMinutes < 1 || cooldownMinutes > MAX_COOLDOWN_MINUTES)) {
+    return `Invalid cooldown. Must be a whole number of minutes between 1 and ${MAX_COOLDOWN_MINUTES}.`;
+  }
+
+  if (expiresAt && isNaN(expiresAt.getTime())) {
+    return 'Invalid expiry date';
+  }
+
+  return null;
+};
 
 export const alertController = {
   // Get all user alerts
@@ -28,29 +152,45 @@ export const alertController = {
   async createAlert(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
-      const { symbol, targetPrice, condition } = req.body;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
-      if (!symbol || targetPrice === undefined || !condition) {
+      if (!req.body.condition) {
         res.status(400).json({ error: 'Missing required fields' });
         return;
       }
 
-      if (!['ABOVE', 'BELOW'].includes(condition.toUpperCase())) {
-        res.status(400).json({ error: 'Condition must be ABOVE or BELOW' });
+      const params = readAlertParams(req.body);
+      const validationError = validateAlertParams(params);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      if (params.expiresAt && params.expiresAt <= new Date()) {
+        res.status(400).json({ error: 'Expiry date must be in the future' });
         return;
       }
 
+      // Verify portfolio ownership
+      if (params.portfolioId) {
+        const portfolio = await prisma.portfolio.findFirst({
+          where: { id: params.portfolioId, userId },
+        });
+
+        if (!portfolio) {
+          res.status(404).json({ error: 'Portfolio not found' });
+          return;
+        }
+      }
+
       const alert = await prisma.priceAlert.create({
         data: {
           userId,
-          symbol: symbol.toUpperCase(),
-          targetPrice: parseFloat(targetPrice),
-          condition: condition.toUpperCase(),
+          ...params,
           isActive: true,
         },
       });
@@ -70,7 +210,7 @@ export const alertController = {
     try {
       const userId = req.user?.userId;
       const { id } = req.params;
-      const { targetPrice, condition, isActive } = req.body;
+      const { isActive } = req.body;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
@@ -87,12 +227,40 @@ export const alertController = {
         return;
       }
 
+      const params = readAlertParams(req.body, existing);
+      const validationError = validateAlertParams(params);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      // An expired alert can't be switched back on without a new expiry
+      if (params.expiresAt && params.expiresAt <= new Date() && (isActive ?? existing.isActive)) {
+        res.status(400).json({ error: 'Expiry date must be in the future' });
+        return;
+      }
+
+      if (params.portfolioId && params.portfolioId !== existing.portfolioId) {
+        const portfolio = await prisma.portfolio.findFirst({
+          where: { id: params.portfolioId, userId },
+        });
+
+        if (!portfolio) {
+          res.status(404).json({ error: 'Portfolio not found' });
+          return;
+        }
+      }
+
+      // A new condition or parameter re-arms an alert that has already fired
+      const rearm = params.condition !== existing.condition ||
+        ALERT_PARAMETER_FIELDS.some(field => String(params[field] ?? '') !== String(existing[field] ?? ''));
+
       const alert = await prisma.priceAlert.update({
         where: { id },
         data: {
-          ...(targetPrice !== undefined && { targetPrice: parseFloat(targetPrice) }),
-          ...(condition && { condition: condition.toUpperCase() }),
+          ...params,
           ...(isActive !== undefined && { isActive }),
+          ...(rearm && { isTriggered: false }),
         },
       });
 
@@ -106,6 +274,39 @@ export const alertController = {
     }
   },
 
+  // List every time an alert has fired, newest first
+  async getAlertHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const alert = await prisma.priceAlert.findFirst({
+        where: { id, userId },
+      });
+
+      if (!alert) {
+        res.status(404).json({ error: 'Alert not found' });
+        return;
+      }
+
+      const triggers = await prisma.alertTrigger.findMany({
+        where: { alertId: id },
+        orderBy: { triggeredAt: 'desc' },
+      });
+
+      res.json({ alert, triggers });
+    } catch (error) {
+      console.error('Get alert history error:', error);
+      res.status(500).json({ error: 'Failed to fetch alert history' });
+    }
+  },
+
   // Delete alert
   async deleteAlert(req: Request, res: Response): Promise<void> {
     try {
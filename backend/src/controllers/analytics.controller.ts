@@ -1,6 +1,22 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { cryptoService } from '../services/crypto.service';
+import { MarketCoin } from '../services/market-data.service';
+import {
+  costBasisService,
+  holdingKey,
+  isCostBasisMethod,
+  isIncome,
+  INCOME_TYPES,
+  COST_BASIS_METHODS,
+  CostBasisMethod,
+} from '../services/cost-basis.service';
+import { toCsv } from '../utils/csv.utils';
+import { Decimal, ZERO, percentOf, sumDecimals } from '../utils/decimal.utils';
+
+// Holding period (in days) after which a disposal counts as long-term
+const DEFAULT_LONG_TERM_DAYS = parseInt(process.env.TAX_LONG_TERM_DAYS || '365');
+const DAY_MS = 1000 * 60 * 60 * 24;
 
 export const analyticsController = {
   // Get portfolio performance over time
@@ -35,24 +51,21 @@ export const analyticsController = {
       const symbols = [...new Set(allAssets.map(a => a.symbol))];
 
       // Get current prices
-      const prices = await cryptoService.getPrices(symbols);
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
+      const priceMap = await cryptoService.getPriceMap(symbols);
 
       // Calculate current total value
-      let totalCurrentValue = 0;
-      let totalCostBasis = 0;
+      let totalCurrentValue = ZERO;
+      let totalCostBasis = ZERO;
 
       allAssets.forEach(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        totalCurrentValue += asset.quantity * currentPrice;
-        totalCostBasis += asset.quantity * asset.purchasePrice;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        totalCurrentValue = totalCurrentValue.plus(asset.quantity.times(currentPrice));
+        totalCostBasis = totalCostBasis.plus(asset.quantity.times(asset.purchasePrice));
       });
 
-      const totalProfitLoss = totalCurrentValue - totalCostBasis;
-      const totalProfitLossPercentage = totalCostBasis > 0 
-        ? (totalProfitLoss / totalCostBasis) * 100 
-        : 0;
+      const totalProfitLoss = totalCurrentValue.minus(totalCostBasis);
+      const totalProfitLossPercentage = percentOf(totalProfitLoss, totalCostBasis);
 
       res.json({
         currentValue: totalCurrentValue,
@@ -100,24 +113,23 @@ export const analyticsController = {
       const symbols = [...new Set(allAssets.map(a => a.symbol))];
 
       // Get current prices
-      const prices = await cryptoService.getPrices(symbols);
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
+      const priceMap = await cryptoService.getPriceMap(symbols);
 
       // Calculate allocation
-      let totalValue = 0;
-      const assetValues = new Map<string, { value: number; quantity: number; name: string }>();
+      let totalValue = ZERO;
+      const assetValues = new Map<string, { value: Decimal; quantity: Decimal; name: string }>();
 
       allAssets.forEach(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        const value = asset.quantity * currentPrice;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        const value = asset.quantity.times(currentPrice);
         
-        totalValue += value;
+        totalValue = totalValue.plus(value);
 
         const existing = assetValues.get(asset.symbol);
         if (existing) {
-          existing.value += value;
-          existing.quantity += asset.quantity;
+          existing.value = existing.value.plus(value);
+          existing.quantity = existing.quantity.plus(asset.quantity);
         } else {
           assetValues.set(asset.symbol, { 
             value, 
@@ -133,8 +145,8 @@ export const analyticsController = {
         name: data.name,
         value: data.value,
         quantity: data.quantity,
-        percentage: totalValue > 0 ? (data.value / totalValue) * 100 : 0,
-      })).sort((a, b) => b.value - a.value);
+        percentage: percentOf(data.value, totalValue),
+      })).sort((a, b) => b.value.comparedTo(a.value));
 
       res.json({
         totalValue,
@@ -151,21 +163,27 @@ export const analyticsController = {
     try {
       const userId = req.user?.userId;
       const { portfolioId } = req.query;
+      const method = req.query.method ? String(req.query.method).toUpperCase() : undefined;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
+      if (method !== undefined && !isCostBasisMethod(method)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
       // Get user's portfolios or specific portfolio
       const portfolios = portfolioId
         ? await prisma.portfolio.findMany({
             where: { id: portfolioId as string, userId },
-            include: { assets: true },
+            include: { assets: true, transactions: true },
           })
         : await prisma.portfolio.findMany({
             where: { userId },
-            include: { assets: true },
+            include: { assets: true, transactions: true },
           });
 
       if (portfolios.length === 0) {
@@ -173,47 +191,54 @@ export const analyticsController = {
         return;
       }
 
+      // Cost basis comes from the lot ledger under the chosen method
+      const settings = await prisma.userSettings.findUnique({ where: { userId } });
+      const { holdings, method: costBasisMethod } = costBasisService.buildHoldingIndex(
+        portfolios,
+        settings?.costBasisMethod,
+        method as CostBasisMethod | undefined
+      );
+
       // Aggregate all assets
       const allAssets = portfolios.flatMap(p => p.assets);
       const symbols = [...new Set(allAssets.map(a => a.symbol))];
 
       // Get current prices
-      const prices = await cryptoService.getPrices(symbols);
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
+      const priceMap = await cryptoService.getPriceMap(symbols);
 
       // Calculate P&L for each asset
       const assetPnL = allAssets.map(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        const currentValue = asset.quantity * currentPrice;
-        const costBasis = asset.quantity * asset.purchasePrice;
-        const profitLoss = currentValue - costBasis;
-        const profitLossPercentage = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        const currentValue = asset.quantity.times(currentPrice);
+        const unitCost = holdings.get(holdingKey(asset.portfolioId, asset.symbol))?.averageCost ?? asset.purchasePrice;
+        const costBasis = asset.quantity.times(unitCost);
+        const profitLoss = currentValue.minus(costBasis);
+        const profitLossPercentage = percentOf(profitLoss, costBasis);
 
         return {
           symbol: asset.symbol,
           name: asset.name,
           quantity: asset.quantity,
-          purchasePrice: asset.purchasePrice,
+          purchasePrice: unitCost,
           currentPrice,
           costBasis,
           currentValue,
           profitLoss,
           profitLossPercentage,
         };
-      }).sort((a, b) => b.profitLoss - a.profitLoss);
+      }).sort((a, b) => b.profitLoss.comparedTo(a.profitLoss));
 
-      const totalCurrentValue = assetPnL.reduce((sum, asset) => sum + asset.currentValue, 0);
-      const totalCostBasis = assetPnL.reduce((sum, asset) => sum + asset.costBasis, 0);
-      const totalProfitLoss = totalCurrentValue - totalCostBasis;
-      const totalProfitLossPercentage = totalCostBasis > 0 
-        ? (totalProfitLoss / totalCostBasis) * 100 
-        : 0;
+      const totalCurrentValue = sumDecimals(assetPnL.map(asset => asset.currentValue));
+      const totalCostBasis = sumDecimals(assetPnL.map(asset => asset.costBasis));
+      const totalProfitLoss = totalCurrentValue.minus(totalCostBasis);
+      const totalProfitLossPercentage = percentOf(totalProfitLoss, totalCostBasis);
 
-      const winners = assetPnL.filter(a => a.profitLoss > 0);
-      const losers = assetPnL.filter(a => a.profitLoss < 0);
+      const winners = assetPnL.filter(a => a.profitLoss.gt(0));
+      const losers = assetPnL.filter(a => a.profitLoss.lt(0));
 
       res.json({
+        costBasisMethod,
         summary: {
           totalCurrentValue,
           totalCostBasis,
@@ -237,12 +262,18 @@ export const analyticsController = {
     try {
       const userId = req.user?.userId;
       const { portfolioId } = req.query;
+      const method = req.query.method ? String(req.query.method).toUpperCase() : undefined;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
+      if (method !== undefined && !isCostBasisMethod(method)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
       // Get user's portfolios or specific portfolio
       const portfolios = portfolioId
         ? await prisma.portfolio.findMany({
@@ -265,27 +296,43 @@ export const analyticsController = {
       
       const symbols = [...new Set(allAssets.map(a => a.symbol))];
 
+      const settings = await prisma.userSettings.findUnique({ where: { userId } });
+      const { holdings, method: costBasisMethod } = costBasisService.buildHoldingIndex(
+        portfolios,
+        settings?.costBasisMethod,
+        method as CostBasisMethod | undefined
+      );
+
       // Get current prices
-      const prices = await cryptoService.getPrices(symbols);
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
+      const priceMap = await cryptoService.getPriceMap(symbols);
 
       // Calculate current total value
-      let totalCurrentValue = 0;
-      let totalInvested = 0;
+      let totalCurrentValue = ZERO;
+      let totalInvested = ZERO;
 
       allAssets.forEach(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        totalCurrentValue += asset.quantity * currentPrice;
-        totalInvested += asset.quantity * asset.purchasePrice;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        const holding = holdings.get(holdingKey(asset.portfolioId, asset.symbol));
+        // Fees are subtracted separately below, and coins received as income weren't paid for,
+        // so leave both out of the invested amount
+        const unitCost = holding
+          ? holding.costBasis.minus(holding.acquisitionFees).minus(holding.incomeBasis).div(holding.quantity)
+          : asset.purchasePrice;
+        totalCurrentValue = totalCurrentValue.plus(asset.quantity.times(currentPrice));
+        totalInvested = totalInvested.plus(asset.quantity.times(unitCost));
       });
 
-      // Calculate fees from transactions
-      const totalFees = allTransactions.reduce((sum, tx) => sum + tx.fee, 0);
+      // Calculate fees from transactions; standalone network fees cost the coins they spent,
+      // and fees carried along by a portfolio transfer were already paid on the original buy
+      const totalFees = sumDecimals(allTransactions.map(tx => {
+        if (tx.transferId) return ZERO;
+        return tx.type === 'FEE' ? tx.fee.plus(tx.quantity.times(tx.price)) : tx.fee;
+      }));
+      const totalIncome = sumDecimals(allTransactions.filter(tx => isIncome(tx.type)).map(tx => tx.quantity.times(tx.price)));
+      const netProfitLoss = totalCurrentValue.minus(totalInvested).minus(totalFees);
       
-      const roi = totalInvested > 0 
-        ? ((totalCurrentValue - totalInvested - totalFees) / totalInvested) * 100 
-        : 0;
+      const roi = percentOf(netProfitLoss, totalInvested);
 
       // Calculate time-weighted return (simplified)
       const oldestAsset = allAssets.reduce((oldest, asset) => {
@@ -296,15 +343,17 @@ export const analyticsController = {
         ? Math.floor((Date.now() - oldestAsset.purchaseDate.getTime()) / (1000 * 60 * 60 * 24))
         : 0;
 
-      const annualizedROI = daysHeld > 0 && totalInvested > 0
+      const annualizedROI = daysHeld > 0 && totalInvested.gt(0)
         ? (roi / daysHeld) * 365
         : 0;
 
       res.json({
+        costBasisMethod,
         totalInvested,
         totalCurrentValue,
         totalFees,
-        netProfitLoss: totalCurrentValue - totalInvested - totalFees,
+        totalIncome,
+        netProfitLoss,
         roi,
         daysHeld,
         annualizedROI,
@@ -353,21 +402,19 @@ export const analyticsController = {
       const symbols = [...new Set(allAssets.map(a => a.symbol))];
 
       // Get current prices (with error handling)
-      let prices: any[] = [];
+      let priceMap = new Map<string, MarketCoin>();
       try {
-        prices = await cryptoService.getPrices(symbols);
+        priceMap = await cryptoService.getPriceMap(symbols);
       } catch (priceError) {
         console.error('Failed to fetch prices for symbols:', symbols, priceError);
         // Continue with empty prices - will use 0 for currentPrice
       }
-      
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
 
       // Calculate value for each asset and prepare response
       const holdingsWithValue = allAssets.map(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        const value = asset.quantity * currentPrice;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        const value = asset.quantity.times(currentPrice);
         const priceChange24h = priceData?.price_change_percentage_24h || 0;
 
         return {
@@ -378,16 +425,14 @@ export const analyticsController = {
           purchasePrice: asset.purchasePrice,
           value,
           priceChange24h,
-          profitLoss: value - (asset.quantity * asset.purchasePrice),
-          profitLossPercentage: asset.purchasePrice > 0 
-            ? ((currentPrice - asset.purchasePrice) / asset.purchasePrice) * 100 
-            : 0,
+          profitLoss: value.minus(asset.quantity.times(asset.purchasePrice)),
+          profitLossPercentage: percentOf(currentPrice.minus(asset.purchasePrice), asset.purchasePrice),
         };
       });
 
       // Sort by value (descending) and limit
       const topHoldings = holdingsWithValue
-        .sort((a, b) => b.value - a.value)
+        .sort((a, b) => b.value.comparedTo(a.value))
         .slice(0, parseInt(limit as string));
 
       res.json(topHoldings);
@@ -399,5 +444,362 @@ export const analyticsController = {
       });
     }
   },
-};
 
+  // Get realized and unrealized P&L by symbol and portfolio
+  async getPnLBreakdown(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { portfolioId, symbol, from, to } = req.query;
+      const method = req.query.method ? String(req.query.method).toUpperCase() : undefined;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      if (method !== undefined && !isCostBasisMethod(method)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
+      const fromDate = from ? new Date(from as string) : null;
+      const toDate = to ? new Date(to as string) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid date range' });
+        return;
+      }
+
+      const symbolFilter = symbol ? String(symbol).toUpperCase() : null;
+
+      // Lots are matched over the full history; filters only narrow what is reported
+      const portfolios = await prisma.portfolio.findMany({
+        where: { userId, ...(portfolioId && { id: portfolioId as string }) },
+        include: { transactions: true },
+      });
+
+      if (portfolios.length === 0) {
+        res.status(404).json({ error: 'No portfolios found' });
+        return;
+      }
+
+      const settings = await prisma.userSettings.findUnique({ where: { userId } });
+
+      const emptyRow = () => ({
+        realized: { quantity: ZERO, proceeds: ZERO, costBasis: ZERO, fees: ZERO, profitLoss: ZERO },
+        unrealized: { quantity: ZERO, costBasis: ZERO, fees: ZERO, currentValue: ZERO, profitLoss: ZERO },
+        totalProfitLoss: ZERO,
+      });
+      type Row = ReturnType<typeof emptyRow>;
+
+      const bySymbol = new Map<string, Row>();
+      const byPortfolio = new Map<string, Row>();
+      const totals = emptyRow();
+      const openPositions: Array<{ portfolioId: string; symbol: string; quantity: Decimal; costBasis: Decimal; fees: Decimal }> = [];
+      const methods = new Set<string>();
+
+      const rowsFor = (portfolio: string, sym: string): Row[] => {
+        if (!bySymbol.has(sym)) bySymbol.set(sym, emptyRow());
+        if (!byPortfolio.has(portfolio)) byPortfolio.set(portfolio, emptyRow());
+        return [bySymbol.get(sym)!, byPortfolio.get(portfolio)!, totals];
+      };
+
+      portfolios.forEach(portfolio => {
+        const portfolioMethod = (method as CostBasisMethod | undefined) ||
+          costBasisService.resolveMethod(portfolio.costBasisMethod, settings?.costBasisMethod);
+        methods.add(portfolioMethod);
+
+        const transactions = symbolFilter
+          ? portfolio.transactions.filter(tx => tx.symbol === symbolFilter)
+          : portfolio.transactions;
+        const lots = costBasisService.matchLots(transactions, portfolioMethod);
+
+        costBasisService.listDisposals(lots)
+          .filter(d => (!fromDate || d.disposedAt >= fromDate) && (!toDate || d.disposedAt <= toDate))
+          .forEach(d => {
+            rowsFor(portfolio.id, d.symbol).forEach(row => {
+              row.realized.quantity = row.realized.quantity.plus(d.quantity);
+              row.realized.proceeds = row.realized.proceeds.plus(d.proceeds);
+              row.realized.costBasis = row.realized.costBasis.plus(d.costBasis);
+              row.realized.fees = row.realized.fees.plus(d.acquisitionFee).plus(d.disposalFee);
+              row.realized.profitLoss = row.realized.profitLoss.plus(d.gain);
+            });
+          });
+
+        costBasisService.summarizeLots(lots).forEach(holding => {
+          openPositions.push({
+            portfolioId: portfolio.id,
+            symbol: holding.symbol,
+            quantity: holding.quantity,
+            costBasis: holding.costBasis.minus(holding.acquisitionFees),
+            fees: holding.acquisitionFees,
+          });
+        });
+      });
+
+      // Unrealized P&L is always valued at current prices
+      const symbols = [...new Set(openPositions.map(p => p.symbol))];
+      const priceMap = await cryptoService.getPriceMap(symbols);
+
+      openPositions.forEach(position => {
+        const currentPrice = new Decimal(priceMap.get(position.symbol)?.current_price || 0);
+        const currentValue = position.quantity.times(currentPrice);
+        const profitLoss = currentValue.minus(position.costBasis).minus(position.fees);
+
+        rowsFor(position.portfolioId, position.symbol).forEach(row => {
+          row.unrealized.quantity = row.unrealized.quantity.plus(position.quantity);
+          row.unrealized.costBasis = row.unrealized.costBasis.plus(position.costBasis);
+          row.unrealized.fees = row.unrealized.fees.plus(position.fees);
+          row.unrealized.currentValue = row.unrealized.currentValue.plus(currentValue);
+          row.unrealized.profitLoss = row.unrealized.profitLoss.plus(profitLoss);
+        });
+      });
+
+      [...bySymbol.values(), ...byPortfolio.values(), totals].forEach(row => {
+        row.totalProfitLoss = row.realized.profitLoss.plus(row.unrealized.profitLoss);
+      });
+
+      const portfolioNames = new Map(portfolios.map(p => [p.id, p.name]));
+
+      res.json({
+        costBasisMethod: methods.size > 1 ? 'MIXED' : [...methods][0],
+        range: {
+          from: fromDate?.toISOString() || null,
+          to: toDate?.toISOString() || null,
+        },
+        totals,
+        bySymbol: Array.from(bySymbol.entries())
+          .map(([sym, row]) => ({ symbol: sym, ...row }))
+          .sort((a, b) => b.totalProfitLoss.comparedTo(a.totalProfitLoss)),
+        byPortfolio: Array.from(byPortfolio.entries())
+          .map(([id, row]) => ({ portfolioId: id, name: portfolioNames.get(id), ...row }))
+          .sort((a, b) => b.totalProfitLoss.comparedTo(a.totalProfitLoss)),
+      });
+    } catch (error) {
+      console.error('Get P&L breakdown error:', error);
+      res.status(500).json({ error: 'Failed to fetch P&L breakdown' });
+    }
+  },
+
+  // Get capital gains tax report for a tax year (JSON or CSV)
+  async getTaxReport(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { portfolioId, format } = req.query;
+      const year = parseInt(req.query.year as string);
+      const longTermDays = req.query.longTermDays !== undefined
+        ? parseInt(req.query.longTermDays as string)
+        : DEFAULT_LONG_TERM_DAYS;
+      const method = req.query.method ? String(req.query.method).toUpperCase() : undefined;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      if (isNaN(year) || year < 1970 || year > 9999) {
+        res.status(400).json({ error: 'A valid tax year is required' });
+        return;
+      }
+
+      if (isNaN(longTermDays) || longTermDays < 0) {
+        res.status(400).json({ error: 'longTermDays must be a non-negative number' });
+        return;
+      }
+
+      if (method !== undefined && !isCostBasisMethod(method)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
+      const portfolios = await prisma.portfolio.findMany({
+        where: { userId, ...(portfolioId && { id: portfolioId as string }) },
+        include: { transactions: true },
+      });
+
+      if (portfolios.length === 0) {
+        res.status(404).json({ error: 'No portfolios found' });
+        return;
+      }
+
+      const settings = await prisma.userSettings.findUnique({ where: { userId } });
+      const yearStart = new Date(Date.UTC(year, 0, 1));
+      const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+      const methods = new Set<string>();
+
+      const disposals = portfolios.flatMap(portfolio => {
+        const portfolioMethod = (method as CostBasisMethod | undefined) ||
+          costBasisService.resolveMethod(portfolio.costBasisMethod, settings?.costBasisMethod);
+        methods.add(portfolioMethod);
+
+        const lots = costBasisService.matchLots(portfolio.transactions, portfolioMethod);
+
+        return costBasisService.listDisposals(lots)
+          .filter(d => d.disposedAt >= yearStart && d.disposedAt < yearEnd)
+          .map(d => {
+            const daysHeld = Math.floor((d.disposedAt.getTime() - d.acquiredAt.getTime()) / DAY_MS);
+
+            return {
+              portfolioId: portfolio.id,
+              portfolioName: portfolio.name,
+              symbol: d.symbol,
+              quantity: d.quantity,
+              acquiredAt: d.acquiredAt,
+              disposedAt: d.disposedAt,
+              proceeds: d.proceeds,
+              costBasis: d.costBasis,
+              fees: d.acquisitionFee.plus(d.disposalFee),
+              gain: d.gain,
+              daysHeld,
+              term: daysHeld > longTermDays ? 'LONG' : 'SHORT',
+              buyTransactionId: d.lotTransactionId,
+              sellTransactionId: d.transactionId,
+            };
+          });
+      }).sort((a, b) => a.disposedAt.getTime() - b.disposedAt.getTime());
+
+      const summary = disposals.reduce((acc, d) => {
+        acc.proceeds = acc.proceeds.plus(d.proceeds);
+        acc.costBasis = acc.costBasis.plus(d.costBasis);
+        acc.fees = acc.fees.plus(d.fees);
+        acc.gain = acc.gain.plus(d.gain);
+        if (d.term === 'LONG') acc.longTermGain = acc.longTermGain.plus(d.gain);
+        else acc.shortTermGain = acc.shortTermGain.plus(d.gain);
+        return acc;
+      }, { proceeds: ZERO, costBasis: ZERO, fees: ZERO, gain: ZERO, shortTermGain: ZERO, longTermGain: ZERO });
+
+      const costBasisMethod = methods.size > 1 ? 'MIXED' : [...methods][0];
+
+      if (format === 'csv') {
+        const csv = toCsv(
+          ['Portfolio', 'Symbol', 'Quantity', 'Date Acquired', 'Date Disposed', 'Proceeds', 'Cost Basis', 'Fees', 'Gain', 'Days Held', 'Term'],
+          [
+            ...disposals.map(d => [
+              d.portfolioName, d.symbol, d.quantity, d.acquiredAt, d.disposedAt,
+              d.proceeds, d.costBasis, d.fees, d.gain, d.daysHeld, d.term,
+            ]),
+            [
+              `TOTAL ${year} (${costBasisMethod})`, '', '', '', '',
+              summary.proceeds, summary.costBasis, summary.fees, summary.gain, '',
+              `SHORT ${summary.shortTermGain} / LONG ${summary.longTermGain}`,
+            ],
+          ]
+        );
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="tax-report-${year}.csv"`);
+        res.send(csv);
+        return;
+      }
+
+      res.json({
+        year,
+        costBasisMethod,
+        longTermDays,
+        summary: {
+          ...summary,
+          disposalCount: disposals.length,
+        },
+        disposals,
+      });
+    } catch (error) {
+      console.error('Get tax report error:', error);
+      res.status(500).json({ error: 'Failed to generate tax report' });
+    }
+  },
+
+  // Get staking, reward and airdrop income, valued at market price on receipt (JSON or CSV)
+  async getIncomeReport(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { portfolioId, from, to, format } = req.query;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const fromDate = from ? new Date(from as string) : null;
+      const toDate = to ? new Date(to as string) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid date range' });
+        return;
+      }
+
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          portfolio: { userId },
+          ...(portfolioId && { portfolioId: portfolioId as string }),
+          type: { in: [...INCOME_TYPES] },
+          timestamp: {
+            ...(fromDate && { gte: fromDate }),
+            ...(toDate && { lte: toDate }),
+          },
+        },
+        include: { portfolio: { select: { name: true } } },
+        orderBy: { timestamp: 'asc' },
+      });
+
+      const events = transactions.map(tx => ({
+        transactionId: tx.id,
+        portfolioId: tx.portfolioId,
+        portfolioName: tx.portfolio.name,
+        type: tx.type,
+        symbol: tx.symbol,
+        quantity: tx.quantity,
+        unitValue: tx.price,
+        value: tx.quantity.times(tx.price),
+        receivedAt: tx.timestamp,
+      }));
+
+      const byType = new Map<string, Decimal>();
+      const bySymbol = new Map<string, { quantity: Decimal; value: Decimal }>();
+
+      events.forEach(event => {
+        byType.set(event.type, (byType.get(event.type) || ZERO).plus(event.value));
+
+        const row = bySymbol.get(event.symbol) || { quantity: ZERO, value: ZERO };
+        row.quantity = row.quantity.plus(event.quantity);
+        row.value = row.value.plus(event.value);
+        bySymbol.set(event.symbol, row);
+      });
+
+      const totalIncome = sumDecimals(events.map(event => event.value));
+
+      if (format === 'csv') {
+        const csv = toCsv(
+          ['Portfolio', 'Type', 'Symbol', 'Quantity', 'Date Received', 'Unit Value', 'Income'],
+          [
+            ...events.map(e => [e.portfolioName, e.type, e.symbol, e.quantity, e.receivedAt, e.unitValue, e.value]),
+            ['TOTAL', '', '', '', '', '', totalIncome],
+          ]
+        );
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="income-report.csv"');
+        res.send(csv);
+        return;
+      }
+
+      res.json({
+        range: {
+          from: fromDate?.toISOString() || null,
+          to: toDate?.toISOString() || null,
+        },
+        summary: {
+          totalIncome,
+          eventCount: events.length,
+          byType: Object.fromEntries(byType),
+        },
+        bySymbol: Array.from(bySymbol.entries())
+          .map(([sym, row]) => ({ symbol: sym, ...row }))
+          .sort((a, b) => b.value.comparedTo(a.value)),
+        events,
+      });
+    } catch (error) {
+      console.error('Get income report error:', error);
+      res.status(500).json({ error: 'Failed to generate income report' });
+    }
+  },
+};
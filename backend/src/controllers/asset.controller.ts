@@ -1,6 +1,10 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { cryptoService } from '../services/crypto.service';
+import { holdingsService } from '../services/holdings.service';
+import { ApiError } from '../utils/error.utils';
+import { withTransaction } from '../utils/db.utils';
+import { Decimal, parseDecimal, exceedsScale, quantityScale, percentOf, PRICE_SCALE } from '../utils/decimal.utils';
 
 export const assetController = {
   // Get all assets in a portfolio
@@ -98,40 +102,41 @@ export const assetController = {
       }
 
       // Validate numbers
-      const quantityNum = parseFloat(quantity);
-      const priceNum = parseFloat(purchasePrice);
+      const quantityNum = parseDecimal(quantity);
+      const priceNum = parseDecimal(purchasePrice);
+      const scale = quantityScale(symbol);
 
-      if (isNaN(quantityNum) || quantityNum <= 0) {
-        res.status(400).json({ error: 'Invalid quantity. Must be a positive number.' });
+      if (!quantityNum || quantityNum.lte(0) || exceedsScale(quantityNum, scale)) {
+        res.status(400).json({ error: `Invalid quantity. Must be a positive number with at most ${scale} decimal places.` });
         return;
       }
 
-      if (isNaN(priceNum) || priceNum < 0) {
-        res.status(400).json({ error: 'Invalid purchase price. Must be a non-negative number.' });
+      if (!priceNum || priceNum.lt(0) || exceedsScale(priceNum, PRICE_SCALE)) {
+        res.status(400).json({ error: `Invalid purchase price. Must be a non-negative number with at most ${PRICE_SCALE} decimal places.` });
         return;
       }
 
-      const asset = await prisma.asset.create({
-        data: {
-          portfolioId,
-          symbol: symbol.toUpperCase(),
-          name,
-          quantity: quantityNum,
-          purchasePrice: priceNum,
-          purchaseDate: purchaseDate ? new Date(purchaseDate) : new Date(),
-        },
-      });
-
-      // Create corresponding BUY transaction
-      await prisma.transaction.create({
-        data: {
-          portfolioId,
-          type: 'BUY',
-          symbol: symbol.toUpperCase(),
-          quantity: quantityNum,
-          price: priceNum,
-          timestamp: purchaseDate ? new Date(purchaseDate) : new Date(),
-        },
+      // Record the purchase in the ledger; the Asset row is derived from it
+      const asset = await withTransaction(async (tx) => {
+        await holdingsService.lockPortfolio(portfolioId, tx);
+
+        await tx.transaction.create({
+          data: {
+            portfolioId,
+            type: 'BUY',
+            symbol: symbol.toUpperCase(),
+            quantity: quantityNum,
+            price: priceNum,
+            timestamp: purchaseDate ? new Date(purchaseDate) : new Date(),
+          },
+        });
+
+        await holdingsService.syncHolding(portfolioId, symbol.toUpperCase(), { name }, tx);
+        await holdingsService.syncCash(portfolioId, tx);
+
+        return tx.asset.findFirst({
+          where: { portfolioId, symbol: symbol.toUpperCase() },
+        });
       });
 
       res.status(201).json({
@@ -139,6 +144,10 @@ export const assetController = {
         asset,
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       console.error('Add asset error:', error);
       res.status(500).json({ error: 'Failed to add asset' });
     }
@@ -169,11 +178,25 @@ export const assetController = {
         return;
       }
 
+      const quantityNum = quantity !== undefined ? parseDecimal(quantity) : existing.quantity;
+      const priceNum = purchasePrice !== undefined ? parseDecimal(purchasePrice) : existing.purchasePrice;
+      const scale = quantityScale(existing.symbol);
+
+      if (!quantityNum || quantityNum.lte(0) || exceedsScale(quantityNum, scale)) {
+        res.status(400).json({ error: `Invalid quantity. Must be a positive number with at most ${scale} decimal places.` });
+        return;
+      }
+
+      if (!priceNum || priceNum.lt(0) || exceedsScale(priceNum, PRICE_SCALE)) {
+        res.status(400).json({ error: `Invalid purchase price. Must be a non-negative number with at most ${PRICE_SCALE} decimal places.` });
+        return;
+      }
+
       const asset = await prisma.asset.update({
         where: { id },
         data: {
-          ...(quantity !== undefined && { quantity: parseFloat(quantity) }),
-          ...(purchasePrice !== undefined && { purchasePrice: parseFloat(purchasePrice) }),
+          quantity: quantityNum,
+          purchasePrice: priceNum,
           ...(purchaseDate && { purchaseDate: new Date(purchaseDate) }),
         },
       });
@@ -245,14 +268,14 @@ export const assetController = {
       }
 
       // Get current price
-      const [priceData] = await cryptoService.getPrices([asset.symbol]);
-      const currentPrice = priceData?.current_price || 0;
+      const priceData = (await cryptoService.getPriceMap([asset.symbol])).get(asset.symbol);
+      const currentPrice = new Decimal(priceData?.current_price || 0);
       
       // Calculate performance
-      const currentValue = asset.quantity * currentPrice;
-      const costBasis = asset.quantity * asset.purchasePrice;
-      const profitLoss = currentValue - costBasis;
-      const profitLossPercentage = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
+      const currentValue = asset.quantity.times(currentPrice);
+      const costBasis = asset.quantity.times(asset.purchasePrice);
+      const profitLoss = currentValue.minus(costBasis);
+      const profitLossPercentage = percentOf(profitLoss, costBasis);
 
       res.json({
         asset,
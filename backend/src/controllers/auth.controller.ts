@@ -1,13 +1,34 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { hashPassword, comparePassword } from '../utils/password.utils';
-import { generateToken } from '../utils/jwt.utils';
+import { costBasisService, isCostBasisMethod, COST_BASIS_METHODS } from '../services/cost-basis.service';
+import { emailNotificationService, EMAIL_PREFERENCES } from '../services/email-notification.service';
+import { passwordResetService } from '../services/password-reset.service';
+import { sessionService, ClientInfo } from '../services/session.service';
+import { twoFactorService } from '../services/two-factor.service';
+import { loginLockoutService } from '../services/login-lockout.service';
+import { sendTooManyRequests } from '../middleware/rate-limit.middleware';
+import { ApiError } from '../utils/error.utils';
 import { body, validationResult } from 'express-validator';
 
+const clientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
+const sendAccountLocked = (res: Response, retryAfterMs: number): void => {
+  const minutes = Math.ceil(retryAfterMs / 60000);
+  sendTooManyRequests(
+    res,
+    retryAfterMs,
+    `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+  );
+};
+
 export const authController = {
   // Register new user
   register: [
-    body('email').isEmail().withMessage('Invalid email address'),
+    body('email').trim().toLowerCase().isEmail().withMessage('Invalid email address'),
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
     body('name').notEmpty().withMessage('Name is required'),
     
@@ -50,12 +71,13 @@ export const authController = {
           },
         });
 
-        // Generate token
-        const token = generateToken({ userId: user.id, email: user.email });
+        // Start a session
+        const { token, refreshToken } = await sessionService.createSession(user, clientInfo(req));
 
         res.status(201).json({
           message: 'User registered successfully',
           token,
+          refreshToken,
           user: {
             id: user.id,
             email: user.email,
@@ -71,7 +93,7 @@ export const authController = {
 
   // Login user
   login: [
-    body('email').isEmail().withMessage('Invalid email address'),
+    body('email').trim().toLowerCase().isEmail().withMessage('Invalid email address'),
     body('password').notEmpty().withMessage('Password is required'),
     
     async (req: Request, res: Response): Promise<void> => {
@@ -82,28 +104,49 @@ export const authController = {
           return;
         }
 
+        // Trimmed and lower-cased by the validator, so the lockout and the lookup agree
         const { email, password } = req.body;
 
-        // Find user
+        // A locked account is refused before the password is even checked
+        const lockedForMs = await loginLockoutService.retryAfterMs(email);
+        if (lockedForMs > 0) {
+          sendAccountLocked(res, lockedForMs);
+          return;
+        }
+
+        // Find user and verify password
         const user = await prisma.user.findUnique({ where: { email } });
-        if (!user) {
+        if (!user || !(await comparePassword(password, user.password))) {
+          const lockMs = await loginLockoutService.recordFailure(email);
+          if (lockMs > 0) {
+            sendAccountLocked(res, lockMs);
+            return;
+          }
           res.status(401).json({ error: 'Invalid email or password' });
           return;
         }
 
-        // Verify password
-        const isValidPassword = await comparePassword(password, user.password);
-        if (!isValidPassword) {
-          res.status(401).json({ error: 'Invalid email or password' });
+        // Accounts with 2FA finish signing in at /login/2fa
+        if (user.twoFactorEnabled) {
+          const challengeToken = await twoFactorService.createChallenge(user.id);
+
+          res.json({
+            message: 'Enter the code from your authenticator app',
+            twoFactorRequired: true,
+            challengeToken,
+          });
           return;
         }
 
-        // Generate token
-        const token = generateToken({ userId: user.id, email: user.email });
+        await loginLockoutService.recordSuccess(email);
+
+        // Start a session
+        const { token, refreshToken } = await sessionService.createSession(user, clientInfo(req));
 
         res.json({
           message: 'Login successful',
           token,
+          refreshToken,
           user: {
             id: user.id,
             email: user.email,
@@ -117,6 +160,179 @@ export const authController = {
     },
   ],
 
+  // Second login step for accounts with 2FA
+  verifyTwoFactor: [
+    body('challengeToken').isString().notEmpty().withMessage('Challenge token is required'),
+    body('code').isString().notEmpty().withMessage('Verification code is required'),
+
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          res.status(400).json({ errors: errors.array() });
+          return;
+        }
+
+        const { challengeToken, code } = req.body;
+
+        // Wrong codes count towards the same lockout as wrong passwords
+        const owner = await twoFactorService.findChallengeUser(challengeToken);
+        if (owner) {
+          const lockedForMs = await loginLockoutService.retryAfterMs(owner.email);
+          if (lockedForMs > 0) {
+            sendAccountLocked(res, lockedForMs);
+            return;
+          }
+        }
+
+        let result;
+        try {
+          result = await twoFactorService.completeChallenge(challengeToken, code);
+        } catch (error) {
+          if (owner && error instanceof ApiError) {
+            const lockMs = await loginLockoutService.recordFailure(owner.email);
+            if (lockMs > 0) {
+              sendAccountLocked(res, lockMs);
+              return;
+            }
+          }
+          throw error;
+        }
+
+        const { user, method } = result;
+        await loginLockoutService.recordSuccess(user.email);
+        const { token, refreshToken } = await sessionService.createSession(user, clientInfo(req));
+
+        let recoveryCodesRemaining: number | undefined;
+        if (method === 'recovery') {
+          recoveryCodesRemaining = (await twoFactorService.getStatus(user.id)).recoveryCodesRemaining;
+
+          emailNotificationService
+            .sendSecurityEmail(user.id, 'RECOVERY_CODE_USED', { ipAddress: req.ip })
+            .catch(error => console.error('Security email error:', error));
+        }
+
+        res.json({
+          message: 'Login successful',
+          token,
+          refreshToken,
+          user,
+          ...(recoveryCodesRemaining !== undefined && { recoveryCodesRemaining }),
+        });
+      } catch (error) {
+        if (error instanceof ApiError) {
+          res.status(error.statusCode).json({ error: error.message });
+          return;
+        }
+        console.error('Two-factor login error:', error);
+        res.status(500).json({ error: 'Failed to verify code' });
+      }
+    },
+  ],
+
+  // Swap a refresh token for new tokens
+  refresh: [
+    body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'),
+
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          res.status(400).json({ errors: errors.array() });
+          return;
+        }
+
+        const { token, refreshToken } = await sessionService.refresh(req.body.refreshToken, clientInfo(req));
+
+        res.json({ token, refreshToken });
+      } catch (error) {
+        if (error instanceof ApiError) {
+          res.status(error.statusCode).json({ error: error.message });
+          return;
+        }
+        console.error('Refresh token error:', error);
+        res.status(500).json({ error: 'Failed to refresh session' });
+      }
+    },
+  ],
+
+  // End the session a refresh token belongs to
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+      if (typeof refreshToken === 'string' && refreshToken) {
+        await sessionService.revokeByRefreshToken(refreshToken);
+      }
+
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({ error: 'Failed to logout' });
+    }
+  },
+
+  // List the user's signed-in sessions
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const sessions = await sessionService.listSessions(userId);
+
+      res.json(sessions.map(session => ({
+        ...session,
+        current: session.id === req.user?.sessionId,
+      })));
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+  },
+
+  // Sign out one session
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const revoked = await sessionService.revokeSession(userId, req.params.id);
+      if (!revoked) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.json({ message: 'Session revoked' });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Failed to revoke session' });
+    }
+  },
+
+  // Sign out every session, or every other one with ?exceptCurrent=true
+  async revokeAllSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const exceptCurrent = req.query.exceptCurrent === 'true';
+      const count = await sessionService.revokeAllSessions(userId, exceptCurrent ? req.user?.sessionId : undefined);
+
+      res.json({ message: `${count} session(s) revoked`, count });
+    } catch (error) {
+      console.error('Revoke sessions error:', error);
+      res.status(500).json({ error: 'Failed to revoke sessions' });
+    }
+  },
+
   // Get user profile
   async getProfile(req: Request, res: Response): Promise<void> {
     try {
@@ -158,7 +374,26 @@ export const authController = {
         return;
       }
 
-      const { name, theme, currency, notifications } = req.body;
+      const { name, theme, currency, notifications, costBasisMethod } = req.body;
+
+      if (costBasisMethod !== undefined && !isCostBasisMethod(costBasisMethod)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
+      const emailPreferences: Partial<Record<typeof EMAIL_PREFERENCES[number], boolean>> = {};
+      for (const preference of EMAIL_PREFERENCES) {
+        if (req.body[preference] === undefined) continue;
+        if (typeof req.body[preference] !== 'boolean') {
+          res.status(400).json({ error: `${preference} must be true or false` });
+          return;
+        }
+        emailPreferences[preference] = req.body[preference];
+      }
+
+      // A digest switched on starts its first window now rather than at the last one sent
+      const existingSettings = await prisma.userSettings.findUnique({ where: { userId } });
+      const digestEnabled = emailPreferences.emailDigest === true && !existingSettings?.emailDigest;
 
       // Update user
       if (name) {
@@ -169,23 +404,41 @@ export const authController = {
       }
 
       // Update settings
-      if (theme || currency || notifications !== undefined) {
+      if (theme || currency || notifications !== undefined || costBasisMethod || Object.keys(emailPreferences).length > 0) {
         await prisma.userSettings.upsert({
           where: { userId },
           update: {
             ...(theme && { theme }),
             ...(currency && { currency }),
             ...(notifications !== undefined && { notifications }),
+            ...(costBasisMethod && { costBasisMethod }),
+            ...emailPreferences,
+            ...(digestEnabled && { lastDigestAt: new Date() }),
           },
           create: {
             userId,
             theme: theme || 'dark',
             currency: currency || 'USD',
             notifications: notifications !== undefined ? notifications : true,
+            ...(costBasisMethod && { costBasisMethod }),
+            ...emailPreferences,
+            ...(digestEnabled && { lastDigestAt: new Date() }),
           },
         });
       }
 
+      // Portfolios without their own method follow the user default
+      if (costBasisMethod) {
+        const portfolios = await prisma.portfolio.findMany({
+          where: { userId, costBasisMethod: null },
+          select: { id: true },
+        });
+
+        for (const portfolio of portfolios) {
+          await costBasisService.rebuildLots(portfolio.id);
+        }
+      }
+
       const updatedUser = await prisma.user.findUnique({
         where: { id: userId },
         select: {
@@ -206,11 +459,10 @@ export const authController = {
     }
   },
 
-  // Reset password
-  resetPassword: [
-    body('email').isEmail().withMessage('Invalid email address'),
-    body('newPassword').isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
-    
+  // Request a password reset link. Answers the same whether or not the account exists.
+  requestPasswordReset: [
+    body('email').trim().toLowerCase().isEmail().withMessage('Invalid email address'),
+
     async (req: Request, res: Response): Promise<void> => {
       try {
         const errors = validationResult(req);
@@ -219,31 +471,50 @@ export const authController = {
           return;
         }
 
-        const { email, newPassword } = req.body;
+        await passwordResetService.requestReset(req.body.email);
 
-        // Find user by email
-        const user = await prisma.user.findUnique({ where: { email } });
-        if (!user) {
-          res.status(404).json({ error: 'No account found with this email address' });
+        res.json({
+          message: 'If an account exists for that email, a password reset link is on its way.',
+        });
+      } catch (error) {
+        console.error('Request password reset error:', error);
+        res.status(500).json({ error: 'Failed to request a password reset. Please try again.' });
+      }
+    },
+  ],
+
+  // Set a new password with the token from a reset link
+  confirmPasswordReset: [
+    body('token').isString().notEmpty().withMessage('Reset token is required'),
+    body('newPassword').isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
+
+    async (req: Request, res: Response): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          res.status(400).json({ errors: errors.array() });
           return;
         }
 
-        // Hash new password
-        const hashedPassword = await hashPassword(newPassword);
+        const { token, newPassword } = req.body;
+        const { userId } = await passwordResetService.confirmReset(token, newPassword);
 
-        // Update password in database
-        await prisma.user.update({
-          where: { email },
-          data: { password: hashedPassword },
-        });
+        // Whoever knew the old password is signed out everywhere
+        await sessionService.revokeAllSessions(userId);
 
-        console.log(`✅ Password reset successful for user: ${email}`);
+        emailNotificationService
+          .sendSecurityEmail(userId, 'PASSWORD_CHANGED', { ipAddress: req.ip })
+          .catch(error => console.error('Security email error:', error));
 
         res.json({
           message: 'Password reset successful. You can now log in with your new password.',
         });
       } catch (error) {
-        console.error('Reset password error:', error);
+        if (error instanceof ApiError) {
+          res.status(error.statusCode).json({ error: error.message });
+          return;
+        }
+        console.error('Confirm password reset error:', error);
         res.status(500).json({ error: 'Failed to reset password. Please try again.' });
       }
     },
@@ -1,21 +1,50 @@
 import { Request, Response } from 'express';
 import axios from 'axios';
 import { cryptoService } from '../services/crypto.service';
+import { coinRegistryService } from '../services/coin-registry.service';
+import { priceSyncService } from '../services/price-sync.service';
+import {
+  marketHistoryService,
+  CANDLE_INTERVALS,
+  intervalForDays,
+  isCandleInterval,
+} from '../services/market-history.service';
 import { prisma } from '../server';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CANDLE_LIMIT = 300;
+const MAX_CANDLE_LIMIT = 1000;
+
+// Epoch milliseconds or an ISO date string; undefined if missing, null if invalid
+const parseTime = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
 export const marketController = {
   // Get all market prices from database (synced in real-time)
   async getMarketPrices(_req: Request, res: Response): Promise<void> {
     try {
-      const prices = await prisma.marketPrice.findMany({
-        orderBy: { marketCap: 'desc' },
-      });
+      const [prices, coins] = await Promise.all([
+        prisma.marketPrice.findMany({
+          orderBy: { marketCap: 'desc' },
+        }),
+        coinRegistryService.list(),
+      ]);
+      const coinsById = new Map(coins.map(coin => [coin.coinId, coin]));
 
       res.json({
         success: true,
         count: prices.length,
         lastUpdated: prices[0]?.lastUpdated || null,
-        data: prices,
+        data: prices.map(price => ({
+          ...price,
+          image: coinsById.get(price.coinId)?.image ?? null,
+          marketCapRank: coinsById.get(price.coinId)?.marketCapRank ?? null,
+        })),
       });
     } catch (error) {
       console.error('Get market prices error:', error);
@@ -23,6 +52,61 @@ export const marketController = {
     }
   },
 
+  // Coins we track, from CoinList; ?symbol= lists every coin sharing that ticker
+  async getCoins(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = req.query;
+
+      if (symbol !== undefined && typeof symbol !== 'string') {
+        res.status(400).json({ error: 'Symbol must be a single ticker' });
+        return;
+      }
+
+      const coins = symbol
+        ? await coinRegistryService.findBySymbol(symbol)
+        : (await coinRegistryService.list()).filter(coin => coin.isActive);
+
+      res.json({
+        count: coins.length,
+        data: coins.map(coin => ({
+          coinId: coin.coinId,
+          symbol: coin.symbol,
+          name: coin.name,
+          image: coin.image,
+          marketCapRank: coin.marketCapRank,
+        })),
+      });
+    } catch (error) {
+      console.error('Get coins error:', error);
+      res.status(500).json({ error: 'Failed to fetch coins' });
+    }
+  },
+
+  // Price sync and price source health
+  async getStatus(_req: Request, res: Response): Promise<void> {
+    try {
+      const sync = priceSyncService.getStatus();
+      // A price that missed several syncs in a row is stale
+      const staleBefore = new Date(Date.now() - sync.intervalMs * 6);
+
+      const [stalePrices, bySource] = await Promise.all([
+        prisma.marketPrice.count({ where: { lastUpdated: { lt: staleBefore } } }),
+        prisma.marketPrice.groupBy({ by: ['source'], _count: { _all: true } }),
+      ]);
+
+      res.json({
+        sync,
+        prices: {
+          stale: stalePrices,
+          bySource: Object.fromEntries(bySource.map(group => [group.source ?? 'unknown', group._count._all])),
+        },
+      });
+    } catch (error) {
+      console.error('Get market status error:', error);
+      res.status(500).json({ error: 'Failed to fetch market status' });
+    }
+  },
+
   // Get current prices for multiple coins
   async getPrices(req: Request, res: Response): Promise<void> {
     try {
@@ -123,7 +207,7 @@ export const marketController = {
     }
   },
 
-  // Get historical price data
+  // Get historical price data from our own candles, filled from the provider where missing
   async getHistoricalData(req: Request, res: Response): Promise<void> {
     try {
       const { symbol } = req.params;
@@ -134,12 +218,82 @@ export const marketController = {
         return;
       }
 
-      const data = await cryptoService.getHistoricalData(symbol, days);
+      if (days < 1 || days > 3650) {
+        res.status(400).json({ error: 'Days must be between 1 and 3650' });
+        return;
+      }
+
+      const now = new Date();
+      const candles = await marketHistoryService.loadCandles(
+        await coinRegistryService.resolveCoinId(symbol),
+        intervalForDays(days),
+        { from: new Date(now.getTime() - days * DAY_MS), to: now },
+        now
+      );
 
-      res.json(data);
+      res.json({
+        prices: candles.map(candle => ({
+          timestamp: candle.openTime.getTime(),
+          price: candle.close.toNumber(),
+        })),
+      });
     } catch (error) {
       console.error('Get historical data error:', error);
       res.status(500).json({ error: 'Failed to fetch historical data' });
     }
   },
+
+  // Get OHLCV candles for a coin
+  async getCandles(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = req.params;
+      const interval = (req.query.interval as string) || '1h';
+      const limit = parseInt(req.query.limit as string) || DEFAULT_CANDLE_LIMIT;
+
+      if (!isCandleInterval(interval)) {
+        res.status(400).json({ error: `Interval must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}` });
+        return;
+      }
+
+      if (limit < 1 || limit > MAX_CANDLE_LIMIT) {
+        res.status(400).json({ error: `Limit must be between 1 and ${MAX_CANDLE_LIMIT}` });
+        return;
+      }
+
+      const now = new Date();
+      const to = parseTime(req.query.to);
+      const from = parseTime(req.query.from);
+      if (to === null || from === null) {
+        res.status(400).json({ error: 'from and to must be ISO dates or epoch milliseconds' });
+        return;
+      }
+
+      const rangeEnd = to ?? now;
+      const rangeStart = from ?? new Date(rangeEnd.getTime() - limit * CANDLE_INTERVALS[interval]);
+      if (rangeStart > rangeEnd) {
+        res.status(400).json({ error: 'from must be before to' });
+        return;
+      }
+
+      const coinId = await coinRegistryService.resolveCoinId(symbol);
+      const candles = await marketHistoryService.loadCandles(coinId, interval, { from: rangeStart, to: rangeEnd }, now);
+
+      res.json({
+        symbol: symbol.toUpperCase(),
+        coinId,
+        interval,
+        candles: candles.slice(-limit).map(candle => ({
+          openTime: candle.openTime,
+          open: candle.open.toNumber(),
+          high: candle.high.toNumber(),
+          low: candle.low.toNumber(),
+          close: candle.close.toNumber(),
+          volume: candle.volume ? candle.volume.toNumber() : null,
+        })),
+      });
+    } catch (error) {
+      console.error('Get candles error:', error);
+      res.status(500).json({ error: 'Failed to fetch candles' });
+    }
+  },
 };
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { prisma } from '../server';
+import { notificationService } from '../services/notification.service';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export const notificationController = {
+  // Get user's notifications, newest first
+  async getNotifications(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { unread, limit } = req.query;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const take = Math.min(Math.max(parseInt(String(limit), 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+      const notifications = await prisma.notification.findMany({
+        where: {
+          userId,
+          ...(unread === 'true' && { isRead: false }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take,
+      });
+
+      res.json(notifications.map(notification => ({
+        ...notification,
+        data: notification.data ? JSON.parse(notification.data) : null,
+      })));
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+  },
+
+  // Get the number of unread notifications and whether notifications are switched on
+  async getUnreadCount(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const [count, enabled] = await Promise.all([
+        prisma.notification.count({ where: { userId, isRead: false } }),
+        notificationService.isEnabled(userId),
+      ]);
+
+      res.json({ count, enabled });
+    } catch (error) {
+      console.error('Get unread count error:', error);
+      res.status(500).json({ error: 'Failed to fetch unread count' });
+    }
+  },
+
+  // Mark one notification as read
+  async markRead(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const existing = await prisma.notification.findFirst({
+        where: { id, userId },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Notification not found' });
+        return;
+      }
+
+      const notification = await prisma.notification.update({
+        where: { id },
+        data: { isRead: true, readAt: existing.readAt || new Date() },
+      });
+
+      res.json({
+        message: 'Notification marked as read',
+        notification,
+      });
+    } catch (error) {
+      console.error('Mark notification read error:', error);
+      res.status(500).json({ error: 'Failed to update notification' });
+    }
+  },
+
+  // Mark every unread notification as read
+  async markAllRead(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { count } = await prisma.notification.updateMany({
+        where: { userId, isRead: false },
+        data: { isRead: true, readAt: new Date() },
+      });
+
+      res.json({ message: 'All notifications marked as read', count });
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({ error: 'Failed to update notifications' });
+    }
+  },
+
+  // Delete notification
+  async deleteNotification(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const existing = await prisma.notification.findFirst({
+        where: { id, userId },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Notification not found' });
+        return;
+      }
+
+      await prisma.notification.delete({ where: { id } });
+
+      res.json({ message: 'Notification deleted successfully' });
+    } catch (error) {
+      console.error('Delete notification error:', error);
+      res.status(500).json({ error: 'Failed to delete notification' });
+    }
+  },
+};
@@ -1,6 +1,18 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
 import { cryptoService } from '../services/crypto.service';
+import {
+  costBasisService,
+  holdingKey,
+  isCostBasisMethod,
+  COST_BASIS_METHODS,
+  CostBasisMethod,
+} from '../services/cost-basis.service';
+import { transferService } from '../services/transfer.service';
+import { webhookService } from '../services/webhook.service';
+import { ApiError } from '../utils/error.utils';
+import { withTransaction } from '../utils/db.utils';
+import { Decimal, ZERO, percentOf, parseDecimal, exceedsScale, quantityScale } from '../utils/decimal.utils';
 
 export const portfolioController = {
   // Get all user portfolios
@@ -80,11 +92,15 @@ export const portfolioController = {
         return;
       }
 
+      // Cash is held in the user's currency at the time the portfolio is opened
+      const settings = await prisma.userSettings.findUnique({ where: { userId } });
+
       const portfolio = await prisma.portfolio.create({
         data: {
           userId,
           name,
           description: description || null,
+          currency: settings?.currency || 'USD',
         },
       });
 
@@ -103,13 +119,19 @@ export const portfolioController = {
     try {
       const userId = req.user?.userId;
       const { id } = req.params;
-      const { name, description } = req.body;
+      const { name, description, costBasisMethod } = req.body;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
+      // null clears the override so the user default applies again
+      if (costBasisMethod !== undefined && costBasisMethod !== null && !isCostBasisMethod(costBasisMethod)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
       // Check ownership
       const existing = await prisma.portfolio.findFirst({
         where: { id, userId },
@@ -125,9 +147,14 @@ export const portfolioController = {
         data: {
           ...(name && { name }),
           ...(description !== undefined && { description }),
+          ...(costBasisMethod !== undefined && { costBasisMethod }),
         },
       });
 
+      if (costBasisMethod !== undefined && costBasisMethod !== existing.costBasisMethod) {
+        await costBasisService.rebuildLots(id);
+      }
+
       res.json({
         message: 'Portfolio updated successfully',
         portfolio,
@@ -173,16 +200,24 @@ export const portfolioController = {
     try {
       const userId = req.user?.userId;
       const { id } = req.params;
+      const method = req.query.method ? String(req.query.method).toUpperCase() : undefined;
 
       if (!userId) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
+      if (method !== undefined && !isCostBasisMethod(method)) {
+        res.status(400).json({ error: `Cost basis method must be one of ${COST_BASIS_METHODS.join(', ')}` });
+        return;
+      }
+
       const portfolio = await prisma.portfolio.findFirst({
         where: { id, userId },
         include: {
           assets: true,
+          transactions: true,
+          user: { select: { userSettings: { select: { costBasisMethod: true } } } },
         },
       });
 
@@ -191,30 +226,35 @@ export const portfolioController = {
         return;
       }
 
+      const { holdings, method: costBasisMethod } = costBasisService.buildHoldingIndex(
+        [portfolio],
+        portfolio.user.userSettings?.costBasisMethod,
+        method as CostBasisMethod | undefined
+      );
+
       // Get live prices for all assets
       const symbols = [...new Set(portfolio.assets.map(a => a.symbol))];
-      const prices = await cryptoService.getPrices(symbols);
-      
-      const priceMap = new Map(prices.map(p => [p.symbol, p]));
+      const priceMap = await cryptoService.getPriceMap(symbols);
 
       // Calculate portfolio values
-      let totalValue = 0;
-      let totalCost = 0;
-      let totalChange24h = 0;
+      let totalValue = ZERO;
+      let totalCost = ZERO;
+      let totalChange24h = ZERO;
 
       const assetsWithPrices = portfolio.assets.map(asset => {
         const priceData = priceMap.get(asset.symbol);
-        const currentPrice = priceData?.current_price || 0;
-        const currentValue = asset.quantity * currentPrice;
-        const costBasis = asset.quantity * asset.purchasePrice;
-        const profitLoss = currentValue - costBasis;
-        const profitLossPercentage = costBasis > 0 ? (profitLoss / costBasis) * 100 : 0;
-
-        totalValue += currentValue;
-        totalCost += costBasis;
+        const currentPrice = new Decimal(priceData?.current_price || 0);
+        const currentValue = asset.quantity.times(currentPrice);
+        const unitCost = holdings.get(holdingKey(asset.portfolioId, asset.symbol))?.averageCost ?? asset.purchasePrice;
+        const costBasis = asset.quantity.times(unitCost);
+        const profitLoss = currentValue.minus(costBasis);
+        const profitLossPercentage = percentOf(profitLoss, costBasis);
+
+        totalValue = totalValue.plus(currentValue);
+        totalCost = totalCost.plus(costBasis);
         
         if (priceData) {
-          totalChange24h += (priceData.price_change_percentage_24h / 100) * currentValue;
+          totalChange24h = totalChange24h.plus(currentValue.times(priceData.price_change_percentage_24h || 0).div(100));
         }
 
         return {
@@ -229,18 +269,21 @@ export const portfolioController = {
         };
       });
 
-      const totalProfitLoss = totalValue - totalCost;
-      const totalProfitLossPercentage = totalCost > 0 ? (totalProfitLoss / totalCost) * 100 : 0;
-      const change24hPercentage = totalValue > 0 ? (totalChange24h / totalValue) * 100 : 0;
+      const totalProfitLoss = totalValue.minus(totalCost);
+      const totalProfitLossPercentage = percentOf(totalProfitLoss, totalCost);
+      const change24hPercentage = percentOf(totalChange24h, totalValue);
 
       res.json({
         portfolio: {
           id: portfolio.id,
           name: portfolio.name,
           description: portfolio.description,
+          currency: portfolio.currency,
         },
+        costBasisMethod,
         summary: {
           totalValue,
+          cashBalance: portfolio.cashBalance,
           totalCost,
           totalProfitLoss,
           totalProfitLossPercentage,
@@ -255,4 +298,130 @@ export const portfolioController = {
       res.status(500).json({ error: 'Failed to fetch portfolio summary' });
     }
   },
+
+  // Get tax lots for a portfolio
+  async getLots(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+      const { symbol, open } = req.query;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const portfolio = await prisma.portfolio.findFirst({
+        where: { id, userId },
+      });
+
+      if (!portfolio) {
+        res.status(404).json({ error: 'Portfolio not found' });
+        return;
+      }
+
+      // Portfolios traded before the lot ledger existed get their lots built on first read
+      const lotCount = await prisma.taxLot.count({ where: { portfolioId: id } });
+      if (lotCount === 0 && await prisma.transaction.count({ where: { portfolioId: id } }) > 0) {
+        await costBasisService.rebuildLots(id);
+      }
+
+      const lots = await prisma.taxLot.findMany({
+        where: {
+          portfolioId: id,
+          ...(symbol && { symbol: String(symbol).toUpperCase() }),
+          ...(open === 'true' && { remainingQuantity: { gt: 0 } }),
+        },
+        include: {
+          disposals: { orderBy: { disposedAt: 'asc' } },
+        },
+        orderBy: { acquiredAt: 'asc' },
+      });
+
+      res.json({
+        costBasisMethod: await costBasisService.getPortfolioMethod(id),
+        lots,
+      });
+    } catch (error) {
+      console.error('Get lots error:', error);
+      res.status(500).json({ error: 'Failed to fetch tax lots' });
+    }
+  },
+
+  // Move a quantity of a symbol to another of the user's portfolios, keeping its lots intact
+  async transferAssets(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+      const { toPortfolioId, symbol, quantity, timestamp, notes } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      if (!toPortfolioId || !symbol || quantity === undefined) {
+        res.status(400).json({ error: 'Missing required fields' });
+        return;
+      }
+
+      if (toPortfolioId === id) {
+        res.status(400).json({ error: 'Source and destination portfolios must be different' });
+        return;
+      }
+
+      const portfolios = await prisma.portfolio.findMany({
+        where: { id: { in: [id, toPortfolioId] }, userId },
+      });
+
+      if (portfolios.length !== 2) {
+        res.status(404).json({ error: 'Portfolio not found' });
+        return;
+      }
+
+      const txSymbol = String(symbol).toUpperCase();
+      const quantityNum = parseDecimal(quantity);
+      const scale = quantityScale(txSymbol);
+
+      if (!quantityNum || quantityNum.lte(0) || exceedsScale(quantityNum, scale)) {
+        res.status(400).json({ error: `Invalid quantity. ${txSymbol} supports at most ${scale} decimal places.` });
+        return;
+      }
+
+      const txTimestamp = timestamp ? new Date(timestamp) : new Date();
+      if (isNaN(txTimestamp.getTime())) {
+        res.status(400).json({ error: 'Invalid timestamp' });
+        return;
+      }
+
+      const { transferId, outgoing, incoming } = await withTransaction(tx => transferService.transfer({
+        fromPortfolioId: id,
+        toPortfolioId,
+        symbol: txSymbol,
+        quantity: quantityNum,
+        timestamp: txTimestamp,
+        notes,
+      }, tx));
+
+      await webhookService.enqueue(userId, 'transfer.created', {
+        transferId,
+        fromPortfolioId: id,
+        toPortfolioId,
+        transactions: [outgoing, ...incoming],
+      }).catch(error => console.error('Transfer webhook error:', error));
+
+      res.status(201).json({
+        message: 'Transfer recorded successfully',
+        transferId,
+        transactions: [outgoing, ...incoming],
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Transfer assets error:', error);
+      res.status(500).json({ error: 'Failed to transfer assets' });
+    }
+  },
 };
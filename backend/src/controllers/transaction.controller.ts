@@ -1,5 +1,71 @@
 import { Request, Response } from 'express';
 import { prisma } from '../server';
+import { holdingsService, isCashTransaction, CASH_TRANSACTION_TYPES } from '../services/holdings.service';
+import { ACQUISITION_TYPES, REMOVAL_TYPES, INCOME_TYPES, holdingKey } from '../services/cost-basis.service';
+import { swapService } from '../services/swap.service';
+import { notificationService } from '../services/notification.service';
+import { webhookService } from '../services/webhook.service';
+import { ApiError } from '../utils/error.utils';
+import { withTransaction } from '../utils/db.utils';
+import {
+  Decimal,
+  ZERO,
+  parseDecimal,
+  exceedsScale,
+  quantityScale,
+  PRICE_SCALE,
+  FIAT_SCALE,
+} from '../utils/decimal.utils';
+
+const TRANSACTION_TYPES: string[] = [
+  ...new Set([...ACQUISITION_TYPES, 'SELL', ...REMOVAL_TYPES, ...CASH_TRANSACTION_TYPES]),
+];
+
+// Trades must carry a positive price
+const TRADE_TYPES = ['BUY', 'SELL'];
+
+// Income and fees are valued at market price on the day, so the price can't be left out
+const PRICED_TYPES: string[] = [...TRADE_TYPES, ...INCOME_TYPES, 'FEE'];
+
+// Coins received from outside keep the basis they had there; without it every later
+// sale would count the whole proceeds as gain
+const CARRIED_BASIS_TYPES = ['TRANSFER_IN', 'GIFT_RECEIVED'];
+
+// Cash moves in whole units of the portfolio currency, so its "price" is always 1
+const CASH_PRICE = new Decimal(1);
+
+// Check amounts against the type's and asset's precision rules; returns an error message or null
+const validateAmounts = (
+  type: string,
+  symbol: string,
+  quantity: Decimal | null,
+  price: Decimal | null,
+  fee: Decimal | null
+): string | null => {
+  const scale = isCashTransaction(type) ? FIAT_SCALE : quantityScale(symbol);
+
+  if (!quantity || quantity.lte(0)) {
+    return 'Invalid quantity. Must be a positive number.';
+  }
+
+  if (exceedsScale(quantity, scale)) {
+    return `Invalid quantity. ${symbol} supports at most ${scale} decimal places.`;
+  }
+
+  if (TRADE_TYPES.includes(type) && (!price || price.lte(0) || exceedsScale(price, PRICE_SCALE))) {
+    return `Invalid price. Must be a positive number with at most ${PRICE_SCALE} decimal places.`;
+  }
+
+  if (!price || price.lt(0) || exceedsScale(price, PRICE_SCALE)) {
+    return `Invalid price. Must be a non-negative number with at most ${PRICE_SCALE} decimal places.`;
+  }
+
+  if (!fee || fee.lt(0) || exceedsScale(fee, PRICE_SCALE)) {
+    return `Invalid fee. Must be a non-negative number with at most ${PRICE_SCALE} decimal places.`;
+  }
+
+  return null;
+};
 
 export const transactionController = {
   // Get all transactions for a portfolio
@@ -90,134 +156,118 @@ export const transactionController = {
       }
 
       // Validation
-      if (!type || !symbol || quantity === undefined || price === undefined) {
-        res.status(400).json({ error: 'Missing required fields' });
+      if (!type || !TRANSACTION_TYPES.includes(type.toUpperCase())) {
+        res.status(400).json({ error: `Transaction type must be one of ${TRANSACTION_TYPES.join(', ')}` });
         return;
       }
 
-      if (!['BUY', 'SELL'].includes(type.toUpperCase())) {
-        res.status(400).json({ error: 'Transaction type must be BUY or SELL' });
+      const txType = type.toUpperCase();
+      const isCash = isCashTransaction(txType);
+
+      // Deposits and withdrawals only need an amount; they're booked in the portfolio currency
+      if (
+        quantity === undefined ||
+        (!isCash && !symbol) ||
+        (PRICED_TYPES.includes(txType) && price === undefined)
+      ) {
+        res.status(400).json({ error: 'Missing required fields' });
         return;
       }
 
-      // Additional validation for numbers
-      const quantityNum = parseFloat(quantity);
-      const priceNum = parseFloat(price);
-      
-      if (isNaN(quantityNum) || quantityNum <= 0) {
-        res.status(400).json({ error: 'Invalid quantity. Must be a positive number.' });
+      if (CARRIED_BASIS_TYPES.includes(txType) && (price === undefined || price === null || price === '')) {
+        res.status(400).json({ error: `${txType} needs a price: the unit cost basis the coins carry over` });
         return;
       }
 
-      if (isNaN(priceNum) || priceNum <= 0) {
-        res.status(400).json({ error: 'Invalid price. Must be a positive number.' });
+      const txSymbol = isCash ? portfolio.currency : symbol.toUpperCase();
+
+      if (isCash && symbol && symbol.toUpperCase() !== portfolio.currency) {
+        res.status(400).json({ error: `Cash transactions for this portfolio must be in ${portfolio.currency}` });
         return;
       }
 
-      // For SELL transactions, verify user has sufficient balance
-      if (type.toUpperCase() === 'SELL') {
-        const existingAsset = await prisma.asset.findFirst({
-          where: { portfolioId, symbol: symbol.toUpperCase() },
-        });
+      // Amounts are parsed as exact decimals, never floats
+      const quantityNum = parseDecimal(quantity);
+      const priceNum = isCash ? CASH_PRICE : price !== undefined ? parseDecimal(price) : ZERO;
+      const feeNum = fee ? parseDecimal(fee) : ZERO;
 
-        if (!existingAsset) {
-          res.status(400).json({ 
-            error: 'Cannot sell asset you do not own',
-            details: `No ${symbol.toUpperCase()} found in portfolio`
-          });
-          return;
-        }
-
-        if (existingAsset.quantity < quantityNum) {
-          res.status(400).json({ 
-            error: 'Insufficient balance',
-            details: `Available: ${existingAsset.quantity}, Requested: ${quantityNum}`
-          });
-          return;
-        }
+      const amountError = validateAmounts(txType, txSymbol, quantityNum, priceNum, feeNum);
+      if (amountError || !quantityNum || !priceNum || !feeNum) {
+        res.status(400).json({ error: amountError });
+        return;
       }
 
-      const feeNum = fee ? parseFloat(fee) : 0;
-      if (fee && (isNaN(feeNum) || feeNum < 0)) {
-        res.status(400).json({ error: 'Invalid fee. Must be a non-negative number.' });
+      const txTimestamp = timestamp ? new Date(timestamp) : new Date();
+      if (isNaN(txTimestamp.getTime())) {
+        res.status(400).json({ error: 'Invalid timestamp' });
         return;
       }
 
-      const transaction = await prisma.transaction.create({
-        data: {
-          portfolioId,
-          type: type.toUpperCase(),
-          symbol: symbol.toUpperCase(),
-          quantity: quantityNum,
-          price: priceNum,
-          fee: feeNum,
-          timestamp: timestamp ? new Date(timestamp) : new Date(),
-          notes: notes || null,
-        },
-      });
-
-      // Update or create asset
-      if (type.toUpperCase() === 'BUY') {
-        const existingAsset = await prisma.asset.findFirst({
-          where: { portfolioId, symbol: symbol.toUpperCase() },
-        });
+      // Balance checks, ledger write and holding update commit or fail together
+      const transaction = await withTransaction(async (tx) => {
+        await holdingsService.lockPortfolio(portfolioId, tx);
 
-        if (existingAsset) {
-          // Update existing asset
-          const newQuantity = existingAsset.quantity + quantityNum;
-          const newAvgPrice = (
-            (existingAsset.quantity * existingAsset.purchasePrice) + 
-            (quantityNum * priceNum)
-          ) / newQuantity;
-
-          await prisma.asset.update({
-            where: { id: existingAsset.id },
-            data: {
-              quantity: newQuantity,
-              purchasePrice: newAvgPrice,
-            },
+        // Replay the ledger with the new trade so backdated SELLs can't oversell either
+        if (!isCash) {
+          const ledger = await tx.transaction.findMany({
+            where: { portfolioId, symbol: txSymbol },
           });
-        } else {
-          // Create new asset
-          await prisma.asset.create({
-            data: {
-              portfolioId,
-              symbol: symbol.toUpperCase(),
-              name: symbol.toUpperCase(),
+
+          holdingsService.replay([
+            ...ledger,
+            {
+              id: 'pending',
+              type: txType,
+              symbol: txSymbol,
               quantity: quantityNum,
-              purchasePrice: priceNum,
+              price: priceNum,
+              fee: feeNum,
+              timestamp: txTimestamp,
+              acquiredAt: null,
+              createdAt: new Date(),
             },
-          });
+          ]);
         }
-      } else if (type.toUpperCase() === 'SELL') {
-        // Reduce asset quantity (already validated to exist above)
-        const existingAsset = await prisma.asset.findFirst({
-          where: { portfolioId, symbol: symbol.toUpperCase() },
+
+        const created = await tx.transaction.create({
+          data: {
+            portfolioId,
+            type: txType,
+            symbol: txSymbol,
+            quantity: quantityNum,
+            price: priceNum,
+            fee: feeNum,
+            timestamp: txTimestamp,
+            notes: notes || null,
+          },
         });
 
-        if (existingAsset) {
-          const newQuantity = existingAsset.quantity - quantityNum;
-          
-          if (newQuantity <= 0) {
-            // Delete asset if quantity is zero or negative
-            await prisma.asset.delete({ where: { id: existingAsset.id } });
-          } else {
-            // Update quantity
-            await prisma.asset.update({
-              where: { id: existingAsset.id },
-              data: { quantity: newQuantity },
-            });
-          }
+        // Holdings, tax lots and cash are derived from the ledger
+        if (!isCash) {
+          await holdingsService.syncHolding(portfolioId, txSymbol, {}, tx);
         }
-      }
+        await holdingsService.syncCash(portfolioId, tx);
+
+        return created;
+      });
+
+      console.log(`✅ Transaction created: ${txType} ${quantityNum} ${txSymbol} at $${priceNum} for portfolio ${portfolioId}`);
 
-      console.log(`✅ Transaction created: ${type} ${quantity} ${symbol} at $${price} for portfolio ${portfolioId}`);
+      // The trade is committed; a failed notification mustn't turn it into an error
+      await notificationService.notifyLargeFills(userId, [transaction])
+        .catch(error => console.error('Large fill notification error:', error));
+      await webhookService.enqueue(userId, 'transaction.created', { transaction })
+        .catch(error => console.error('Transaction webhook error:', error));
 
       res.status(201).json({
         message: 'Transaction recorded successfully',
         transaction,
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       console.error('❌ Create transaction error:', error);
       if (error instanceof Error) {
         console.error('Error details:', {
@@ -257,15 +307,64 @@ export const transactionController = {
         return;
       }
 
-      const transaction = await prisma.transaction.update({
-        where: { id },
-        data: {
-          ...(quantity !== undefined && { quantity: parseFloat(quantity) }),
-          ...(price !== undefined && { price: parseFloat(price) }),
-          ...(fee !== undefined && { fee: parseFloat(fee) }),
-          ...(timestamp && { timestamp: new Date(timestamp) }),
-          ...(notes !== undefined && { notes }),
-        },
+      // The legs of a portfolio transfer or swap only make sense together
+      if (existing.transferId || existing.swapId) {
+        res.status(400).json({ error: 'Transfers and swaps cannot be edited; delete and record them again' });
+        return;
+      }
+
+      const isCash = isCashTransaction(existing.type);
+      const quantityNum = quantity !== undefined ? parseDecimal(quantity) : existing.quantity;
+      const priceNum = price !== undefined && !isCash ? parseDecimal(price) : existing.price;
+      const feeNum = fee !== undefined ? parseDecimal(fee) : existing.fee;
+
+      const amountError = validateAmounts(existing.type, existing.symbol, quantityNum, priceNum, feeNum);
+      if (amountError || !quantityNum || !priceNum || !feeNum) {
+        res.status(400).json({ error: amountError });
+        return;
+      }
+
+      const updated = {
+        ...existing,
+        quantity: quantityNum,
+        price: priceNum,
+        fee: feeNum,
+        ...(timestamp && { timestamp: new Date(timestamp) }),
+      };
+
+      if (isNaN(updated.timestamp.getTime())) {
+        res.status(400).json({ error: 'Invalid timestamp' });
+        return;
+      }
+
+      const transaction = await withTransaction(async (tx) => {
+        await holdingsService.lockPortfolio(existing.portfolioId, tx);
+
+        // Refuse the edit if it would leave a later SELL overselling
+        if (!isCash) {
+          const ledger = await tx.transaction.findMany({
+            where: { portfolioId: existing.portfolioId, symbol: existing.symbol },
+          });
+          holdingsService.replay(ledger.map(entry => (entry.id === id ? updated : entry)));
+        }
+
+        const saved = await tx.transaction.update({
+          where: { id },
+          data: {
+            quantity: updated.quantity,
+            price: updated.price,
+            fee: updated.fee,
+            timestamp: updated.timestamp,
+            ...(notes !== undefined && { notes }),
+          },
+        });
+
+        if (!isCash) {
+          await holdingsService.syncHolding(existing.portfolioId, existing.symbol, {}, tx);
+        }
+        await holdingsService.syncCash(existing.portfolioId, tx);
+
+        return saved;
       });
 
       res.json({
@@ -273,6 +372,10 @@ export const transactionController = {
         transaction,
       });
     } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       console.error('Update transaction error:', error);
       res.status(500).json({ error: 'Failed to update transaction' });
     }
@@ -302,15 +405,127 @@ export const transactionController = {
         return;
       }
 
-      await prisma.transaction.delete({ where: { id } });
+      await withTransaction(async (tx) => {
+        // Deleting one leg of a portfolio transfer or swap deletes all of it
+        const legs = existing.transferId
+          ? await tx.transaction.findMany({ where: { transferId: existing.transferId } })
+          : existing.swapId
+            ? await tx.transaction.findMany({ where: { swapId: existing.swapId } })
+            : [existing];
+        const legIds = new Set(legs.map(leg => leg.id));
+        const portfolioIds = [...new Set(legs.map(leg => leg.portfolioId))].sort();
+        const positions = [...new Map(legs.map(leg => [holdingKey(leg.portfolioId, leg.symbol), leg])).values()];
+        const isCash = isCashTransaction(existing.type);
+
+        for (const portfolioId of portfolioIds) {
+          await holdingsService.lockPortfolio(portfolioId, tx);
+        }
+
+        // Removing a BUY must not strand a later SELL
+        if (!isCash) {
+          for (const { portfolioId, symbol } of positions) {
+            const ledger = await tx.transaction.findMany({ where: { portfolioId, symbol } });
+            holdingsService.replay(ledger.filter(entry => !legIds.has(entry.id)));
+          }
+        }
+
+        await tx.transaction.deleteMany({ where: { id: { in: [...legIds] } } });
+
+        if (!isCash) {
+          for (const { portfolioId, symbol } of positions) {
+            await holdingsService.syncHolding(portfolioId, symbol, {}, tx);
+          }
+        }
+
+        // Removing a DEPOSIT or SELL must not leave spent cash unfunded
+        for (const portfolioId of portfolioIds) {
+          await holdingsService.syncCash(portfolioId, tx);
+        }
+      });
 
       res.json({ message: 'Transaction deleted successfully' });
     } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       console.error('Delete transaction error:', error);
       res.status(500).json({ error: 'Failed to delete transaction' });
     }
   },
 
+  // Swap one held coin for another at current market prices
+  async createSwap(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { portfolioId, fromSymbol, toSymbol, quantity, notes } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      if (!portfolioId || !fromSymbol || !toSymbol || quantity === undefined) {
+        res.status(400).json({ error: 'Missing required fields' });
+        return;
+      }
+
+      const from = String(fromSymbol).toUpperCase();
+      const to = String(toSymbol).toUpperCase();
+
+      if (from === to) {
+        res.status(400).json({ error: 'Cannot swap a coin for itself' });
+        return;
+      }
+
+      // Verify portfolio ownership
+      const portfolio = await prisma.portfolio.findFirst({
+        where: { id: portfolioId, userId },
+      });
+
+      if (!portfolio) {
+        res.status(404).json({ error: 'Portfolio not found' });
+        return;
+      }
+
+      const quantityNum = parseDecimal(quantity);
+      const scale = quantityScale(from);
+
+      if (!quantityNum || quantityNum.lte(0) || exceedsScale(quantityNum, scale)) {
+        res.status(400).json({ error: `Invalid quantity. ${from} supports at most ${scale} decimal places.` });
+        return;
+      }
+
+      const { swapId, sell, buy, rate, value } = await withTransaction(tx => swapService.swap({
+        portfolioId,
+        fromSymbol: from,
+        toSymbol: to,
+        quantity: quantityNum,
+        notes,
+      }, tx));
+
+      await notificationService.notifyLargeFills(userId, [sell, buy])
+        .catch(error => console.error('Large fill notification error:', error));
+      await webhookService.enqueue(userId, 'swap.created', { swapId, rate, value, transactions: [sell, buy] })
+        .catch(error => console.error('Swap webhook error:', error));
+
+      res.status(201).json({
+        message: 'Swap recorded successfully',
+        swapId,
+        rate: rate.toDecimalPlaces(PRICE_SCALE),
+        value: value.toDecimalPlaces(PRICE_SCALE),
+        transactions: [sell, buy],
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Create swap error:', error);
+      res.status(500).json({ error: 'Failed to record swap' });
+    }
+  },
+
   // Get user's transaction history across all portfolios
   async getTransactionHistory(req: Request, res: Response): Promise<void> {
     try {
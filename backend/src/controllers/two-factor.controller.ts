@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { twoFactorService } from '../services/two-factor.service';
+import { emailNotificationService } from '../services/email-notification.service';
+import { sessionService } from '../services/session.service';
+import { ApiError } from '../utils/error.utils';
+
+const readCode = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+export const twoFactorController = {
+  // Whether 2FA is on and how many recovery codes are left
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      res.json(await twoFactorService.getStatus(userId));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Get 2FA status error:', error);
+      res.status(500).json({ error: 'Failed to fetch two-factor status' });
+    }
+  },
+
+  // Generate a secret and QR code for the authenticator app
+  async setup(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      res.json(await twoFactorService.beginSetup(userId));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('2FA setup error:', error);
+      res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
+  },
+
+  // Confirm the app works and switch 2FA on
+  async enable(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const code = readCode(req.body.code);
+      if (!code) {
+        res.status(400).json({ error: 'Verification code is required' });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.enable(userId, code);
+
+      // Other devices signed in with just a password have to sign in again
+      await sessionService.revokeAllSessions(userId, req.user?.sessionId);
+
+      emailNotificationService
+        .sendSecurityEmail(userId, 'TWO_FACTOR_ENABLED', { ipAddress: req.ip })
+        .catch(error => console.error('Security email error:', error));
+
+      res.json({
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('2FA enable error:', error);
+      res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+  },
+
+  // Switch 2FA off; needs the password and a code
+  async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { password } = req.body;
+      const code = readCode(req.body.code);
+      if (typeof password !== 'string' || !password || !code) {
+        res.status(400).json({ error: 'Password and verification code are required' });
+        return;
+      }
+
+      await twoFactorService.disable(userId, password, code);
+
+      emailNotificationService
+        .sendSecurityEmail(userId, 'TWO_FACTOR_DISABLED', { ipAddress: req.ip })
+        .catch(error => console.error('Security email error:', error));
+
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('2FA disable error:', error);
+      res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+    }
+  },
+
+  // Replace the recovery codes
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const code = readCode(req.body.code);
+      if (!code) {
+        res.status(400).json({ error: 'Verification code is required' });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(userId, code);
+
+      res.json({
+        message: 'Recovery codes regenerated',
+        recoveryCodes,
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error('Regenerate recovery codes error:', error);
+      res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+    }
+  },
+};
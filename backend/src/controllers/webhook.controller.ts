@@ -0,0 +1,300 @@
+import { Request, Response } from 'express';
+import { WebhookEndpoint } from '@prisma/client';
+import { prisma } from '../server';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvent,
+  webhookService,
+} from '../services/webhook.service';
+import { resolvePublicAddresses } from '../utils/network.utils';
+
+const MAX_ENDPOINTS_PER_USER = 10;
+const DELIVERY_LOG_LIMIT = 100;
+
+// Endpoint as returned to the client; the secret is only shown once, on creation
+const toPublicEndpoint = (endpoint: WebhookEndpoint) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  events: endpoint.events.split(','),
+  description: endpoint.description,
+  isActive: endpoint.isActive,
+  secretHint: `…${endpoint.secret.slice(-4)}`,
+  createdAt: endpoint.createdAt,
+  updatedAt: endpoint.updatedAt,
+});
+
+// Check a target URL; returns an error message or null. Plain http and local or
+// private hosts are only allowed outside production, so a local receiver can be used
+// while developing but the server can't be pointed at its own network.
+const validateUrl = async (value: unknown): Promise<string | null> => {
+  if (typeof value !== 'string' || !value) return 'URL is required';
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'URL must use http or https';
+  }
+
+  if (url.protocol !== 'https:') return 'URL must use https';
+  try {
+    await resolvePublicAddresses(url.hostname);
+  } catch {
+    return 'URL must point to a public host';
+  }
+  return null;
+};
+
+// Normalize the event filter to a stored list; returns null if any entry is unknown
+const parseEvents = (value: unknown): string | null => {
+  if (value === '*' || (Array.isArray(value) && value.includes('*'))) return '*';
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(event => isWebhookEvent(event) && event !== 'webhook.test')) return null;
+
+  return [...new Set(value)].join(',');
+};
+
+const EVENTS_ERROR = `Events must be '*' or a list of ${WEBHOOK_EVENTS.filter(e => e !== 'webhook.test').join(', ')}`;
+
+export const webhookController = {
+  // Get user's webhook endpoints
+  async getWebhooks(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json(endpoints.map(toPublicEndpoint));
+    } catch (error) {
+      console.error('Get webhooks error:', error);
+      res.status(500).json({ error: 'Failed to fetch webhooks' });
+    }
+  },
+
+  // Register webhook endpoint
+  async createWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { url, events, description } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const urlError = await validateUrl(url);
+      if (urlError) {
+        res.status(400).json({ error: urlError });
+        return;
+      }
+
+      const eventList = parseEvents(events ?? '*');
+      if (!eventList) {
+        res.status(400).json({ error: EVENTS_ERROR });
+        return;
+      }
+
+      const count = await prisma.webhookEndpoint.count({ where: { userId } });
+      if (count >= MAX_ENDPOINTS_PER_USER) {
+        res.status(400).json({ error: `You can register at most ${MAX_ENDPOINTS_PER_USER} webhooks` });
+        return;
+      }
+
+      const endpoint = await prisma.webhookEndpoint.create({
+        data: {
+          userId,
+          url,
+          events: eventList,
+          description: description || null,
+          secret: generateWebhookSecret(),
+        },
+      });
+
+      res.status(201).json({
+        message: 'Webhook created successfully. Store the secret now; it will not be shown again.',
+        webhook: toPublicEndpoint(endpoint),
+        secret: endpoint.secret,
+      });
+    } catch (error) {
+      console.error('Create webhook error:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  },
+
+  // Update webhook endpoint
+  async updateWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+      const { url, events, description, isActive } = req.body;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const existing = await prisma.webhookEndpoint.findFirst({
+        where: { id, userId },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      if (url !== undefined) {
+        const urlError = await validateUrl(url);
+        if (urlError) {
+          res.status(400).json({ error: urlError });
+          return;
+        }
+      }
+
+      const eventList = events !== undefined ? parseEvents(events) : existing.events;
+      if (!eventList) {
+        res.status(400).json({ error: EVENTS_ERROR });
+        return;
+      }
+
+      const endpoint = await prisma.webhookEndpoint.update({
+        where: { id },
+        data: {
+          ...(url !== undefined && { url }),
+          events: eventList,
+          ...(description !== undefined && { description: description || null }),
+          ...(isActive !== undefined && { isActive: Boolean(isActive) }),
+        },
+      });
+
+      res.json({
+        message: 'Webhook updated successfully',
+        webhook: toPublicEndpoint(endpoint),
+      });
+    } catch (error) {
+      console.error('Update webhook error:', error);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  },
+
+  // Delete webhook endpoint and its delivery log
+  async deleteWebhook(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const existing = await prisma.webhookEndpoint.findFirst({
+        where: { id, userId },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      await prisma.webhookEndpoint.delete({ where: { id } });
+
+      res.json({ message: 'Webhook deleted successfully' });
+    } catch (error) {
+      console.error('Delete webhook error:', error);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+  },
+
+  // Get the delivery log for an endpoint, newest first
+  async getDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const existing = await prisma.webhookEndpoint.findFirst({
+        where: { id, userId },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      const deliveries = await prisma.webhookDelivery.findMany({
+        where: { endpointId: id },
+        orderBy: { createdAt: 'desc' },
+        take: DELIVERY_LOG_LIMIT,
+      });
+
+      res.json(deliveries);
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+  },
+
+  // Send a test event straight away and report how the endpoint answered
+  async sendTestEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Verify ownership
+      const endpoint = await prisma.webhookEndpoint.findFirst({
+        where: { id, userId },
+      });
+
+      if (!endpoint) {
+        res.status(404).json({ error: 'Webhook not found' });
+        return;
+      }
+
+      const queued = await webhookService.enqueueFor(endpoint.id, 'webhook.test', {
+        message: 'This is a test event from Bit-Lover',
+      });
+      let delivery = await webhookService.dispatch({ ...queued, endpoint });
+
+      // A test is a one-off check, not something to keep retrying
+      if (delivery && delivery.status !== 'SUCCEEDED') {
+        delivery = await prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'FAILED' },
+        });
+      }
+
+      res.json({
+        message: delivery?.status === 'SUCCEEDED' ? 'Test event delivered' : 'Test event failed',
+        delivery,
+      });
+    } catch (error) {
+      console.error('Send test webhook error:', error);
+      res.status(500).json({ error: 'Failed to send test event' });
+    }
+  },
+};
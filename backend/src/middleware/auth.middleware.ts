@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, JwtPayload } from '../utils/jwt.utils';
+import { sessionService } from '../services/session.service';
 
 // Extend Express Request type to include user
 declare global {
@@ -10,11 +11,13 @@ declare global {
   }
 }
 
-export const authenticate = (
+export const authenticate = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
+  let decoded: JwtPayload;
+
   try {
     const authHeader = req.headers.authorization;
     
@@ -24,11 +27,46 @@ export const authenticate = (
     }
 
     const token = authHeader.substring(7);
-    const decoded = verifyToken(token);
-    
-    req.user = decoded;
-    next();
+    decoded = verifyToken(token);
   } catch (error) {
     res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  try {
+    // Tokens from before sessions existed, or from a revoked session, are refused
+    if (!decoded.sessionId || !(await sessionService.touch(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({ error: 'Session has ended. Please log in again.' });
+      return;
+    }
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ error: 'Failed to verify session' });
+    return;
   }
+
+  req.user = decoded;
+  next();
+};
+
+// Comma-separated emails of the accounts allowed into operator endpoints
+const adminEmails = (): string[] =>
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Only let through users listed in ADMIN_EMAILS; use after authenticate. With the list
+ * unset nobody gets in.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const email = req.user?.email?.toLowerCase();
+
+  if (!email || !adminEmails().includes(email)) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
+  next();
 };
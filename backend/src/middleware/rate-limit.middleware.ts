@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { rateLimitService } from '../services/rate-limit.service';
+
+export interface RateLimitOptions {
+  // Bucket prefix, so route groups count separately
+  name: string;
+  windowMs: number;
+  max: number;
+  // What a bucket is counted by; returning null skips the limit for that request
+  key: (req: Request) => string | null;
+  message?: string;
+}
+
+const envLimit = (group: string, windowMs: number, max: number) => ({
+  windowMs: parseInt(process.env[`RATE_LIMIT_${group}_WINDOW_MS`] || String(windowMs)),
+  max: parseInt(process.env[`RATE_LIMIT_${group}_MAX`] || String(max)),
+});
+
+// Limits per route group, overridable with RATE_LIMIT_<GROUP>_WINDOW_MS / _MAX
+export const RATE_LIMITS = {
+  // Every API request, per IP
+  api: {
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
+    max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1000'),
+  },
+  // Sign-in, sign-up and password reset, per IP
+  auth: envLimit('AUTH', 15 * 60 * 1000, 30),
+  // Sign-in and password reset, per email address
+  account: envLimit('ACCOUNT', 15 * 60 * 1000, 10),
+  // Public market data, which is backed by the upstream price API, per IP
+  market: envLimit('MARKET', 60 * 1000, 60),
+};
+
+export const byIp = (req: Request): string | null => req.ip || null;
+
+export const byEmail = (req: Request): string | null => {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+};
+
+/**
+ * Answer 429 with a Retry-After header
+ */
+export const sendTooManyRequests = (res: Response, retryAfterMs: number, message: string): void => {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({ error: message, retryAfter });
+};
+
+/**
+ * Fixed-window limiter. Sets the RateLimit-* headers from the IETF draft on every
+ * response. If the store fails the request goes through rather than taking the API down.
+ */
+export const rateLimit = (options: RateLimitOptions): RequestHandler => {
+  const { name, windowMs, max, key } = options;
+  const message = options.message || 'Too many requests. Please try again later.';
+  const policy = `${max};w=${Math.ceil(windowMs / 1000)}`;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const bucket = key(req);
+    if (!bucket) {
+      next();
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const { count, resetAt } = await rateLimitService.hit(`${name}:${bucket}`, windowMs, now);
+      const resetMs = resetAt.getTime() - now.getTime();
+
+      res.set({
+        'RateLimit-Policy': policy,
+        'RateLimit-Limit': String(max),
+        'RateLimit-Remaining': String(Math.max(0, max - count)),
+        'RateLimit-Reset': String(Math.max(0, Math.ceil(resetMs / 1000))),
+      });
+
+      if (count > max) {
+        sendTooManyRequests(res, resetMs, message);
+        return;
+      }
+    } catch (error) {
+      console.error(`Rate limit (${name}) error:`, error);
+    }
+
+    next();
+  };
+};
+
+export const apiLimiter = rateLimit({ name: 'api', ...RATE_LIMITS.api, key: byIp });
+
+export const authLimiter = rateLimit({
+  name: 'auth',
+  ...RATE_LIMITS.auth,
+  key: byIp,
+  message: 'Too many attempts from this address. Please try again later.',
+});
+
+export const accountLimiter = rateLimit({
+  name: 'account',
+  ...RATE_LIMITS.account,
+  key: byEmail,
+  message: 'Too many attempts for this account. Please try again later.',
+});
+
+export const marketLimiter = rateLimit({
+  name: 'market',
+  ...RATE_LIMITS.market,
+  key: byIp,
+  message: 'Too many market data requests. Please slow down.',
+});
@@ -8,6 +8,7 @@ const router = Router();
 router.use(authenticate);
 
 router.get('/', alertController.getAlerts);
+router.get('/:id/history', alertController.getAlertHistory);
 router.post('/', alertController.createAlert);
 router.put('/:id', alertController.updateAlert);
 router.delete('/:id', alertController.deleteAlert);
@@ -12,5 +12,8 @@ router.get('/asset-allocation', analyticsController.getAssetAllocation);
 router.get('/profit-loss', analyticsController.getProfitLoss);
 router.get('/roi', analyticsController.getROI);
 router.get('/top-holdings', analyticsController.getTopHoldings);
+router.get('/pnl-breakdown', analyticsController.getPnLBreakdown);
+router.get('/tax-report', analyticsController.getTaxReport);
+router.get('/income', analyticsController.getIncomeReport);
 
 export default router;
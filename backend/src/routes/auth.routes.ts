@@ -1,16 +1,30 @@
 import { Router } from 'express';
 import { authController } from '../controllers/auth.controller';
+import { twoFactorController } from '../controllers/two-factor.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { authLimiter, accountLimiter } from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
 // Public routes
-router.post('/register', authController.register);
-router.post('/login', authController.login);
-router.post('/reset-password', authController.resetPassword);
+router.post('/register', authLimiter, authController.register);
+router.post('/login', authLimiter, accountLimiter, authController.login);
+router.post('/login/2fa', authLimiter, authController.verifyTwoFactor);
+router.post('/reset-password/request', authLimiter, accountLimiter, authController.requestPasswordReset);
+router.post('/reset-password/confirm', authLimiter, authController.confirmPasswordReset);
+router.post('/refresh', authController.refresh);
+router.post('/logout', authController.logout);
 
 // Protected routes
 router.get('/profile', authenticate, authController.getProfile);
 router.put('/profile', authenticate, authController.updateProfile);
+router.get('/sessions', authenticate, authController.getSessions);
+router.delete('/sessions', authenticate, authController.revokeAllSessions);
+router.delete('/sessions/:id', authenticate, authController.revokeSession);
+router.get('/2fa', authenticate, twoFactorController.getStatus);
+router.post('/2fa/setup', authenticate, twoFactorController.setup);
+router.post('/2fa/enable', authenticate, twoFactorController.enable);
+router.post('/2fa/disable', authenticate, twoFactorController.disable);
+router.post('/2fa/recovery-codes', authenticate, twoFactorController.regenerateRecoveryCodes);
 
 export default router;
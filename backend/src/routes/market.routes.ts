@@ -1,15 +1,21 @@
 import { Router } from 'express';
 import { marketController } from '../controllers/market.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Public routes - no authentication required
 router.get('/live', marketController.getMarketPrices); // Get all real-time prices from DB
 router.get('/prices', marketController.getPrices);
+router.get('/coins', marketController.getCoins); // Tracked coins from CoinList
 router.get('/coins/:symbol', marketController.getCoinDetail);
 router.get('/top', marketController.getTopCoins);
 router.get('/trending', marketController.getTrending);
 router.get('/search', marketController.searchCoins);
 router.get('/historical/:symbol', marketController.getHistoricalData);
+router.get('/candles/:symbol', marketController.getCandles);
+
+// Admin routes - price sync and price source health
+router.get('/status', authenticate, requireAdmin, marketController.getStatus);
 
 export default router;
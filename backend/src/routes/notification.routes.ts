@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { notificationController } from '../controllers/notification.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', notificationController.getNotifications);
+router.get('/unread-count', notificationController.getUnreadCount);
+router.put('/read-all', notificationController.markAllRead);
+router.put('/:id/read', notificationController.markRead);
+router.delete('/:id', notificationController.deleteNotification);
+
+export default router;
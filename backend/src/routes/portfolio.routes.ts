@@ -13,5 +13,7 @@ router.post('/', portfolioController.createPortfolio);
 router.put('/:id', portfolioController.updatePortfolio);
 router.delete('/:id', portfolioController.deletePortfolio);
 router.get('/:id/summary', portfolioController.getPortfolioSummary);
+router.get('/:id/lots', portfolioController.getLots);
+router.post('/:id/transfer', portfolioController.transferAssets);
 
 export default router;
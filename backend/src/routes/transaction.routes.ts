@@ -11,6 +11,7 @@ router.get('/portfolio/:portfolioId', transactionController.getTransactionsByPor
 router.get('/history', transactionController.getTransactionHistory);
 router.get('/:id', transactionController.getTransaction);
 router.post('/', transactionController.createTransaction);
+router.post('/swap', transactionController.createSwap);
 router.put('/:id', transactionController.updateTransaction);
 router.delete('/:id', transactionController.deleteTransaction);
 
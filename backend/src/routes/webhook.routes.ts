@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/webhook.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', webhookController.getWebhooks);
+router.post('/', webhookController.createWebhook);
+router.put('/:id', webhookController.updateWebhook);
+router.delete('/:id', webhookController.deleteWebhook);
+router.get('/:id/deliveries', webhookController.getDeliveries);
+router.post('/:id/test', webhookController.sendTestEvent);
+
+export default router;
@@ -15,9 +15,16 @@ import marketRoutes from './routes/market.routes';
 import watchlistRoutes from './routes/watchlist.routes';
 import alertRoutes from './routes/alert.routes';
 import analyticsRoutes from './routes/analytics.routes';
+import notificationRoutes from './routes/notification.routes';
+import webhookRoutes from './routes/webhook.routes';
+import { apiLimiter, marketLimiter } from './middleware/rate-limit.middleware';
 
 // Import price sync service
 import { priceSyncService } from './services/price-sync.service';
+import { notificationService } from './services/notification.service';
+import { webhookService, webhookDispatcher } from './services/webhook.service';
+import { emailNotificationService, digestScheduler } from './services/email-notification.service';
+import { mailService } from './services/mail.service';
 
 // Load environment variables
 dotenv.config();
@@ -29,6 +36,13 @@ export const prisma = new PrismaClient();
 const app: Application = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, trust its X-Forwarded-For so rate limits see client IPs
+// (a hop count like "1", "true", or a list of proxy addresses)
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY && TRUST_PROXY !== 'false') {
+  app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? parseInt(TRUST_PROXY) : TRUST_PROXY === 'true' || TRUST_PROXY);
+}
+
 // Middleware
 app.use(helmet()); // Security headers
 app.use(cors({
@@ -55,6 +69,7 @@ app.use(cors({
     callback(new Error('Not allowed by CORS'));
   },
   credentials: true,
+  exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
 }));
 app.use(morgan('dev')); // HTTP request logger
 app.use(compression()); // Compress responses
@@ -67,14 +82,17 @@ app.get('/health', (_req: Request, res: Response) => {
 });
 
 // API Routes
+app.use('/api', apiLimiter);
 app.use('/api/auth', authRoutes);
 app.use('/api/portfolios', portfolioRoutes);
 app.use('/api/assets', assetRoutes);
 app.use('/api/transactions', transactionRoutes);
-app.use('/api/market', marketRoutes);
+app.use('/api/market', marketLimiter, marketRoutes);
 app.use('/api/watchlist', watchlistRoutes);
 app.use('/api/alerts', alertRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/webhooks', webhookRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
@@ -91,29 +109,43 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
   });
 });
 
-// Start server
-app.listen(PORT, async () => {
-  console.log(`🚀 Server running on http://localhost:${PORT}`);
-  console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+// Start serving when run directly; scripts and tests import the services without a server
+if (require.main === module) {
+  // Build the mail transport now so a misconfigured one stops startup, not the first email
+  mailService.getTransport();
+
+  app.listen(PORT, async () => {
+    console.log(`🚀 Server running on http://localhost:${PORT}`);
+    console.log(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🔗 Health check: http://localhost:${PORT}/health`);
   
-  // Start price sync service
-  await priceSyncService.start();
-});
+    // Report alert firings in the notification center, by email and to webhooks, then start price sync
+    notificationService.subscribeToAlerts();
+    emailNotificationService.subscribeToAlerts();
+    webhookService.subscribeToAlerts();
+    webhookDispatcher.start();
+    digestScheduler.start();
+    await priceSyncService.start();
+  });
 
-// Graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('\n👋 Shutting down gracefully...');
-  priceSyncService.stop();
-  await prisma.$disconnect();
-  process.exit(0);
-});
+  // Graceful shutdown
+  process.on('SIGINT', async () => {
+    console.log('\n👋 Shutting down gracefully...');
+    priceSyncService.stop();
+    webhookDispatcher.stop();
+    digestScheduler.stop();
+    await prisma.$disconnect();
+    process.exit(0);
+  });
 
-process.on('SIGTERM', async () => {
-  console.log('\n👋 Shutting down gracefully...');
-  priceSyncService.stop();
-  await prisma.$disconnect();
-  process.exit(0);
-});
+  process.on('SIGTERM', async () => {
+    console.log('\n👋 Shutting down gracefully...');
+    priceSyncService.stop();
+    webhookDispatcher.stop();
+    digestScheduler.stop();
+    await prisma.$disconnect();
+    process.exit(0);
+  });
+}
 
 export default app;
@@ -0,0 +1,389 @@
+import { EventEmitter } from 'events';
+import { Prisma, PriceAlert } from '@prisma/client';
+import { prisma } from '../server';
+import { coinRegistryService } from './coin-registry.service';
+import { costBasisService, holdingKey, LotHolding } from './cost-basis.service';
+import { marketHistoryService } from './market-history.service';
+import { Decimal, ZERO } from '../utils/decimal.utils';
+
+export const ALERT_CONDITIONS = [
+  'ABOVE',
+  'BELOW',
+  'PERCENT_CHANGE',
+  'VOLUME_SPIKE',
+  'PORTFOLIO_BELOW',
+  'HOLDING_LOSS',
+] as const;
+export type AlertCondition = typeof ALERT_CONDITIONS[number];
+
+export const MOVE_DIRECTIONS = ['UP', 'DOWN', 'EITHER'] as const;
+
+// ONCE fires a single time, REARM again after the condition clears, COOLDOWN again
+// after cooldownMinutes while the condition holds
+export const REPEAT_MODES = ['ONCE', 'REARM', 'COOLDOWN'] as const;
+
+export const ALERT_PARAMETER_FIELDS = [
+  'symbol',
+  'portfolioId',
+  'targetPrice',
+  'percent',
+  'direction',
+  'windowMinutes',
+  'multiplier',
+] as const;
+export type AlertParameterField = typeof ALERT_PARAMETER_FIELDS[number];
+
+// The parameters each condition reads; the rest stay null
+export const ALERT_PARAMETERS: Record<AlertCondition, readonly AlertParameterField[]> = {
+  ABOVE: ['symbol', 'targetPrice'],
+  BELOW: ['symbol', 'targetPrice'],
+  PERCENT_CHANGE: ['symbol', 'percent', 'direction', 'windowMinutes'],
+  VOLUME_SPIKE: ['symbol', 'multiplier'],
+  PORTFOLIO_BELOW: ['portfolioId', 'targetPrice'],
+  HOLDING_LOSS: ['portfolioId', 'percent'],
+};
+
+// VOLUME_SPIKE compares against the average over this window
+const VOLUME_AVERAGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface PriceQuote {
+  coinId: string;
+  price: Decimal;
+  marketCap?: Decimal | null;
+  volume24h?: Decimal | null;
+}
+
+export interface AlertTriggeredEvent {
+  alert: PriceAlert;
+  // The coin behind the trigger; for HOLDING_LOSS the holding with the deepest loss
+  coinId: string | null;
+  symbol: string | null;
+  price: Decimal | null;
+  // What was observed: the price, % move, volume multiple, portfolio value or % loss
+  value: Decimal;
+}
+
+// One look at an alert's condition, whether or not it's met
+type AlertReading = Omit<AlertTriggeredEvent, 'alert'> & { met: boolean };
+
+interface WatchedPortfolio {
+  id: string;
+  userId: string;
+  assets: Array<{ symbol: string; quantity: Decimal }>;
+  holdings: Map<string, LotHolding>;
+}
+
+/**
+ * Emits 'triggered' with an AlertTriggeredEvent once per alert, after it has been marked
+ */
+export const alertEvents = new EventEmitter();
+
+export const isAlertCondition = (value: unknown): value is AlertCondition => {
+  return typeof value === 'string' && (ALERT_CONDITIONS as readonly string[]).includes(value);
+};
+
+// Portfolio conditions watch one portfolio, or every portfolio the user owns
+export const isPortfolioCondition = (condition: string): boolean => {
+  return isAlertCondition(condition) && ALERT_PARAMETERS[condition].includes('portfolioId');
+};
+
+// An alert fires once the price reaches the target from its side
+const checkPrice = (alert: PriceAlert, quote: PriceQuote): AlertReading | null => {
+  if (!alert.targetPrice) return null;
+
+  const met = alert.condition === 'ABOVE'
+    ? quote.price.gte(alert.targetPrice)
+    : quote.price.lte(alert.targetPrice);
+
+  return { met, coinId: quote.coinId, symbol: alert.symbol, price: quote.price, value: quote.price };
+};
+
+// Percentage move against the oldest price still inside the lookback window
+const checkMove = async (
+  alert: PriceAlert,
+  quote: PriceQuote,
+  now: Date,
+  db: Prisma.TransactionClient
+): Promise<AlertReading | null> => {
+  if (!alert.percent || !alert.windowMinutes) return null;
+
+  const since = new Date(now.getTime() - alert.windowMinutes * 60 * 1000);
+  const reference = await marketHistoryService.priceSince(quote.coinId, since, db);
+  if (!reference || reference.lte(0)) return null;
+
+  const change = quote.price.minus(reference).div(reference).times(100);
+  const met = alert.direction === 'UP'
+    ? change.gte(alert.percent)
+    : alert.direction === 'DOWN'
+      ? change.lte(alert.percent.negated())
+      : change.abs().gte(alert.percent);
+
+  return { met, coinId: quote.coinId, symbol: alert.symbol, price: quote.price, value: change };
+};
+
+const checkVolume = async (
+  alert: PriceAlert,
+  quote: PriceQuote,
+  now: Date,
+  db: Prisma.TransactionClient
+): Promise<AlertReading | null> => {
+  if (!alert.multiplier || !quote.volume24h) return null;
+
+  const since = new Date(now.getTime() - VOLUME_AVERAGE_MS);
+  const average = await marketHistoryService.averageVolumeSince(quote.coinId, since, db);
+  if (!average || average.lte(0)) return null;
+
+  const ratio = quote.volume24h.div(average);
+  return { met: ratio.gte(alert.multiplier), coinId: quote.coinId, symbol: alert.symbol, price: quote.price, value: ratio };
+};
+
+// Market value of the watched portfolios; skipped while any holding has no price
+const checkPortfolioValue = (
+  alert: PriceAlert,
+  portfolios: WatchedPortfolio[],
+  quotes: Map<string, PriceQuote>
+): AlertReading | null => {
+  if (!alert.targetPrice || portfolios.length === 0) return null;
+
+  let value = ZERO;
+  for (const asset of portfolios.flatMap(portfolio => portfolio.assets)) {
+    const quote = quotes.get(asset.symbol);
+    if (!quote) return null;
+    value = value.plus(asset.quantity.times(quote.price));
+  }
+
+  return { met: value.lt(alert.targetPrice), coinId: null, symbol: null, price: null, value };
+};
+
+// Deepest loss from lot cost basis across the watched holdings
+const checkHoldingLoss = (
+  alert: PriceAlert,
+  portfolios: WatchedPortfolio[],
+  quotes: Map<string, PriceQuote>
+): AlertReading | null => {
+  if (!alert.percent) return null;
+
+  let worst: AlertReading | null = null;
+  for (const portfolio of portfolios) {
+    for (const asset of portfolio.assets) {
+      const quote = quotes.get(asset.symbol);
+      const holding = portfolio.holdings.get(holdingKey(portfolio.id, asset.symbol));
+      if (!quote || !holding || holding.costBasis.lte(0)) continue;
+
+      const value = holding.quantity.times(quote.price);
+      const loss = holding.costBasis.minus(value).div(holding.costBasis).times(100);
+
+      if (!worst || loss.gt(worst.value)) {
+        worst = { met: loss.gte(alert.percent), coinId: quote.coinId, symbol: asset.symbol, price: quote.price, value: loss };
+      }
+    }
+  }
+
+  return worst;
+};
+
+// Whether an alert that has already fired may fire again now
+const isRearmed = (alert: PriceAlert, now: Date): boolean => {
+  if (!alert.isTriggered) return true;
+  if (alert.repeatMode !== 'COOLDOWN' || !alert.triggeredAt) return false;
+
+  return now.getTime() - alert.triggeredAt.getTime() >= (alert.cooldownMinutes || 0) * 60 * 1000;
+};
+
+/**
+ * Human-readable title and message for a firing, shared by every channel that reports it
+ */
+export const describeTrigger = (event: AlertTriggeredEvent): { title: string; message: string } => {
+  const { alert, symbol, value } = event;
+  const target = alert.targetPrice ? `$${alert.targetPrice.toFixed(2)}` : '';
+
+  switch (alert.condition) {
+    case 'ABOVE':
+      return { title: `${symbol} above ${target}`, message: `${symbol} is trading at $${value.toFixed(2)}, above your ${target} target.` };
+    case 'BELOW':
+      return { title: `${symbol} below ${target}`, message: `${symbol} is trading at $${value.toFixed(2)}, below your ${target} target.` };
+    case 'PERCENT_CHANGE':
+      return {
+        title: `${symbol} moved ${value.gte(0) ? '+' : ''}${value.toFixed(2)}%`,
+        message: `${symbol} moved ${value.gte(0) ? '+' : ''}${value.toFixed(2)}% within ${alert.windowMinutes} minutes.`,
+      };
+    case 'VOLUME_SPIKE':
+      return { title: `${symbol} volume spike`, message: `${symbol} 24h volume is ${value.toFixed(2)}× its 7-day average.` };
+    case 'PORTFOLIO_BELOW':
+      return { title: `Portfolio below ${target}`, message: `Your portfolio is worth $${value.toFixed(2)}, below your ${target} target.` };
+    case 'HOLDING_LOSS':
+      return { title: `${symbol} down ${value.toFixed(2)}%`, message: `${symbol} is ${value.toFixed(2)}% below its cost basis.` };
+    default:
+      return { title: 'Price alert', message: `Alert ${alert.id} fired.` };
+  }
+};
+
+export const alertService = {
+  /**
+   * Map each alert symbol to the quote of the coin CoinList resolves it to. A ticker
+   * several coins share means the best-ranked one, as everywhere else.
+   */
+  async resolveQuotes(
+    symbols: string[],
+    quotes: PriceQuote[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<Map<string, PriceQuote>> {
+    const quotesByCoinId = new Map(quotes.map(quote => [quote.coinId, quote]));
+    const coinIds = await coinRegistryService.resolveCoinIds(symbols, db);
+
+    const resolved = new Map<string, PriceQuote>();
+    for (const symbol of symbols) {
+      const quote = quotesByCoinId.get(coinIds.get(symbol.trim().toUpperCase()) ?? '');
+      if (quote) resolved.set(symbol, quote);
+    }
+
+    return resolved;
+  },
+
+  /**
+   * Load the portfolios that portfolio-level alerts watch, with lot holdings worked out
+   * under each portfolio's own cost basis method
+   */
+  async loadWatchedPortfolios(alerts: PriceAlert[], db: Prisma.TransactionClient = prisma): Promise<WatchedPortfolio[]> {
+    const portfolioIds = [...new Set(alerts.flatMap(alert => (alert.portfolioId ? [alert.portfolioId] : [])))];
+    const userIds = [...new Set(alerts.flatMap(alert => (alert.portfolioId ? [] : [alert.userId])))];
+
+    const portfolios = await db.portfolio.findMany({
+      where: { OR: [{ id: { in: portfolioIds } }, { userId: { in: userIds } }] },
+      include: {
+        assets: { select: { symbol: true, quantity: true } },
+        transactions: true,
+        user: { select: { userSettings: { select: { costBasisMethod: true } } } },
+      },
+    });
+
+    return portfolios.map(portfolio => ({
+      id: portfolio.id,
+      userId: portfolio.userId,
+      assets: portfolio.assets,
+      holdings: costBasisService.buildHoldingIndex(
+        [portfolio],
+        portfolio.user.userSettings?.costBasisMethod
+      ).holdings,
+    }));
+  },
+
+  /**
+   * Read every condition the alert's watching; null when there isn't enough data to tell
+   */
+  async check(
+    alert: PriceAlert,
+    quotes: Map<string, PriceQuote>,
+    portfolios: WatchedPortfolio[],
+    now: Date,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<AlertReading | null> {
+    const quote = alert.symbol ? quotes.get(alert.symbol) : undefined;
+    const watched = portfolios.filter(portfolio =>
+      alert.portfolioId ? portfolio.id === alert.portfolioId : portfolio.userId === alert.userId
+    );
+
+    switch (alert.condition) {
+      case 'ABOVE':
+      case 'BELOW':
+        return quote ? checkPrice(alert, quote) : null;
+      case 'PERCENT_CHANGE':
+        return quote ? checkMove(alert, quote, now, db) : null;
+      case 'VOLUME_SPIKE':
+        return quote ? checkVolume(alert, quote, now, db) : null;
+      case 'PORTFOLIO_BELOW':
+        return checkPortfolioValue(alert, watched, quotes);
+      case 'HOLDING_LOSS':
+        return checkHoldingLoss(alert, watched, quotes);
+      default:
+        return null;
+    }
+  },
+
+  /**
+   * Switch off expired alerts, then check the rest against fresh prices. An alert fires
+   * when its condition is met and it is armed: never fired, past its cooldown, or (for
+   * REARM) back on the other side since it last fired. Each firing is claimed with a
+   * conditional update that also writes the history row, so overlapping sync runs can't
+   * both fire it. Returns the alerts this call triggered.
+   */
+  async evaluate(
+    quotes: PriceQuote[],
+    db: Prisma.TransactionClient = prisma,
+    now: Date = new Date()
+  ): Promise<AlertTriggeredEvent[]> {
+    if (quotes.length === 0) return [];
+
+    await db.priceAlert.updateMany({
+      where: { isActive: true, expiresAt: { lte: now } },
+      data: { isActive: false },
+    });
+
+    const alerts = await db.priceAlert.findMany({
+      where: {
+        isActive: true,
+        OR: [{ isTriggered: false }, { repeatMode: { not: 'ONCE' } }],
+      },
+    });
+    if (alerts.length === 0) return [];
+
+    const portfolioAlerts = alerts.filter(alert => isPortfolioCondition(alert.condition));
+    const portfolios = portfolioAlerts.length > 0
+      ? await this.loadWatchedPortfolios(portfolioAlerts, db)
+      : [];
+
+    const symbols = new Set([
+      ...alerts.flatMap(alert => (alert.symbol ? [alert.symbol] : [])),
+      ...portfolios.flatMap(portfolio => portfolio.assets.map(asset => asset.symbol)),
+    ]);
+    const quotesBySymbol = await this.resolveQuotes([...symbols], quotes, db);
+
+    const triggered: AlertTriggeredEvent[] = [];
+    for (const alert of alerts) {
+      const reading = await this.check(alert, quotesBySymbol, portfolios, now, db);
+      if (!reading) continue;
+
+      // Only the state this run saw may be changed, in case another run got there first
+      const claim = {
+        id: alert.id,
+        isActive: true,
+        isTriggered: alert.isTriggered,
+        triggeredAt: alert.triggeredAt,
+      };
+
+      if (!reading.met) {
+        if (alert.isTriggered && alert.repeatMode === 'REARM') {
+          await db.priceAlert.updateMany({ where: claim, data: { isTriggered: false } });
+        }
+        continue;
+      }
+
+      if (!isRearmed(alert, now)) continue;
+
+      const { met, ...match } = reading;
+      const triggeredAt = now;
+
+      try {
+        await db.priceAlert.update({
+          where: claim,
+          data: {
+            isTriggered: true,
+            triggeredAt,
+            triggers: {
+              create: { symbol: match.symbol, price: match.price, value: match.value, triggeredAt },
+            },
+          },
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') continue;
+        throw error;
+      }
+
+      const event = { alert: { ...alert, isTriggered: true, triggeredAt }, ...match };
+      triggered.push(event);
+      alertEvents.emit('triggered', event);
+    }
+
+    return triggered;
+  },
+};
@@ -0,0 +1,109 @@
+import { Prisma, CoinList } from '@prisma/client';
+import { prisma } from '../server';
+import { marketDataService, MarketDataProvider } from './market-data.service';
+
+// CoinList changes rarely; re-read it at most this often
+const CACHE_TTL_MS = 60 * 1000;
+
+let cached: { coins: CoinList[]; loadedAt: number } | null = null;
+
+// Best market cap rank first, unranked coins last, then the coin listed first
+const byPrecedence = (a: CoinList, b: CoinList): number =>
+  (a.marketCapRank ?? Number.MAX_SAFE_INTEGER) - (b.marketCapRank ?? Number.MAX_SAFE_INTEGER) ||
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+/**
+ * CoinList is the one place that says which coins we know: ticker, provider coin ID,
+ * name and logo. Tickers aren't unique (many tokens call themselves the same thing),
+ * so a symbol resolves to the active coin with the best market cap rank; a coin ID
+ * always resolves to exactly that coin.
+ */
+export const coinRegistryService = {
+  /**
+   * Every coin, active or not, in precedence order
+   */
+  async list(db: Prisma.TransactionClient = prisma): Promise<CoinList[]> {
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.coins;
+
+    const coins = (await db.coinList.findMany()).sort(byPrecedence);
+    cached = { coins, loadedAt: Date.now() };
+    return coins;
+  },
+
+  invalidate(): void {
+    cached = null;
+  },
+
+  /**
+   * Active coins trading under a ticker, the one it resolves to first
+   */
+  async findBySymbol(symbol: string, db: Prisma.TransactionClient = prisma): Promise<CoinList[]> {
+    const ticker = symbol.trim().toUpperCase();
+    return (await this.list(db)).filter(coin => coin.isActive && coin.symbol.toUpperCase() === ticker);
+  },
+
+  /**
+   * The coin a ticker or coin ID refers to, or null if CoinList doesn't have it
+   */
+  async resolve(symbolOrId: string, db: Prisma.TransactionClient = prisma): Promise<CoinList | null> {
+    const coinId = symbolOrId.trim().toLowerCase();
+    const byId = (await this.list(db)).find(coin => coin.coinId === coinId);
+    if (byId) return byId;
+
+    const [bySymbol] = await this.findBySymbol(symbolOrId, db);
+    return bySymbol ?? null;
+  },
+
+  /**
+   * Provider coin ID for a ticker or coin ID. Coins missing from CoinList are passed
+   * through as IDs, so the provider's wider catalogue can still be browsed.
+   */
+  async resolveCoinId(symbolOrId: string, db: Prisma.TransactionClient = prisma): Promise<string> {
+    return (await this.resolve(symbolOrId, db))?.coinId ?? symbolOrId.trim().toLowerCase();
+  },
+
+  /**
+   * Coin IDs for several tickers or IDs, keyed by the upper-cased input
+   */
+  async resolveCoinIds(symbols: string[], db: Prisma.TransactionClient = prisma): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    for (const symbol of symbols) {
+      resolved.set(symbol.trim().toUpperCase(), await this.resolveCoinId(symbol, db));
+    }
+    return resolved;
+  },
+
+  /**
+   * Bring active coins' names, logos and market cap ranks up to date from the market
+   * data provider; returns how many coins changed
+   */
+  async refreshMetadata(
+    provider: MarketDataProvider = marketDataService.getProvider(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const coins = await db.coinList.findMany({ where: { isActive: true } });
+    if (coins.length === 0) return 0;
+
+    const markets = await provider.getMarkets({ ids: coins.map(coin => coin.coinId), limit: coins.length });
+    const byId = new Map(markets.map(market => [market.id, market]));
+
+    let updated = 0;
+    for (const coin of coins) {
+      const market = byId.get(coin.coinId);
+      if (!market) continue;
+
+      const data = {
+        name: market.name || coin.name,
+        image: market.image ?? coin.image,
+        marketCapRank: market.market_cap_rank ?? coin.marketCapRank,
+      };
+      if (data.name === coin.name && data.image === coin.image && data.marketCapRank === coin.marketCapRank) continue;
+
+      await db.coinList.update({ where: { id: coin.id }, data });
+      updated++;
+    }
+
+    if (updated > 0) this.invalidate();
+    return updated;
+  },
+};
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { changeFromPercent } from './coingecko.provider';
+import { searchCoins, trendingCoins } from './fixture.provider';
+import type {
+  CoinDetail,
+  CoinSearchResult,
+  MarketCoin,
+  MarketDataProvider,
+  PricePoint,
+  SpotPrice,
+  TrendingCoin,
+} from './market-data.service';
+
+const DEFAULT_BASE_URL = 'https://rest.coincap.io/v3';
+const REQUEST_TIMEOUT_MS = 15000;
+const SEARCH_LIMIT = 50;
+const TRENDING_POOL = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Coins CoinCap knows under a different ID than CoinGecko (and so CoinList) does
+const COINCAP_IDS: Record<string, string> = {
+  ripple: 'xrp',
+  binancecoin: 'binance-coin',
+  'avalanche-2': 'avalanche',
+  'matic-network': 'polygon',
+};
+const COINGECKO_IDS: Record<string, string> = Object.fromEntries(
+  Object.entries(COINCAP_IDS).map(([coinGeckoId, coinCapId]) => [coinCapId, coinGeckoId])
+);
+
+const toCoinCapId = (coinId: string): string => COINCAP_IDS[coinId] ?? coinId;
+const toCoinId = (coinCapId: string): string => COINGECKO_IDS[coinCapId] ?? coinCapId;
+
+// CoinCap sends every number as a string, or null when it has none
+interface AssetRow {
+  id: string;
+  rank: string | null;
+  symbol: string;
+  name: string;
+  supply: string | null;
+  maxSupply: string | null;
+  marketCapUsd: string | null;
+  volumeUsd24Hr: string | null;
+  priceUsd: string | null;
+  changePercent24Hr: string | null;
+}
+
+interface HistoryRow {
+  priceUsd: string;
+  time: number;
+}
+
+const num = (value: string | null | undefined): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toMarketCoin = (asset: AssetRow): MarketCoin => {
+  const price = num(asset.priceUsd) ?? 0;
+  const changePercent = num(asset.changePercent24Hr);
+
+  return {
+    id: toCoinId(asset.id),
+    symbol: asset.symbol.toUpperCase(),
+    name: asset.name,
+    current_price: price,
+    price_change_24h: changeFromPercent(price, changePercent) ?? 0,
+    price_change_percentage_24h: changePercent ?? 0,
+    market_cap: num(asset.marketCapUsd) ?? 0,
+    total_volume: num(asset.volumeUsd24Hr) ?? 0,
+    // CoinCap has no 24h range; the current price stands in for both ends
+    high_24h: price,
+    low_24h: price,
+    market_cap_rank: num(asset.rank),
+    circulating_supply: num(asset.supply),
+    max_supply: num(asset.maxSupply),
+  };
+};
+
+// CoinGecko-like granularity: 5 minutes for a day, hourly up to a month, daily beyond
+const historyInterval = (days: number): string => (days <= 1 ? 'm5' : days <= 30 ? 'h1' : 'd1');
+
+/**
+ * Live data from the CoinCap REST API (v3, which needs a key). Coin IDs are translated
+ * to and from CoinGecko's, so it can stand in for or sit beside the CoinGecko provider.
+ */
+export const createCoinCapProvider = (options: { baseUrl?: string; apiKey?: string } = {}): MarketDataProvider => {
+  const client = axios.create({
+    baseURL: options.baseUrl || DEFAULT_BASE_URL,
+    timeout: REQUEST_TIMEOUT_MS,
+    ...(options.apiKey && { headers: { Authorization: `Bearer ${options.apiKey}` } }),
+  });
+
+  const assets = async (params: Record<string, string | number>): Promise<MarketCoin[]> => {
+    const response = await client.get<{ data: AssetRow[] }>('/assets', { params });
+    return response.data.data.map(toMarketCoin);
+  };
+
+  return {
+    name: 'coincap',
+
+    async getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>> {
+      if (coinIds.length === 0) return {};
+
+      const coins = await assets({ ids: coinIds.map(toCoinCapId).join(','), limit: coinIds.length });
+
+      const prices: Record<string, SpotPrice> = {};
+      for (const coin of coins) {
+        if (!coin.current_price || !coinIds.includes(coin.id)) continue;
+        prices[coin.id] = {
+          price: coin.current_price,
+          marketCap: coin.market_cap || null,
+          volume24h: coin.total_volume || null,
+          change24h: coin.price_change_24h,
+          changePercent24h: coin.price_change_percentage_24h,
+        };
+      }
+      return prices;
+    },
+
+    async getMarkets({ ids, limit }): Promise<MarketCoin[]> {
+      return assets({ ...(ids && { ids: ids.map(toCoinCapId).join(',') }), limit });
+    },
+
+    async getCoinDetail(coinId: string): Promise<CoinDetail> {
+      const response = await client.get<{ data: AssetRow }>(`/assets/${encodeURIComponent(toCoinCapId(coinId))}`);
+      return toMarketCoin(response.data.data);
+    },
+
+    async getHistory(coinId: string, days: number): Promise<PricePoint[]> {
+      const end = Date.now();
+      const response = await client.get<{ data: HistoryRow[] }>(
+        `/assets/${encodeURIComponent(toCoinCapId(coinId))}/history`,
+        { params: { interval: historyInterval(days), start: end - days * DAY_MS, end } }
+      );
+
+      return response.data.data.map(point => ({ timestamp: point.time, price: parseFloat(point.priceUsd) }));
+    },
+
+    async search(query: string): Promise<CoinSearchResult[]> {
+      return searchCoins(await assets({ search: query, limit: SEARCH_LIMIT }), query);
+    },
+
+    async getTrending(): Promise<TrendingCoin[]> {
+      // No trending list on CoinCap; the biggest movers among the top coins stand in
+      return trendingCoins(await assets({ limit: TRENDING_POOL }));
+    },
+  };
+};
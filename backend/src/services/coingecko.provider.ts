@@ -0,0 +1,218 @@
+import axios from 'axios';
+import type {
+  CoinDetail,
+  CoinSearchResult,
+  MarketCoin,
+  MarketDataProvider,
+  PricePoint,
+  SpotPrice,
+  TrendingCoin,
+} from './market-data.service';
+
+const DEFAULT_BASE_URL = 'https://api.coingecko.com/api/v3';
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Response shapes of the CoinGecko endpoints we use, trimmed to the fields we read
+interface SimplePriceResponse {
+  [coinId: string]: {
+    usd?: number;
+    usd_market_cap?: number;
+    usd_24h_vol?: number;
+    usd_24h_change?: number;
+  };
+}
+
+interface MarketsRow {
+  id: string;
+  symbol: string;
+  name: string;
+  image?: string;
+  current_price: number;
+  market_cap: number;
+  market_cap_rank?: number;
+  total_volume: number;
+  high_24h: number;
+  low_24h: number;
+  price_change_24h: number;
+  price_change_percentage_24h: number;
+  circulating_supply?: number;
+  total_supply?: number;
+  max_supply?: number;
+}
+
+interface CoinResponse {
+  symbol: string;
+  name: string;
+  image?: { large?: string };
+  description?: { en?: string };
+  market_cap_rank?: number;
+  market_data: {
+    current_price: { usd: number };
+    price_change_24h: number;
+    price_change_percentage_24h: number;
+    market_cap: { usd: number };
+    total_volume: { usd: number };
+    high_24h: { usd: number };
+    low_24h: { usd: number };
+    circulating_supply?: number;
+    total_supply?: number;
+    max_supply?: number;
+  };
+}
+
+interface SearchCoin {
+  id: string;
+  name: string;
+  symbol: string;
+  large?: string;
+  market_cap_rank?: number | null;
+}
+
+interface TrendingResponse {
+  coins: { item: SearchCoin & { price_btc?: number } }[];
+}
+
+/**
+ * Absolute 24h change from the current price and the 24h percentage change
+ */
+export const changeFromPercent = (price: number, percent: number | undefined): number | null => {
+  if (percent === undefined || percent === null) return null;
+  return price - price / (1 + percent / 100);
+};
+
+/**
+ * Live data from the CoinGecko REST API. A key is sent as the demo-plan header when set.
+ */
+export const createCoinGeckoProvider = (options: { baseUrl?: string; apiKey?: string } = {}): MarketDataProvider => {
+  const client = axios.create({
+    baseURL: options.baseUrl || DEFAULT_BASE_URL,
+    timeout: REQUEST_TIMEOUT_MS,
+    ...(options.apiKey && { headers: { 'x-cg-demo-api-key': options.apiKey } }),
+  });
+
+  return {
+    name: 'coingecko',
+
+    async getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>> {
+      if (coinIds.length === 0) return {};
+
+      const response = await client.get<SimplePriceResponse>('/simple/price', {
+        params: {
+          ids: coinIds.join(','),
+          vs_currencies: 'usd',
+          include_market_cap: true,
+          include_24hr_vol: true,
+          include_24hr_change: true,
+        },
+      });
+
+      const prices: Record<string, SpotPrice> = {};
+      for (const [coinId, data] of Object.entries(response.data)) {
+        if (!data.usd) continue;
+        prices[coinId] = {
+          price: data.usd,
+          marketCap: data.usd_market_cap ?? null,
+          volume24h: data.usd_24h_vol ?? null,
+          change24h: changeFromPercent(data.usd, data.usd_24h_change),
+          changePercent24h: data.usd_24h_change ?? null,
+        };
+      }
+      return prices;
+    },
+
+    async getMarkets({ ids, limit }): Promise<MarketCoin[]> {
+      const response = await client.get<MarketsRow[]>('/coins/markets', {
+        params: {
+          vs_currency: 'usd',
+          ...(ids && { ids: ids.join(',') }),
+          order: 'market_cap_desc',
+          per_page: limit,
+          page: 1,
+          sparkline: false,
+        },
+      });
+
+      return response.data.map(coin => ({
+        id: coin.id,
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        current_price: coin.current_price,
+        price_change_24h: coin.price_change_24h,
+        price_change_percentage_24h: coin.price_change_percentage_24h,
+        market_cap: coin.market_cap,
+        total_volume: coin.total_volume,
+        high_24h: coin.high_24h,
+        low_24h: coin.low_24h,
+        image: coin.image,
+        market_cap_rank: coin.market_cap_rank,
+        circulating_supply: coin.circulating_supply,
+        total_supply: coin.total_supply,
+        max_supply: coin.max_supply,
+      }));
+    },
+
+    async getCoinDetail(coinId: string): Promise<CoinDetail> {
+      const response = await client.get<CoinResponse>(`/coins/${encodeURIComponent(coinId)}`, {
+        params: {
+          localization: false,
+          tickers: false,
+          community_data: false,
+          developer_data: false,
+        },
+      });
+
+      const coin = response.data;
+      return {
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        current_price: coin.market_data.current_price.usd,
+        price_change_24h: coin.market_data.price_change_24h,
+        price_change_percentage_24h: coin.market_data.price_change_percentage_24h,
+        market_cap: coin.market_data.market_cap.usd,
+        total_volume: coin.market_data.total_volume.usd,
+        high_24h: coin.market_data.high_24h.usd,
+        low_24h: coin.market_data.low_24h.usd,
+        image: coin.image?.large,
+        description: coin.description?.en,
+        market_cap_rank: coin.market_cap_rank,
+        circulating_supply: coin.market_data.circulating_supply,
+        total_supply: coin.market_data.total_supply,
+        max_supply: coin.market_data.max_supply,
+      };
+    },
+
+    async getHistory(coinId: string, days: number): Promise<PricePoint[]> {
+      const response = await client.get<{ prices: [number, number][] }>(
+        `/coins/${encodeURIComponent(coinId)}/market_chart`,
+        { params: { vs_currency: 'usd', days } }
+      );
+
+      return response.data.prices.map(([timestamp, price]) => ({ timestamp, price }));
+    },
+
+    async search(query: string): Promise<CoinSearchResult[]> {
+      const response = await client.get<{ coins: SearchCoin[] }>('/search', { params: { query } });
+
+      return response.data.coins.map(coin => ({
+        id: coin.id,
+        name: coin.name,
+        symbol: coin.symbol.toUpperCase(),
+        image: coin.large,
+        market_cap_rank: coin.market_cap_rank,
+      }));
+    },
+
+    async getTrending(): Promise<TrendingCoin[]> {
+      const response = await client.get<TrendingResponse>('/search/trending');
+
+      return response.data.coins.map(({ item }) => ({
+        id: item.id,
+        name: item.name,
+        symbol: item.symbol.toUpperCase(),
+        image: item.large,
+        market_cap_rank: item.market_cap_rank,
+        price_btc: item.price_btc,
+      }));
+    },
+  };
+};
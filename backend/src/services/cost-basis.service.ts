@@ -0,0 +1,315 @@
+import { Prisma, Transaction } from '@prisma/client';
+import { prisma } from '../server';
+import { withTransaction } from '../utils/db.utils';
+import { Decimal, ZERO } from '../utils/decimal.utils';
+
+export const COST_BASIS_METHODS = ['FIFO', 'LIFO', 'HIFO', 'AVERAGE'] as const;
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number];
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'FIFO';
+
+// Types that open a new lot; the price is the unit basis of the coins received
+export const ACQUISITION_TYPES = ['BUY', 'TRANSFER_IN', 'REWARD', 'STAKING', 'AIRDROP', 'GIFT_RECEIVED'] as const;
+// Types that take coins out of lots without realizing a gain or loss
+export const REMOVAL_TYPES = ['TRANSFER_OUT', 'GIFT_SENT', 'FEE'] as const;
+// Acquisitions that count as income, valued at market price on receipt
+export const INCOME_TYPES = ['REWARD', 'STAKING', 'AIRDROP'] as const;
+
+export const isAcquisition = (type: string): boolean => (ACQUISITION_TYPES as readonly string[]).includes(type);
+export const isRemoval = (type: string): boolean => (REMOVAL_TYPES as readonly string[]).includes(type);
+export const isIncome = (type: string): boolean => (INCOME_TYPES as readonly string[]).includes(type);
+
+export type LedgerTransaction = Pick<
+  Transaction,
+  'id' | 'type' | 'symbol' | 'quantity' | 'price' | 'fee' | 'timestamp' | 'acquiredAt' | 'createdAt'
+>;
+
+export interface LotDisposalEntry {
+  transactionId: string;
+  quantity: Decimal;
+  costBasis: Decimal;
+  acquisitionFee: Decimal;
+  proceeds: Decimal;
+  disposalFee: Decimal;
+  disposedAt: Date;
+}
+
+export interface LotRemovalEntry {
+  transactionId: string;
+  quantity: Decimal;
+}
+
+export interface LotEntry {
+  transactionId: string;
+  type: string;
+  symbol: string;
+  quantity: Decimal;
+  remainingQuantity: Decimal;
+  unitPrice: Decimal;
+  unitFee: Decimal;
+  acquiredAt: Date;
+  disposals: LotDisposalEntry[];
+  // Untaxed outflows (transfers, gifts, fees) that drew on this lot
+  removals: LotRemovalEntry[];
+}
+
+export interface DisposalRecord extends LotDisposalEntry {
+  symbol: string;
+  lotTransactionId: string;
+  acquiredAt: Date;
+  gain: Decimal;
+}
+
+export interface LotHolding {
+  symbol: string;
+  quantity: Decimal;
+  costBasis: Decimal;
+  acquisitionFees: Decimal;
+  // Part of costBasis that came from income rather than money paid in
+  incomeBasis: Decimal;
+  averageCost: Decimal;
+}
+
+export const isCostBasisMethod = (value: unknown): value is CostBasisMethod => {
+  return typeof value === 'string' && (COST_BASIS_METHODS as readonly string[]).includes(value);
+};
+
+export const holdingKey = (portfolioId: string, symbol: string): string => `${portfolioId}:${symbol}`;
+
+// Ledger order: by trade time, then by entry time for trades stamped at the same moment
+export const compareLedgerOrder = (a: LedgerTransaction, b: LedgerTransaction): number =>
+  a.timestamp.getTime() - b.timestamp.getTime() || a.createdAt.getTime() - b.createdAt.getTime();
+
+// Pick the lot to consume next under the given method. Lots carried in by a transfer
+// keep their original date, so FIFO can't rely on ledger order alone.
+const nextLot = (open: LotEntry[], method: CostBasisMethod): LotEntry => {
+  switch (method) {
+    case 'LIFO':
+      return open.reduce((a, b) => (b.acquiredAt >= a.acquiredAt ? b : a));
+    case 'HIFO':
+      return open.reduce((a, b) => (b.unitPrice.plus(b.unitFee).gt(a.unitPrice.plus(a.unitFee)) ? b : a));
+    default:
+      return open.reduce((a, b) => (b.acquiredAt < a.acquiredAt ? b : a));
+  }
+};
+
+// Average cost pools every open lot at the weighted mean before a disposal
+const poolLots = (open: LotEntry[]): void => {
+  const quantity = open.reduce((sum, lot) => sum.plus(lot.remainingQuantity), ZERO);
+  if (quantity.isZero()) return;
+
+  const unitPrice = open.reduce((sum, lot) => sum.plus(lot.remainingQuantity.times(lot.unitPrice)), ZERO).div(quantity);
+  const unitFee = open.reduce((sum, lot) => sum.plus(lot.remainingQuantity.times(lot.unitFee)), ZERO).div(quantity);
+
+  open.forEach(lot => {
+    lot.unitPrice = unitPrice;
+    lot.unitFee = unitFee;
+  });
+};
+
+export const costBasisService = {
+  /**
+   * Resolve the accounting method for a portfolio, falling back to the user default
+   */
+  resolveMethod(portfolioMethod?: string | null, userMethod?: string | null): CostBasisMethod {
+    if (isCostBasisMethod(portfolioMethod)) return portfolioMethod;
+    if (isCostBasisMethod(userMethod)) return userMethod;
+    return DEFAULT_COST_BASIS_METHOD;
+  },
+
+  /**
+   * Replay a portfolio's transactions and match SELLs and removals against open lots.
+   * Returns every lot opened, including fully consumed ones.
+   */
+  matchLots(transactions: LedgerTransaction[], method: CostBasisMethod): LotEntry[] {
+    const ordered = [...transactions].sort(compareLedgerOrder);
+
+    const lots: LotEntry[] = [];
+    const openBySymbol = new Map<string, LotEntry[]>();
+
+    for (const tx of ordered) {
+      const open = openBySymbol.get(tx.symbol) || [];
+      openBySymbol.set(tx.symbol, open);
+
+      if (isAcquisition(tx.type)) {
+        const lot: LotEntry = {
+          transactionId: tx.id,
+          type: tx.type,
+          symbol: tx.symbol,
+          quantity: tx.quantity,
+          remainingQuantity: tx.quantity,
+          unitPrice: tx.price,
+          unitFee: tx.quantity.isZero() ? ZERO : tx.fee.div(tx.quantity),
+          acquiredAt: tx.acquiredAt || tx.timestamp,
+          disposals: [],
+          removals: [],
+        };
+        lots.push(lot);
+        open.push(lot);
+        continue;
+      }
+
+      if (tx.type !== 'SELL' && !isRemoval(tx.type)) continue;
+
+      if (method === 'AVERAGE') poolLots(open);
+
+      let remaining = tx.quantity;
+      while (remaining.gt(0) && open.length > 0) {
+        const lot = nextLot(open, method);
+        const quantity = Decimal.min(lot.remainingQuantity, remaining);
+
+        if (tx.type === 'SELL') {
+          lot.disposals.push({
+            transactionId: tx.id,
+            quantity,
+            costBasis: quantity.times(lot.unitPrice),
+            acquisitionFee: quantity.times(lot.unitFee),
+            proceeds: quantity.times(tx.price),
+            disposalFee: tx.fee.times(quantity).div(tx.quantity),
+            disposedAt: tx.timestamp,
+          });
+        } else {
+          // Transfers, gifts and fees shrink the lot but leave no taxable disposal behind
+          lot.removals.push({ transactionId: tx.id, quantity });
+        }
+
+        lot.remainingQuantity = lot.remainingQuantity.minus(quantity);
+        remaining = remaining.minus(quantity);
+
+        if (lot.remainingQuantity.isZero()) {
+          open.splice(open.indexOf(lot), 1);
+        }
+      }
+    }
+
+    return lots;
+  },
+
+  /**
+   * Flatten lot disposals, tagging each with the lot it came from
+   */
+  listDisposals(lots: LotEntry[]): DisposalRecord[] {
+    return lots
+      .flatMap(lot => lot.disposals.map(disposal => ({
+        ...disposal,
+        symbol: lot.symbol,
+        lotTransactionId: lot.transactionId,
+        acquiredAt: lot.acquiredAt,
+        gain: disposal.proceeds.minus(disposal.costBasis).minus(disposal.acquisitionFee).minus(disposal.disposalFee),
+      })))
+      .sort((a, b) => a.disposedAt.getTime() - b.disposedAt.getTime());
+  },
+
+  /**
+   * Collapse open lots into one holding per symbol
+   */
+  summarizeLots(lots: LotEntry[]): Map<string, LotHolding> {
+    const holdings = new Map<string, LotHolding>();
+
+    lots.filter(lot => lot.remainingQuantity.gt(0)).forEach(lot => {
+      const holding = holdings.get(lot.symbol) || {
+        symbol: lot.symbol,
+        quantity: ZERO,
+        costBasis: ZERO,
+        acquisitionFees: ZERO,
+        incomeBasis: ZERO,
+        averageCost: ZERO,
+      };
+
+      if (isIncome(lot.type)) {
+        holding.incomeBasis = holding.incomeBasis.plus(lot.remainingQuantity.times(lot.unitPrice));
+      }
+
+      holding.quantity = holding.quantity.plus(lot.remainingQuantity);
+      holding.acquisitionFees = holding.acquisitionFees.plus(lot.remainingQuantity.times(lot.unitFee));
+      holding.costBasis = holding.costBasis.plus(lot.remainingQuantity.times(lot.unitPrice.plus(lot.unitFee)));
+      holding.averageCost = holding.costBasis.div(holding.quantity);
+
+      holdings.set(lot.symbol, holding);
+    });
+
+    return holdings;
+  },
+
+  /**
+   * Build lot-based holdings for several portfolios, keyed by holdingKey(portfolioId, symbol).
+   * An explicit override replaces every portfolio's own method.
+   */
+  buildHoldingIndex(
+    portfolios: Array<{ id: string; costBasisMethod: string | null; transactions: LedgerTransaction[] }>,
+    userMethod?: string | null,
+    override?: CostBasisMethod
+  ): { holdings: Map<string, LotHolding>; method: CostBasisMethod | 'MIXED' } {
+    const holdings = new Map<string, LotHolding>();
+    const methods = new Set<CostBasisMethod>();
+
+    portfolios.forEach(portfolio => {
+      const method = override || this.resolveMethod(portfolio.costBasisMethod, userMethod);
+      methods.add(method);
+
+      const summary = this.summarizeLots(this.matchLots(portfolio.transactions, method));
+      summary.forEach((holding, symbol) => {
+        holdings.set(holdingKey(portfolio.id, symbol), holding);
+      });
+    });
+
+    const method = methods.size > 1
+      ? 'MIXED'
+      : [...methods][0] || this.resolveMethod(null, userMethod);
+
+    return { holdings, method };
+  },
+
+  /**
+   * Look up the method configured for a portfolio
+   */
+  async getPortfolioMethod(portfolioId: string, db: Prisma.TransactionClient = prisma): Promise<CostBasisMethod> {
+    const portfolio = await db.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: {
+        costBasisMethod: true,
+        user: { select: { userSettings: { select: { costBasisMethod: true } } } },
+      },
+    });
+
+    return this.resolveMethod(
+      portfolio?.costBasisMethod,
+      portfolio?.user.userSettings?.costBasisMethod
+    );
+  },
+
+  /**
+   * Rebuild the persisted lot ledger for a portfolio (optionally a single symbol).
+   * Runs in its own transaction unless one is passed in.
+   */
+  async rebuildLots(portfolioId: string, symbol?: string, db?: Prisma.TransactionClient): Promise<void> {
+    if (!db) {
+      return withTransaction(tx => this.rebuildLots(portfolioId, symbol, tx));
+    }
+
+    const method = await this.getPortfolioMethod(portfolioId, db);
+    const where = { portfolioId, ...(symbol && { symbol }) };
+
+    const transactions = await db.transaction.findMany({ where });
+    const lots = this.matchLots(transactions, method);
+
+    await db.taxLot.deleteMany({ where });
+
+    for (const lot of lots) {
+      await db.taxLot.create({
+        data: {
+          portfolioId,
+          transactionId: lot.transactionId,
+          symbol: lot.symbol,
+          quantity: lot.quantity,
+          remainingQuantity: lot.remainingQuantity,
+          unitPrice: lot.unitPrice,
+          unitFee: lot.unitFee,
+          acquiredAt: lot.acquiredAt,
+          disposals: {
+            create: lot.disposals,
+          },
+        },
+      });
+    }
+  },
+};
@@ -1,6 +1,14 @@
-import axios from 'axios';
-
-const COINGECKO_API = process.env.CRYPTO_API_BASE_URL || 'https://api.coingecko.com/api/v3';
+import {
+  marketDataService,
+  CoinDetail,
+  CoinPrice,
+  CoinSearchResult,
+  MarketCoin,
+  TrendingCoin,
+} from './market-data.service';
+import { coinRegistryService } from './coin-registry.service';
+
+export type { CoinDetail, CoinPrice } from './market-data.service';
 
 // Cache for API responses
 const cache = new Map<string, { data: any; timestamp: number }>();
@@ -18,49 +26,9 @@ const setCachedData = (key: string, data: any): void => {
   cache.set(key, { data, timestamp: Date.now() });
 };
 
-// Symbol to CoinGecko ID mapping
-const symbolToId: Record<string, string> = {
-  'BTC': 'bitcoin',
-  'ETH': 'ethereum',
-  'BNB': 'binancecoin',
-  'SOL': 'solana',
-  'XRP': 'ripple',
-  'ADA': 'cardano',
-  'DOGE': 'dogecoin',
-  'MATIC': 'matic-network',
-  'DOT': 'polkadot',
-  'AVAX': 'avalanche-2',
-  'LINK': 'chainlink',
-  'UNI': 'uniswap',
-  'ATOM': 'cosmos',
-  'LTC': 'litecoin',
-  'BCH': 'bitcoin-cash',
-};
-
-export interface CoinPrice {
-  symbol: string;
-  name: string;
-  current_price: number;
-  price_change_24h: number;
-  price_change_percentage_24h: number;
-  market_cap: number;
-  total_volume: number;
-  high_24h: number;
-  low_24h: number;
-  image?: string;
-}
-
-export interface CoinDetail extends CoinPrice {
-  description?: string;
-  market_cap_rank?: number;
-  circulating_supply?: number;
-  total_supply?: number;
-  max_supply?: number;
-}
-
 export const cryptoService = {
-  // Get current prices for multiple coins
-  async getPrices(symbols: string[]): Promise<CoinPrice[]> {
+  // Get current prices for multiple coins (tickers or coin IDs)
+  async getPrices(symbols: string[]): Promise<MarketCoin[]> {
     if (!symbols || symbols.length === 0) {
       return [];
     }
@@ -70,30 +38,8 @@ export const cryptoService = {
     if (cached) return cached;
 
     try {
-      const ids = symbols.map(s => symbolToId[s.toUpperCase()] || s.toLowerCase()).join(',');
-      const response = await axios.get(`${COINGECKO_API}/coins/markets`, {
-        params: {
-          vs_currency: 'usd',
-          ids,
-          order: 'market_cap_desc',
-          per_page: 250,
-          page: 1,
-          sparkline: false,
-        },
-      });
-
-      const data = response.data.map((coin: any) => ({
-        symbol: coin.symbol.toUpperCase(),
-        name: coin.name,
-        current_price: coin.current_price,
-        price_change_24h: coin.price_change_24h,
-        price_change_percentage_24h: coin.price_change_percentage_24h,
-        market_cap: coin.market_cap,
-        total_volume: coin.total_volume,
-        high_24h: coin.high_24h,
-        low_24h: coin.low_24h,
-        image: coin.image,
-      }));
+      const ids = [...new Set((await coinRegistryService.resolveCoinIds(symbols)).values())];
+      const data = await marketDataService.getProvider().getMarkets({ ids, limit: 250 });
 
       setCachedData(cacheKey, data);
       return data;
@@ -103,6 +49,20 @@ export const cryptoService = {
     }
   },
 
+  // Current prices keyed by the upper-cased symbols asked for, so a ticker several
+  // coins share maps to the coin CoinList resolves it to
+  async getPriceMap(symbols: string[]): Promise<Map<string, MarketCoin>> {
+    const [ids, prices] = await Promise.all([coinRegistryService.resolveCoinIds(symbols), this.getPrices(symbols)]);
+    const byId = new Map(prices.map(price => [price.id, price]));
+
+    const priceMap = new Map<string, MarketCoin>();
+    ids.forEach((coinId, symbol) => {
+      const price = byId.get(coinId);
+      if (price) priceMap.set(symbol, price);
+    });
+    return priceMap;
+  },
+
   // Get detailed information for a single coin
   async getCoinDetail(symbol: string): Promise<CoinDetail> {
     const cacheKey = `detail_${symbol}`;
@@ -110,34 +70,8 @@ export const cryptoService = {
     if (cached) return cached;
 
     try {
-      const id = symbolToId[symbol.toUpperCase()] || symbol.toLowerCase();
-      const response = await axios.get(`${COINGECKO_API}/coins/${id}`, {
-        params: {
-          localization: false,
-          tickers: false,
-          community_data: false,
-          developer_data: false,
-        },
-      });
-
-      const coin = response.data;
-      const data: CoinDetail = {
-        symbol: coin.symbol.toUpperCase(),
-        name: coin.name,
-        current_price: coin.market_data.current_price.usd,
-        price_change_24h: coin.market_data.price_change_24h,
-        price_change_percentage_24h: coin.market_data.price_change_percentage_24h,
-        market_cap: coin.market_data.market_cap.usd,
-        total_volume: coin.market_data.total_volume.usd,
-        high_24h: coin.market_data.high_24h.usd,
-        low_24h: coin.market_data.low_24h.usd,
-        image: coin.image?.large,
-        description: coin.description?.en,
-        market_cap_rank: coin.market_cap_rank,
-        circulating_supply: coin.market_data.circulating_supply,
-        total_supply: coin.market_data.total_supply,
-        max_supply: coin.market_data.max_supply,
-      };
+      const id = await coinRegistryService.resolveCoinId(symbol);
+      const data = await marketDataService.getProvider().getCoinDetail(id);
 
       setCachedData(cacheKey, data);
       return data;
@@ -154,28 +88,7 @@ export const cryptoService = {
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${COINGECKO_API}/coins/markets`, {
-        params: {
-          vs_currency: 'usd',
-          order: 'market_cap_desc',
-          per_page: limit,
-          page: 1,
-          sparkline: false,
-        },
-      });
-
-      const data = response.data.map((coin: any) => ({
-        symbol: coin.symbol.toUpperCase(),
-        name: coin.name,
-        current_price: coin.current_price,
-        price_change_24h: coin.price_change_24h,
-        price_change_percentage_24h: coin.price_change_percentage_24h,
-        market_cap: coin.market_cap,
-        total_volume: coin.total_volume,
-        high_24h: coin.high_24h,
-        low_24h: coin.low_24h,
-        image: coin.image,
-      }));
+      const data = await marketDataService.getProvider().getMarkets({ limit });
 
       setCachedData(cacheKey, data);
       return data;
@@ -186,72 +99,24 @@ export const cryptoService = {
   },
 
   // Search for cryptocurrencies
-  async searchCoins(query: string): Promise<any[]> {
+  async searchCoins(query: string): Promise<CoinSearchResult[]> {
     try {
-      const response = await axios.get(`${COINGECKO_API}/search`, {
-        params: { query },
-      });
-
-      return response.data.coins.slice(0, 10).map((coin: any) => ({
-        id: coin.id,
-        name: coin.name,
-        symbol: coin.symbol.toUpperCase(),
-        image: coin.large,
-        market_cap_rank: coin.market_cap_rank,
-      }));
+      const results = await marketDataService.getProvider().search(query);
+      return results.slice(0, 10);
     } catch (error) {
       console.error('Error searching coins:', error);
       throw new Error('Failed to search cryptocurrencies');
     }
   },
 
-  // Get historical price data
-  async getHistoricalData(symbol: string, days: number = 7): Promise<any> {
-    const cacheKey = `historical_${symbol}_${days}`;
-    const cached = getCachedData(cacheKey);
-    if (cached) return cached;
-
-    try {
-      const id = symbolToId[symbol.toUpperCase()] || symbol.toLowerCase();
-      const response = await axios.get(`${COINGECKO_API}/coins/${id}/market_chart`, {
-        params: {
-          vs_currency: 'usd',
-          days,
-        },
-      });
-
-      const data = {
-        prices: response.data.prices.map(([timestamp, price]: [number, number]) => ({
-          timestamp,
-          price,
-        })),
-      };
-
-      setCachedData(cacheKey, data);
-      return data;
-    } catch (error) {
-      console.error('Error fetching historical data:', error);
-      throw new Error('Failed to fetch historical price data');
-    }
-  },
-
   // Get trending coins
-  async getTrendingCoins(): Promise<any[]> {
+  async getTrendingCoins(): Promise<TrendingCoin[]> {
     const cacheKey = 'trending';
     const cached = getCachedData(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await axios.get(`${COINGECKO_API}/search/trending`);
-      
-      const data = response.data.coins.map((item: any) => ({
-        id: item.item.id,
-        name: item.item.name,
-        symbol: item.item.symbol.toUpperCase(),
-        image: item.item.large,
-        market_cap_rank: item.item.market_cap_rank,
-        price_btc: item.item.price_btc,
-      }));
+      const data = await marketDataService.getProvider().getTrending();
 
       setCachedData(cacheKey, data);
       return data;
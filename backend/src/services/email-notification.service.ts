@@ -0,0 +1,223 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { alertEvents, AlertTriggeredEvent, describeTrigger } from './alert.service';
+import { mailService } from './mail.service';
+import { mailTemplates, SecurityEvent } from '../utils/mail-templates.utils';
+
+export const EMAIL_PREFERENCES = ['emailAlerts', 'emailDigest', 'emailSecurity'] as const;
+export type EmailPreference = typeof EMAIL_PREFERENCES[number];
+
+// Users without settings get the column defaults
+const DEFAULT_PREFERENCES: Record<EmailPreference, boolean> = {
+  emailAlerts: false,
+  emailDigest: false,
+  emailSecurity: true,
+};
+
+const DIGEST_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+interface Recipient {
+  email: string;
+  name: string;
+}
+
+export const emailNotificationService = {
+  /**
+   * The user's address if they want mail of this kind, otherwise null
+   */
+  async recipientFor(userId: string, preference: EmailPreference, db: Prisma.TransactionClient = prisma): Promise<Recipient | null> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        name: true,
+        userSettings: { select: { emailAlerts: true, emailDigest: true, emailSecurity: true } },
+      },
+    });
+    if (!user) return null;
+
+    const wanted = user.userSettings?.[preference] ?? DEFAULT_PREFERENCES[preference];
+
+    return wanted ? { email: user.email, name: user.name } : null;
+  },
+
+  /**
+   * Email an alert firing to its owner if they've opted in
+   */
+  async sendAlertEmail(event: AlertTriggeredEvent, db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const recipient = await this.recipientFor(event.alert.userId, 'emailAlerts', db);
+    if (!recipient) return false;
+
+    const { title, message } = describeTrigger(event);
+    await mailService.send({
+      to: recipient.email,
+      ...mailTemplates.alertFired({
+        name: recipient.name,
+        title,
+        message,
+        triggeredAt: event.alert.triggeredAt || new Date(),
+      }),
+    });
+    return true;
+  },
+
+  /**
+   * Tell the user about a change to their account unless they've switched these off
+   */
+  async sendSecurityEmail(
+    userId: string,
+    event: SecurityEvent,
+    details: { ipAddress?: string } = {},
+    db: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const recipient = await this.recipientFor(userId, 'emailSecurity', db);
+    if (!recipient) return false;
+
+    await mailService.send({
+      to: recipient.email,
+      ...mailTemplates.accountSecurity({
+        name: recipient.name,
+        event,
+        occurredAt: new Date(),
+        ipAddress: details.ipAddress,
+      }),
+    });
+    return true;
+  },
+
+  /**
+   * Email one user a summary of alert firings and other notifications since `since`.
+   * Quiet periods send nothing. Returns whether a digest went out.
+   */
+  async sendDigest(userId: string, since: Date, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const recipient = await this.recipientFor(userId, 'emailDigest', db);
+    if (!recipient) return false;
+
+    const triggers = await db.alertTrigger.findMany({
+      where: { alert: { userId }, triggeredAt: { gte: since, lt: now } },
+      include: { alert: true },
+      orderBy: { triggeredAt: 'asc' },
+    });
+
+    // Alert notifications duplicate the triggers above
+    const notifications = await db.notification.findMany({
+      where: { userId, type: { not: 'ALERT_TRIGGERED' }, createdAt: { gte: since, lt: now } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (triggers.length === 0 && notifications.length === 0) return false;
+
+    const alerts = triggers.map(trigger => ({
+      ...describeTrigger({
+        alert: trigger.alert,
+        coinId: null,
+        symbol: trigger.symbol,
+        price: trigger.price,
+        value: trigger.value,
+      }),
+      at: trigger.triggeredAt,
+    }));
+
+    await mailService.send({
+      to: recipient.email,
+      ...mailTemplates.dailyDigest({
+        name: recipient.name,
+        date: now,
+        alerts,
+        notifications: notifications.map(n => ({ title: n.title, message: n.message, at: n.createdAt })),
+      }),
+    });
+    return true;
+  },
+
+  /**
+   * Send digests to every opted-in user whose last one is a day old. Each user's window
+   * starts where their previous digest ended. Returns how many digests were sent.
+   */
+  async sendDueDigests(now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<number> {
+    const dueBefore = new Date(now.getTime() - DIGEST_PERIOD_MS);
+    const due = await db.userSettings.findMany({
+      where: {
+        emailDigest: true,
+        OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: dueBefore } }],
+      },
+      select: { userId: true, lastDigestAt: true },
+    });
+
+    let sent = 0;
+    for (const settings of due) {
+      try {
+        if (await this.sendDigest(settings.userId, settings.lastDigestAt || dueBefore, now, db)) sent++;
+
+        await db.userSettings.update({
+          where: { userId: settings.userId },
+          data: { lastDigestAt: now },
+        });
+      } catch (error) {
+        // Leave lastDigestAt alone so the next pass retries this user
+        console.error(`Digest email error for user ${settings.userId}:`, error);
+      }
+    }
+
+    return sent;
+  },
+
+  /**
+   * Email alert firings to users who opted in. Call once at startup.
+   */
+  subscribeToAlerts(): void {
+    alertEvents.on('triggered', (event: AlertTriggeredEvent) => {
+      this.sendAlertEmail(event).catch(error => console.error('Alert email error:', error));
+    });
+  },
+};
+
+/**
+ * Digest Scheduler - Checks hourly for users due their daily digest email
+ */
+export class DigestScheduler {
+  private interval: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private isSending = false;
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => this.run(), this.CHECK_INTERVAL_MS);
+    console.log(`✅ Digest scheduler started (interval: ${this.CHECK_INTERVAL_MS / 60000}m)`);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('🛑 Digest scheduler stopped');
+    }
+  }
+
+  /**
+   * Send whatever digests are due unless a pass is already running
+   */
+  run(): void {
+    if (this.isSending) return;
+
+    this.isSending = true;
+    emailNotificationService.sendDueDigests()
+      .then(sent => {
+        if (sent > 0) console.log(`📧 Sent ${sent} digest email(s)`);
+      })
+      .catch(error => console.error('❌ Digest run failed:', error))
+      .finally(() => {
+        this.isSending = false;
+      });
+  }
+}
+
+// Create singleton instance
+export const digestScheduler = new DigestScheduler();
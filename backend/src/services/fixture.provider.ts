@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiError } from '../utils/error.utils';
+import type {
+  CoinDetail,
+  CoinSearchResult,
+  MarketCoin,
+  MarketDataProvider,
+  PricePoint,
+  SpotPrice,
+  TrendingCoin,
+} from './market-data.service';
+
+export const DEFAULT_FIXTURE_DIR = path.join(__dirname, '..', '..', 'fixtures', 'market');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_LIMIT = 10;
+const TRENDING_LIMIT = 7;
+
+/**
+ * Case-insensitive match on ID, symbol or name, exact symbol matches first
+ */
+export const searchCoins = (coins: MarketCoin[], query: string): CoinSearchResult[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  return coins
+    .filter(coin => coin.id.includes(q) || coin.symbol.toLowerCase().includes(q) || coin.name.toLowerCase().includes(q))
+    .sort((a, b) => Number(b.symbol.toLowerCase() === q) - Number(a.symbol.toLowerCase() === q))
+    .slice(0, SEARCH_LIMIT)
+    .map(coin => ({
+      id: coin.id,
+      name: coin.name,
+      symbol: coin.symbol,
+      image: coin.image,
+      market_cap_rank: coin.market_cap_rank ?? null,
+    }));
+};
+
+/**
+ * Stand-in for a trending list: the biggest 24h movers, priced in BTC
+ */
+export const trendingCoins = (coins: MarketCoin[]): TrendingCoin[] => {
+  const btcPrice = coins.find(coin => coin.id === 'bitcoin')?.current_price;
+
+  return [...coins]
+    .sort((a, b) => Math.abs(b.price_change_percentage_24h) - Math.abs(a.price_change_percentage_24h))
+    .slice(0, TRENDING_LIMIT)
+    .map(coin => ({
+      id: coin.id,
+      name: coin.name,
+      symbol: coin.symbol,
+      image: coin.image,
+      market_cap_rank: coin.market_cap_rank ?? null,
+      price_btc: btcPrice ? coin.current_price / btcPrice : undefined,
+    }));
+};
+
+export const spotPriceOf = (coin: MarketCoin): SpotPrice => ({
+  price: coin.current_price,
+  marketCap: coin.market_cap,
+  volume24h: coin.total_volume,
+  change24h: coin.price_change_24h,
+  changePercent24h: coin.price_change_percentage_24h,
+});
+
+/**
+ * Replays market data recorded as JSON, so development and tests run offline and give
+ * the same answers every time. Layout of `dir`:
+ *
+ *   markets.json         MarketCoin[] (required)
+ *   coins/<id>.json      CoinDetail, else the coin's markets.json row is used
+ *   history/<id>.json    PricePoint[]; shorter ranges are cut from the end
+ *   trending.json        TrendingCoin[], else the biggest movers in markets.json
+ *   spot.json            Record<coinId, SpotPrice>[] frames, returned in turn and
+ *                        looped, so synced prices move; else markets.json prices
+ *
+ * `npm run market:record` writes this layout from CoinGecko.
+ */
+export const createFixtureProvider = (dir: string = DEFAULT_FIXTURE_DIR): MarketDataProvider => {
+  const files = new Map<string, Promise<unknown>>();
+  let spotFrame = 0;
+
+  // Parsed contents of a fixture file, or null if there is none; read once
+  const load = <T>(file: string): Promise<T | null> => {
+    if (!files.has(file)) {
+      files.set(file, fs.readFile(path.join(dir, file), 'utf8').then(
+        text => JSON.parse(text) as unknown,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return null;
+          throw error;
+        }
+      ));
+    }
+    return files.get(file) as Promise<T | null>;
+  };
+
+  const markets = async (): Promise<MarketCoin[]> => {
+    const coins = await load<MarketCoin[]>('markets.json');
+    if (!coins) throw new Error(`No markets.json in market fixture directory ${dir}`);
+    return coins;
+  };
+
+  const coinFile = (folder: string, coinId: string): string => {
+    // IDs come from request paths; keep them inside the fixture directory
+    if (!/^[a-z0-9-]+$/i.test(coinId)) throw new ApiError(`Unknown coin: ${coinId}`, 404);
+    return path.join(folder, `${coinId}.json`);
+  };
+
+  return {
+    name: 'fixture',
+
+    async getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>> {
+      const frames = await load<Record<string, SpotPrice>[]>('spot.json');
+      let source: Record<string, SpotPrice>;
+
+      if (frames && frames.length > 0) {
+        source = frames[spotFrame % frames.length];
+        spotFrame++;
+      } else {
+        source = Object.fromEntries((await markets()).map(coin => [coin.id, spotPriceOf(coin)]));
+      }
+
+      return Object.fromEntries(coinIds.filter(id => source[id]).map(id => [id, source[id]]));
+    },
+
+    async getMarkets({ ids, limit }): Promise<MarketCoin[]> {
+      const coins = await markets();
+      return (ids ? coins.filter(coin => ids.includes(coin.id)) : coins).slice(0, limit);
+    },
+
+    async getCoinDetail(coinId: string): Promise<CoinDetail> {
+      const detail = await load<CoinDetail>(coinFile('coins', coinId));
+      if (detail) return detail;
+
+      const coin = (await markets()).find(c => c.id === coinId);
+      if (!coin) throw new ApiError(`No fixture data for ${coinId}`, 404);
+
+      return coin;
+    },
+
+    async getHistory(coinId: string, days: number): Promise<PricePoint[]> {
+      const points = await load<PricePoint[]>(coinFile('history', coinId));
+      if (!points) throw new ApiError(`No recorded history for ${coinId}`, 404);
+      if (points.length === 0) return [];
+
+      const from = points[points.length - 1].timestamp - days * DAY_MS;
+      return points.filter(point => point.timestamp >= from);
+    },
+
+    async search(query: string): Promise<CoinSearchResult[]> {
+      return searchCoins(await markets(), query);
+    },
+
+    async getTrending(): Promise<TrendingCoin[]> {
+      return (await load<TrendingCoin[]>('trending.json')) ?? trendingCoins(await markets());
+    },
+  };
+};
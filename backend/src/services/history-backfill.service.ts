@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { Prisma, HistoryBackfillCheckpoint } from '@prisma/client';
+import { prisma } from '../server';
+import { coinRegistryService } from './coin-registry.service';
+import { marketDataService, MarketDataProvider } from './market-data.service';
+import {
+  marketHistoryService,
+  CANDLE_INTERVALS,
+  CandleInterval,
+  CandleRange,
+  providerReachDays,
+} from './market-history.service';
+import { describeError, retryAfterMs } from './price-aggregator.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily candles for the long view, hourly for as far back as providers keep them
+export const BACKFILL_INTERVALS: CandleInterval[] = ['1d', '1h'];
+
+// Keep well under the public CoinGecko API's per-minute limit
+const DEFAULT_REQUEST_DELAY_MS = 2500;
+const DEFAULT_MAX_RETRIES = 3;
+// Wait after a 429 without Retry-After, doubled on each retry
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+
+export interface HistoryBackfillOptions {
+  // How far back to fill; hourly candles stop where the provider's hourly history does
+  days: number;
+  // Tickers or coin IDs; defaults to every active CoinList coin
+  coins?: string[];
+  intervals?: CandleInterval[];
+  // Fill again even where a checkpoint says the range is done
+  restart?: boolean;
+  requestDelayMs?: number;
+  maxRetries?: number;
+  rateLimitBackoffMs?: number;
+  provider?: MarketDataProvider;
+  now?: Date;
+  onProgress?: (progress: HistoryBackfillProgress) => void;
+}
+
+export interface HistoryBackfillProgress {
+  done: number;
+  total: number;
+  coinId: string;
+  interval: CandleInterval;
+  status: 'filled' | 'skipped' | 'failed';
+  candlesAdded: number;
+  error?: string;
+}
+
+export interface HistoryBackfillSummary {
+  total: number;
+  filled: number;
+  skipped: number;
+  failed: number;
+  candlesAdded: number;
+  durationMs: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits, server errors and dropped connections are worth another try
+const isRetryable = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (!error.response || error.response.status === 429 || error.response.status >= 500);
+
+// The checkpoint already covers the range, up to the candle still open at its end
+const isCovered = (checkpoint: HistoryBackfillCheckpoint | null, interval: CandleInterval, range: CandleRange): boolean =>
+  !!checkpoint?.coveredFrom &&
+  !!checkpoint.coveredTo &&
+  checkpoint.coveredFrom <= range.from &&
+  checkpoint.coveredTo.getTime() >= range.to.getTime() - CANDLE_INTERVALS[interval];
+
+// Widen the covered range when the new one overlaps it, else start over from the new one
+const mergeCoverage = (checkpoint: HistoryBackfillCheckpoint | null, range: CandleRange): CandleRange => {
+  const { coveredFrom, coveredTo } = checkpoint ?? {};
+  if (!coveredFrom || !coveredTo || coveredTo < range.from || coveredFrom > range.to) return range;
+
+  return {
+    from: coveredFrom < range.from ? coveredFrom : range.from,
+    to: coveredTo > range.to ? coveredTo : range.to,
+  };
+};
+
+export const historyBackfillService = {
+  /**
+   * Seed the candle store from the market data provider, one coin and interval at a
+   * time, pausing between requests and backing off when rate limited. Each finished
+   * step is checkpointed, so a run that is stopped or fails part-way resumes where it
+   * left off. Candles already stored are never overwritten.
+   */
+  async run(options: HistoryBackfillOptions, db: Prisma.TransactionClient = prisma): Promise<HistoryBackfillSummary> {
+    const startedAt = Date.now();
+    const now = options.now ?? new Date();
+    const provider = options.provider ?? marketDataService.getProvider();
+    const intervals = options.intervals ?? BACKFILL_INTERVALS;
+    const requestDelayMs = options.requestDelayMs ?? DEFAULT_REQUEST_DELAY_MS;
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const backoffMs = options.rateLimitBackoffMs ?? DEFAULT_RATE_LIMIT_BACKOFF_MS;
+
+    const coinIds = options.coins
+      ? [...new Set((await coinRegistryService.resolveCoinIds(options.coins, db)).values())]
+      : (await db.coinList.findMany({
+          where: { isActive: true },
+          select: { coinId: true },
+          orderBy: { coinId: 'asc' },
+        })).map(coin => coin.coinId);
+
+    const summary: HistoryBackfillSummary = {
+      total: coinIds.length * intervals.length,
+      filled: 0,
+      skipped: 0,
+      failed: 0,
+      candlesAdded: 0,
+      durationMs: 0,
+    };
+    let requested = false;
+
+    for (const coinId of coinIds) {
+      for (const interval of intervals) {
+        const report = (status: HistoryBackfillProgress['status'], candlesAdded = 0, error?: string) => {
+          summary[status]++;
+          summary.candlesAdded += candlesAdded;
+          options.onProgress?.({
+            done: summary.filled + summary.skipped + summary.failed,
+            total: summary.total,
+            coinId,
+            interval,
+            status,
+            candlesAdded,
+            error,
+          });
+        };
+
+        const days = Math.min(options.days, providerReachDays(interval));
+        if (days <= 0) {
+          report('skipped');
+          continue;
+        }
+
+        const range = { from: new Date(now.getTime() - days * DAY_MS), to: now };
+        const checkpoint = await db.historyBackfillCheckpoint.findUnique({
+          where: { coinId_interval: { coinId, interval } },
+        });
+        if (!options.restart && isCovered(checkpoint, interval, range)) {
+          report('skipped');
+          continue;
+        }
+
+        if (requested) await sleep(requestDelayMs);
+        requested = true;
+
+        let added: number | null = null;
+        let lastError: unknown = null;
+        for (let attempt = 0; added === null && attempt <= maxRetries; attempt++) {
+          try {
+            added = await marketHistoryService.backfillCandles(coinId, interval, range, now, provider, db);
+          } catch (error) {
+            lastError = error;
+            if (!isRetryable(error) || attempt === maxRetries) break;
+
+            const waitMs = Math.max(retryAfterMs(error), backoffMs * 2 ** attempt);
+            console.warn(`⏳ ${coinId} (${interval}): ${describeError(error)}, retrying in ${Math.round(waitMs / 1000)}s`);
+            await sleep(waitMs);
+          }
+        }
+
+        if (added === null) {
+          await db.historyBackfillCheckpoint.upsert({
+            where: { coinId_interval: { coinId, interval } },
+            update: { attempts: { increment: 1 }, lastError: describeError(lastError) },
+            create: { coinId, interval, attempts: 1, lastError: describeError(lastError) },
+          });
+          report('failed', 0, describeError(lastError));
+          continue;
+        }
+
+        const covered = mergeCoverage(checkpoint, range);
+        await db.historyBackfillCheckpoint.upsert({
+          where: { coinId_interval: { coinId, interval } },
+          update: {
+            coveredFrom: covered.from,
+            coveredTo: covered.to,
+            candlesAdded: { increment: added },
+            attempts: { increment: 1 },
+            lastError: null,
+          },
+          create: { coinId, interval, coveredFrom: covered.from, coveredTo: covered.to, candlesAdded: added, attempts: 1 },
+        });
+        report('filled', added);
+      }
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+    return summary;
+  },
+};
@@ -0,0 +1,185 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { createError } from '../utils/error.utils';
+import { Decimal, ZERO } from '../utils/decimal.utils';
+import {
+  costBasisService,
+  compareLedgerOrder,
+  isAcquisition,
+  isRemoval,
+  LedgerTransaction,
+} from './cost-basis.service';
+
+export const CASH_TRANSACTION_TYPES = ['DEPOSIT', 'WITHDRAW'] as const;
+
+export const isCashTransaction = (type: string): boolean => {
+  return (CASH_TRANSACTION_TYPES as readonly string[]).includes(type);
+};
+
+// Signed effect of one ledger entry on the portfolio's cash. Fees always come out of cash,
+// including on transfers, gifts and rewards that move no cash themselves.
+const cashFlow = (tx: Pick<LedgerTransaction, 'type' | 'quantity' | 'price' | 'fee'>): Decimal => {
+  const gross = tx.quantity.times(tx.price);
+
+  switch (tx.type) {
+    case 'DEPOSIT':
+    case 'SELL':
+      return gross.minus(tx.fee);
+    case 'WITHDRAW':
+    case 'BUY':
+      return gross.plus(tx.fee).negated();
+    default:
+      return tx.fee.negated();
+  }
+};
+
+export interface ReplayedHolding {
+  quantity: Decimal;
+  averageCost: Decimal;
+  openedAt: Date | null;
+}
+
+export const holdingsService = {
+  /**
+   * Replay one symbol's transactions into a running quantity and average cost.
+   * Throws a 400 ApiError if any SELL or removal takes the position below zero.
+   */
+  replay(transactions: LedgerTransaction[]): ReplayedHolding {
+    const ordered = [...transactions].sort(compareLedgerOrder);
+
+    let quantity = ZERO;
+    let averageCost = ZERO;
+    let openedAt: Date | null = null;
+
+    for (const tx of ordered) {
+      if (isAcquisition(tx.type)) {
+        const newQuantity = quantity.plus(tx.quantity);
+        averageCost = quantity.times(averageCost).plus(tx.quantity.times(tx.price)).div(newQuantity);
+        quantity = newQuantity;
+        openedAt = openedAt || tx.timestamp;
+      } else if (tx.type === 'SELL' || isRemoval(tx.type)) {
+        if (tx.quantity.gt(quantity)) {
+          throw createError(
+            `Insufficient ${tx.symbol} balance on ${tx.timestamp.toISOString()}: ` +
+            `available ${quantity}, requested ${tx.quantity}`,
+            400
+          );
+        }
+
+        quantity = quantity.minus(tx.quantity);
+        if (quantity.isZero()) {
+          averageCost = ZERO;
+          openedAt = null;
+        }
+      }
+    }
+
+    return { quantity, averageCost, openedAt };
+  },
+
+  /**
+   * Cash left after applying every transaction in the ledger
+   */
+  cashBalance(transactions: Array<Pick<LedgerTransaction, 'type' | 'quantity' | 'price' | 'fee'>>): Decimal {
+    return transactions.reduce((balance, tx) => balance.plus(cashFlow(tx)), ZERO);
+  },
+
+  /**
+   * Recompute the portfolio's cash balance from its ledger, replayed in timestamp order.
+   * Throws a 400 ApiError if the balance goes below zero at any point, so a backdated
+   * BUY can't be paid for by a DEPOSIT that only arrives later. Portfolios already below
+   * zero from before cash tracking may dip as far as their current balance, no further.
+   */
+  async syncCash(portfolioId: string, db: Prisma.TransactionClient = prisma): Promise<Decimal> {
+    const portfolio = await db.portfolio.findUniqueOrThrow({
+      where: { id: portfolioId },
+      select: { cashBalance: true, currency: true },
+    });
+
+    const transactions = await db.transaction.findMany({ where: { portfolioId } });
+    const floor = portfolio.cashBalance.lt(0) ? portfolio.cashBalance : ZERO;
+
+    let balance = ZERO;
+    for (const tx of [...transactions].sort(compareLedgerOrder)) {
+      const flow = cashFlow(tx);
+      if (flow.lt(0) && balance.plus(flow).lt(floor)) {
+        throw createError(
+          `Insufficient ${portfolio.currency} cash on ${tx.timestamp.toISOString()}: ` +
+          `available ${balance}, required ${flow.negated()}`,
+          400
+        );
+      }
+      balance = balance.plus(flow);
+    }
+
+    await db.portfolio.update({
+      where: { id: portfolioId },
+      data: { cashBalance: balance },
+    });
+
+    return balance;
+  },
+
+  /**
+   * Take the portfolio's write lock for the rest of the transaction so concurrent
+   * trades on it run one after another instead of both passing the balance check
+   */
+  async lockPortfolio(portfolioId: string, db: Prisma.TransactionClient): Promise<void> {
+    await db.portfolio.update({
+      where: { id: portfolioId },
+      data: { updatedAt: new Date() },
+    });
+  },
+
+  /**
+   * Recompute the Asset row and tax lots for a symbol from the portfolio's ledger
+   */
+  async syncHolding(
+    portfolioId: string,
+    symbol: string,
+    options: { name?: string } = {},
+    db: Prisma.TransactionClient = prisma
+  ): Promise<ReplayedHolding> {
+    const transactions = await db.transaction.findMany({ where: { portfolioId, symbol } });
+    const holding = this.replay(transactions);
+
+    const assets = await db.asset.findMany({
+      where: { portfolioId, symbol },
+      orderBy: { createdAt: 'asc' },
+    });
+    const [asset, ...duplicates] = assets;
+
+    // Older code paths could leave several rows for one symbol; keep only the first
+    if (duplicates.length > 0) {
+      await db.asset.deleteMany({ where: { id: { in: duplicates.map(a => a.id) } } });
+    }
+
+    if (holding.quantity.isZero()) {
+      if (asset) await db.asset.delete({ where: { id: asset.id } });
+    } else if (asset) {
+      await db.asset.update({
+        where: { id: asset.id },
+        data: {
+          quantity: holding.quantity,
+          purchasePrice: holding.averageCost,
+          purchaseDate: holding.openedAt || asset.purchaseDate,
+        },
+      });
+    } else {
+      await db.asset.create({
+        data: {
+          portfolioId,
+          symbol,
+          name: options.name || symbol,
+          quantity: holding.quantity,
+          purchasePrice: holding.averageCost,
+          purchaseDate: holding.openedAt || new Date(),
+        },
+      });
+    }
+
+    await costBasisService.rebuildLots(portfolioId, symbol, db);
+
+    return holding;
+  },
+};
@@ -0,0 +1,60 @@
+import { rateLimitService } from './rate-limit.service';
+
+// Failed sign-ins allowed before the account is locked
+const LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+// The first lock lasts this long and each further failure doubles it, up to the max
+const LOCKOUT_BASE_MS = parseInt(process.env.LOGIN_LOCKOUT_BASE_MS || '60000'); // 1 minute
+const LOCKOUT_MAX_MS = parseInt(process.env.LOGIN_LOCKOUT_MAX_MS || '3600000'); // 1 hour
+// Failures are forgotten this long after the first one in a run
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Emails are matched case-insensitively so "A@x.com" and "a@x.com" share a counter
+const accountKey = (email: string): string => email.trim().toLowerCase();
+const failureKey = (email: string): string => `login-failures:${accountKey(email)}`;
+const lockKey = (email: string): string => `login-lock:${accountKey(email)}`;
+
+/**
+ * How long the account stays locked after this many consecutive failures
+ */
+export const lockoutDurationMs = (failures: number): number => {
+  if (failures < LOCKOUT_THRESHOLD) return 0;
+  return Math.min(LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+};
+
+/**
+ * Progressive lockout per account, on top of the per-IP limits, so one account can't
+ * be guessed at from many addresses. Counted by email whether or not the account
+ * exists, so the lockout doesn't reveal which emails are registered.
+ */
+export const loginLockoutService = {
+  /**
+   * Milliseconds until the account can try again, or 0 if it isn't locked
+   */
+  async retryAfterMs(email: string, now: Date = new Date()): Promise<number> {
+    const lock = await rateLimitService.peek(lockKey(email), now);
+    return lock ? lock.resetAt.getTime() - now.getTime() : 0;
+  },
+
+  /**
+   * Count a failed attempt. Returns how long the account is now locked for, or 0.
+   */
+  async recordFailure(email: string, now: Date = new Date()): Promise<number> {
+    const { count } = await rateLimitService.hit(failureKey(email), FAILURE_WINDOW_MS, now);
+
+    const lockMs = lockoutDurationMs(count);
+    if (lockMs > 0) {
+      await rateLimitService.reset(lockKey(email));
+      await rateLimitService.hit(lockKey(email), lockMs, now);
+    }
+
+    return lockMs;
+  },
+
+  /**
+   * Clear the failure count after a completed sign-in
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await rateLimitService.reset(failureKey(email));
+    await rateLimitService.reset(lockKey(email));
+  },
+};
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Something that can put a message on the wire; swap in a fake to capture mail in tests
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_TRANSPORTS = ['smtp', 'console', 'file'] as const;
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+
+const DEFAULT_FROM = 'Bit Lover <no-reply@bitlover.local>';
+
+/**
+ * SMTP transport. Defaults to localhost:1025, where MailHog/Mailpit listen, so a local
+ * stand-in works with no configuration.
+ */
+export const createSmtpTransport = (options: {
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+} = {}): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host || 'localhost',
+    port: options.port || 1025,
+    secure: options.secure ?? false,
+    ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+/**
+ * Development transport that prints the text part to the console
+ */
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+/**
+ * Development transport that writes each message to `dir` as an .eml file you can open
+ * in a mail client
+ */
+export const createFileTransport = (dir: string): MailTransport => {
+  const boundary = 'bit-lover-mail';
+
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+
+      const eml = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+        `--${boundary}--`,
+        '',
+      ].join('\r\n');
+
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+      await fs.writeFile(path.join(dir, fileName), eml, 'utf8');
+    },
+  };
+};
+
+/**
+ * Build the transport named by MAIL_TRANSPORT (smtp, console or file). Console is the
+ * default so development never needs a mail server. Production has to name a real
+ * transport: the console one would print password reset links into the logs.
+ */
+export const createTransportFromEnv = (env: NodeJS.ProcessEnv = process.env): MailTransport => {
+  if (env.NODE_ENV === 'production' && (!env.MAIL_TRANSPORT || env.MAIL_TRANSPORT === 'console')) {
+    throw new Error('MAIL_TRANSPORT must be smtp or file in production');
+  }
+
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : undefined,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    case undefined:
+    case '':
+    case 'console':
+      return consoleTransport;
+    default:
+      throw new Error(`MAIL_TRANSPORT must be one of ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+};
+
+let transport: MailTransport | null = null;
+
+export const mailService = {
+  /**
+   * The active transport, built from the environment on first use
+   */
+  getTransport(): MailTransport {
+    if (!transport) transport = createTransportFromEnv();
+    return transport;
+  },
+
+  /**
+   * Replace the transport, e.g. with a capturing fake
+   */
+  setTransport(next: MailTransport): void {
+    transport = next;
+  },
+
+  async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send({ ...message, from: process.env.MAIL_FROM || DEFAULT_FROM });
+  },
+};
@@ -0,0 +1,149 @@
+import { createCoinCapProvider } from './coincap.provider';
+import { createCoinGeckoProvider } from './coingecko.provider';
+import { createFixtureProvider, DEFAULT_FIXTURE_DIR } from './fixture.provider';
+import { createSimulatedProvider } from './simulated.provider';
+
+export interface CoinPrice {
+  symbol: string;
+  name: string;
+  current_price: number;
+  price_change_24h: number;
+  price_change_percentage_24h: number;
+  market_cap: number;
+  total_volume: number;
+  high_24h: number;
+  low_24h: number;
+  image?: string;
+}
+
+export interface CoinDetail extends CoinPrice {
+  description?: string;
+  market_cap_rank?: number;
+  circulating_supply?: number;
+  total_supply?: number;
+  max_supply?: number;
+}
+
+/**
+ * A row of the markets list; `id` is the provider's coin ID (CoinList.coinId)
+ */
+export interface MarketCoin extends CoinDetail {
+  id: string;
+}
+
+/**
+ * Latest USD quote for one coin, as the price sync stores it
+ */
+export interface SpotPrice {
+  price: number;
+  marketCap: number | null;
+  volume24h: number | null;
+  change24h: number | null;
+  changePercent24h: number | null;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface CoinSearchResult {
+  id: string;
+  name: string;
+  symbol: string;
+  image?: string;
+  market_cap_rank?: number | null;
+}
+
+export interface TrendingCoin extends CoinSearchResult {
+  price_btc?: number;
+}
+
+/**
+ * Where market data comes from. Everything is keyed by coin ID; symbol lookup and
+ * caching stay in cryptoService, so a provider only has to fetch.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  /** Quotes for the given coins; coins the provider doesn't know are left out */
+  getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>>;
+  /** Coins by market cap, optionally only the given ones */
+  getMarkets(options: { ids?: string[]; limit: number }): Promise<MarketCoin[]>;
+  getCoinDetail(coinId: string): Promise<CoinDetail>;
+  getHistory(coinId: string, days: number): Promise<PricePoint[]>;
+  search(query: string): Promise<CoinSearchResult[]>;
+  getTrending(): Promise<TrendingCoin[]>;
+}
+
+export const MARKET_DATA_PROVIDERS = ['coingecko', 'coincap', 'fixture', 'simulated'] as const;
+export type MarketDataProviderName = typeof MARKET_DATA_PROVIDERS[number];
+
+// Providers whose prices are made up or recorded rather than fetched from a market
+export const OFFLINE_MARKET_DATA_PROVIDERS: readonly MarketDataProviderName[] = ['fixture', 'simulated'];
+
+export const isMarketDataProviderName = (value: string): value is MarketDataProviderName =>
+  (MARKET_DATA_PROVIDERS as readonly string[]).includes(value);
+
+/**
+ * Build a provider by name, configured from the environment. `fixture` replays JSON
+ * recorded under MARKET_FIXTURE_DIR; `simulated` random-walks the same fixture coins,
+ * so neither needs network access.
+ */
+export const createProvider = (name: MarketDataProviderName, env: NodeJS.ProcessEnv = process.env): MarketDataProvider => {
+  const fixtureDir = env.MARKET_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+
+  switch (name) {
+    case 'fixture':
+      return createFixtureProvider(fixtureDir);
+    case 'simulated':
+      return createSimulatedProvider({
+        fixtureDir,
+        seed: env.MARKET_SIM_SEED ? parseInt(env.MARKET_SIM_SEED, 10) : undefined,
+        volatility: env.MARKET_SIM_VOLATILITY ? parseFloat(env.MARKET_SIM_VOLATILITY) : undefined,
+        stepMs: env.MARKET_SIM_STEP_MS ? parseInt(env.MARKET_SIM_STEP_MS, 10) : undefined,
+      });
+    case 'coingecko':
+      return createCoinGeckoProvider({
+        baseUrl: env.CRYPTO_API_BASE_URL,
+        apiKey: env.CRYPTO_API_KEY,
+      });
+    case 'coincap':
+      return createCoinCapProvider({
+        baseUrl: env.COINCAP_API_BASE_URL,
+        apiKey: env.COINCAP_API_KEY,
+      });
+  }
+};
+
+/**
+ * The provider named by MARKET_DATA_PROVIDER (default coingecko)
+ */
+export const createProviderFromEnv = (env: NodeJS.ProcessEnv = process.env): MarketDataProvider => {
+  const name = env.MARKET_DATA_PROVIDER || 'coingecko';
+  if (!isMarketDataProviderName(name)) {
+    throw new Error(`MARKET_DATA_PROVIDER must be one of ${MARKET_DATA_PROVIDERS.join(', ')}`);
+  }
+  return createProvider(name, env);
+};
+
+let provider: MarketDataProvider | null = null;
+
+export const marketDataService = {
+  /**
+   * The configured provider, created from the environment on first use
+   */
+  getProvider(): MarketDataProvider {
+    if (!provider) {
+      provider = createProviderFromEnv();
+      console.log(`📈 Market data provider: ${provider.name}`);
+    }
+    return provider;
+  },
+
+  /**
+   * Swap the provider, e.g. for a fake in tests
+   */
+  setProvider(next: MarketDataProvider): void {
+    provider = next;
+  },
+};
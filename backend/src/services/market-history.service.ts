@@ -0,0 +1,284 @@
+import { Prisma, PriceCandle } from '@prisma/client';
+import { prisma } from '../server';
+import { Decimal } from '../utils/decimal.utils';
+import { marketDataService, MarketDataProvider, PricePoint } from './market-data.service';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Long enough for the 7-day volume average, the widest lookback any alert uses
+export const TICK_RETENTION_MS = 7 * DAY_MS;
+
+export const CANDLE_INTERVALS = {
+  '1m': MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '1h': HOUR_MS,
+  '1d': DAY_MS,
+} as const;
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// How long candles are kept; daily candles are kept for good
+export const CANDLE_RETENTION_MS: Record<CandleInterval, number | null> = {
+  '1m': 2 * DAY_MS,
+  '5m': 30 * DAY_MS,
+  '1h': 365 * DAY_MS,
+  '1d': null,
+};
+
+// The finest history providers offer, by how far back it goes (CoinGecko's rules).
+// 1m candles only ever come from our own syncs.
+const PROVIDER_GRANULARITY: { maxDays: number; interval: CandleInterval }[] = [
+  { maxDays: 1, interval: '5m' },
+  { maxDays: 90, interval: '1h' },
+  { maxDays: Infinity, interval: '1d' },
+];
+
+// Don't ask the provider to fill the same coin and interval more often than this
+const BACKFILL_COOLDOWN_MS = 15 * MINUTE_MS;
+// Fill from the provider when fewer than this share of the expected candles exist
+const MIN_COVERAGE = 0.9;
+
+export interface TickInput {
+  coinId: string;
+  price: Decimal;
+  volume24h?: Decimal | null;
+}
+
+export interface CandleRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Candle size for a chart going `days` back: the finest one providers can fill
+ */
+export const intervalForDays = (days: number): CandleInterval =>
+  (PROVIDER_GRANULARITY.find(g => days <= g.maxDays) ?? PROVIDER_GRANULARITY[PROVIDER_GRANULARITY.length - 1]).interval;
+
+/**
+ * How many days back providers still have history at `interval` or finer; 0 if never
+ */
+export const providerReachDays = (interval: CandleInterval): number =>
+  Math.max(0, ...PROVIDER_GRANULARITY
+    .filter(g => CANDLE_INTERVALS[g.interval] <= CANDLE_INTERVALS[interval])
+    .map(g => g.maxDays));
+
+export const isCandleInterval = (value: unknown): value is CandleInterval =>
+  typeof value === 'string' && value in CANDLE_INTERVALS;
+
+/**
+ * Start of the candle that `time` falls in
+ */
+export const candleOpenTime = (time: Date, interval: CandleInterval): Date => {
+  const ms = CANDLE_INTERVALS[interval];
+  return new Date(Math.floor(time.getTime() / ms) * ms);
+};
+
+/**
+ * Bucket provider price points into candles. Points carry no traded volume, so
+ * volume is left empty.
+ */
+export const candlesFromPoints = (coinId: string, points: PricePoint[], interval: CandleInterval) => {
+  const buckets = new Map<number, PricePoint[]>();
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    const openTime = candleOpenTime(new Date(point.timestamp), interval).getTime();
+    buckets.set(openTime, [...(buckets.get(openTime) ?? []), point]);
+  }
+
+  return [...buckets.entries()].map(([openTime, bucket]) => {
+    const prices = bucket.map(point => new Decimal(point.price));
+    return {
+      coinId,
+      interval,
+      openTime: new Date(openTime),
+      open: prices[0],
+      high: Decimal.max(...prices),
+      low: Decimal.min(...prices),
+      close: prices[prices.length - 1],
+      volume: null,
+      source: 'backfill',
+    };
+  });
+};
+
+const lastBackfillAt = new Map<string, number>();
+
+export const marketHistoryService = {
+  /**
+   * Store one sync's prices
+   */
+  async recordTicks(ticks: TickInput[], recordedAt: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<void> {
+    if (ticks.length === 0) return;
+
+    await db.priceTick.createMany({
+      data: ticks.map(tick => ({
+        coinId: tick.coinId,
+        price: tick.price,
+        volume24h: tick.volume24h ?? null,
+        recordedAt,
+      })),
+    });
+  },
+
+  /**
+   * Oldest recorded price for a coin at or after `since`, or null if there is none
+   */
+  async priceSince(coinId: string, since: Date, db: Prisma.TransactionClient = prisma): Promise<Decimal | null> {
+    const tick = await db.priceTick.findFirst({
+      where: { coinId, recordedAt: { gte: since } },
+      orderBy: { recordedAt: 'asc' },
+      select: { price: true },
+    });
+
+    return tick?.price ?? null;
+  },
+
+  /**
+   * Mean 24h volume across the ticks recorded since `since`, or null without any
+   */
+  async averageVolumeSince(coinId: string, since: Date, db: Prisma.TransactionClient = prisma): Promise<Decimal | null> {
+    const result = await db.priceTick.aggregate({
+      where: { coinId, recordedAt: { gte: since }, volume24h: { not: null } },
+      _avg: { volume24h: true },
+    });
+
+    return result._avg.volume24h;
+  },
+
+  /**
+   * Drop ticks that have aged out of the retention window; returns how many went
+   */
+  async pruneTicks(now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<number> {
+    const { count } = await db.priceTick.deleteMany({
+      where: { recordedAt: { lt: new Date(now.getTime() - TICK_RETENTION_MS) } },
+    });
+
+    return count;
+  },
+
+  /**
+   * Fold one sync's prices into the open candle of every interval. Providers only report
+   * a rolling 24h volume, which says nothing about trading within one candle, so volume
+   * is left empty as it is for backfilled candles. The high and low are only ever
+   * widened by conditional updates in the database, so two writers racing on the same
+   * candle can't narrow the range the other recorded.
+   */
+  async recordCandles(ticks: TickInput[], recordedAt: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<void> {
+    const intervals = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+
+    for (const tick of ticks) {
+      for (const interval of intervals) {
+        const key = { coinId: tick.coinId, interval, openTime: candleOpenTime(recordedAt, interval) };
+
+        await db.priceCandle.upsert({
+          where: { coinId_interval_openTime: key },
+          update: { close: tick.price },
+          create: { ...key, open: tick.price, high: tick.price, low: tick.price, close: tick.price },
+        });
+        await db.priceCandle.updateMany({
+          where: { ...key, high: { lt: tick.price } },
+          data: { high: tick.price },
+        });
+        await db.priceCandle.updateMany({
+          where: { ...key, low: { gt: tick.price } },
+          data: { low: tick.price },
+        });
+      }
+    }
+  },
+
+  /**
+   * Candles for a coin whose open time falls in the range, oldest first
+   */
+  async getCandles(
+    coinId: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<PriceCandle[]> {
+    return db.priceCandle.findMany({
+      where: { coinId, interval, openTime: { gte: candleOpenTime(range.from, interval), lte: range.to } },
+      orderBy: { openTime: 'asc' },
+    });
+  },
+
+  /**
+   * Fill missing candles in the range from the provider's history. Candles we already
+   * have are left alone, so synced data wins over backfilled data. Returns how many
+   * candles were added.
+   */
+  async backfillCandles(
+    coinId: string,
+    interval: CandleInterval,
+    range: CandleRange,
+    now: Date = new Date(),
+    provider: MarketDataProvider = marketDataService.getProvider(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    // Providers only go back a limited way at each granularity
+    const days = Math.max(1, Math.ceil((now.getTime() - range.from.getTime()) / DAY_MS));
+    if (CANDLE_INTERVALS[intervalForDays(days)] > CANDLE_INTERVALS[interval]) return 0;
+
+    const points = await provider.getHistory(coinId, days);
+    const from = candleOpenTime(range.from, interval).getTime();
+    const candles = candlesFromPoints(coinId, points, interval).filter(
+      candle => candle.openTime.getTime() >= from && candle.openTime <= range.to
+    );
+    if (candles.length === 0) return 0;
+
+    const have = await db.priceCandle.findMany({
+      where: { coinId, interval, openTime: { in: candles.map(candle => candle.openTime) } },
+      select: { openTime: true },
+    });
+    const taken = new Set(have.map(candle => candle.openTime.getTime()));
+    const missing = candles.filter(candle => !taken.has(candle.openTime.getTime()));
+    if (missing.length === 0) return 0;
+
+    const { count } = await db.priceCandle.createMany({ data: missing });
+    return count;
+  },
+
+  /**
+   * Candles for a range from our own history, first filling it from the provider when
+   * too much of it is missing. A failed backfill still returns what we have.
+   */
+  async loadCandles(coinId: string, interval: CandleInterval, range: CandleRange, now: Date = new Date()): Promise<PriceCandle[]> {
+    const candles = await this.getCandles(coinId, interval, range);
+
+    const span = Math.min(range.to.getTime(), now.getTime()) - candleOpenTime(range.from, interval).getTime();
+    const expected = Math.max(1, Math.floor(span / CANDLE_INTERVALS[interval]));
+    const key = `${coinId}:${interval}`;
+    const recentlyTried = now.getTime() - (lastBackfillAt.get(key) ?? 0) < BACKFILL_COOLDOWN_MS;
+
+    if (candles.length >= expected * MIN_COVERAGE || recentlyTried) return candles;
+
+    lastBackfillAt.set(key, now.getTime());
+    try {
+      const added = await this.backfillCandles(coinId, interval, range, now);
+      if (added === 0) return candles;
+      console.log(`📥 Backfilled ${added} ${interval} candle(s) for ${coinId}`);
+    } catch (error) {
+      console.error(`❌ Candle backfill for ${coinId} (${interval}) failed:`, error);
+      return candles;
+    }
+
+    return this.getCandles(coinId, interval, range);
+  },
+
+  /**
+   * Drop candles past their interval's retention; returns how many went
+   */
+  async pruneCandles(now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<number> {
+    let pruned = 0;
+    for (const [interval, retention] of Object.entries(CANDLE_RETENTION_MS)) {
+      if (retention === null) continue;
+      const { count } = await db.priceCandle.deleteMany({
+        where: { interval, openTime: { lt: new Date(now.getTime() - retention) } },
+      });
+      pruned += count;
+    }
+
+    return pruned;
+  },
+};
@@ -0,0 +1,103 @@
+import { Prisma, Notification, Transaction } from '@prisma/client';
+import { prisma } from '../server';
+import { alertEvents, AlertTriggeredEvent, describeTrigger } from './alert.service';
+import { Decimal } from '../utils/decimal.utils';
+
+export const NOTIFICATION_TYPES = ['ALERT_TRIGGERED', 'LARGE_FILL', 'SYNC_FAILURE'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Trades worth at least this much (in the trade's price currency) raise a LARGE_FILL
+export const LARGE_FILL_VALUE = new Decimal(process.env.LARGE_FILL_NOTIFY_VALUE || 10000);
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export const notificationService = {
+  /**
+   * Whether the user wants notifications; users without settings get them
+   */
+  async isEnabled(userId: string, db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const settings = await db.userSettings.findUnique({
+      where: { userId },
+      select: { notifications: true },
+    });
+
+    return settings?.notifications ?? true;
+  },
+
+  /**
+   * Store a notification for a user unless they've switched notifications off.
+   * Returns the notification, or null when it was skipped.
+   */
+  async notify(userId: string, input: NotificationInput, db: Prisma.TransactionClient = prisma): Promise<Notification | null> {
+    if (!(await this.isEnabled(userId, db))) return null;
+
+    return db.notification.create({
+      data: {
+        userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        data: input.data ? JSON.stringify(input.data) : null,
+      },
+    });
+  },
+
+  /**
+   * Raise a LARGE_FILL for each BUY or SELL at or above LARGE_FILL_VALUE
+   */
+  async notifyLargeFills(userId: string, transactions: Transaction[], db: Prisma.TransactionClient = prisma): Promise<void> {
+    for (const tx of transactions) {
+      if (tx.type !== 'BUY' && tx.type !== 'SELL') continue;
+
+      const value = tx.quantity.times(tx.price);
+      if (value.lt(LARGE_FILL_VALUE)) continue;
+
+      await this.notify(userId, {
+        type: 'LARGE_FILL',
+        title: `Large ${tx.type === 'BUY' ? 'buy' : 'sell'}: ${tx.quantity} ${tx.symbol}`,
+        message: `${tx.type === 'BUY' ? 'Bought' : 'Sold'} ${tx.quantity} ${tx.symbol} at $${tx.price.toFixed(2)} for $${value.toFixed(2)}.`,
+        data: { transactionId: tx.id, portfolioId: tx.portfolioId },
+      }, db);
+    }
+  },
+
+  /**
+   * Tell every user with an active alert that prices have stopped updating
+   */
+  async notifySyncFailure(reason: string, db: Prisma.TransactionClient = prisma): Promise<void> {
+    const users = await db.priceAlert.findMany({
+      where: { isActive: true },
+      distinct: ['userId'],
+      select: { userId: true },
+    });
+
+    for (const { userId } of users) {
+      await this.notify(userId, {
+        type: 'SYNC_FAILURE',
+        title: 'Price updates delayed',
+        message: `Market prices could not be refreshed (${reason}). Your alerts will be checked again once prices are back.`,
+      }, db);
+    }
+  },
+
+  /**
+   * Turn alert firings into notifications. Call once at startup.
+   */
+  subscribeToAlerts(): void {
+    alertEvents.on('triggered', (event: AlertTriggeredEvent) => {
+      const { title, message } = describeTrigger(event);
+
+      this.notify(event.alert.userId, {
+        type: 'ALERT_TRIGGERED',
+        title,
+        message,
+        data: { alertId: event.alert.id, symbol: event.symbol, value: event.value },
+      }).catch(error => console.error('Alert notification error:', error));
+    });
+  },
+};
@@ -0,0 +1,105 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { hashPassword } from '../utils/password.utils';
+import { generateOpaqueToken, hashToken } from '../utils/token.utils';
+import { ApiError } from '../utils/error.utils';
+import { mailService } from './mail.service';
+import { mailTemplates } from '../utils/mail-templates.utils';
+
+// How long a reset link stays valid
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface ResetRecipient {
+  email: string;
+  name: string;
+}
+
+/**
+ * Delivers reset links to users; swap in a fake to capture links in tests
+ */
+export interface PasswordResetNotifier {
+  sendResetLink(recipient: ResetRecipient, link: string, expiresAt: Date): Promise<void>;
+}
+
+export const emailResetNotifier: PasswordResetNotifier = {
+  async sendResetLink(recipient, link, expiresAt) {
+    await mailService.send({
+      to: recipient.email,
+      ...mailTemplates.passwordReset({ name: recipient.name, link, expiresAt }),
+    });
+  },
+};
+
+const resetLink = (token: string): string => {
+  const appUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+  return `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+};
+
+let notifier: PasswordResetNotifier = emailResetNotifier;
+
+export const passwordResetService = {
+  /**
+   * Replace the notifier, e.g. with one that captures links
+   */
+  setNotifier(next: PasswordResetNotifier): void {
+    notifier = next;
+  },
+
+  /**
+   * Issue a reset token for the account with this email and send the link. Unknown
+   * emails do nothing, and the link is sent in the background, so callers can answer
+   * every request the same way. Earlier tokens stop working.
+   */
+  async requestReset(email: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<void> {
+    const user = await db.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true },
+    });
+    if (!user) return;
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(now.getTime() + RESET_TOKEN_TTL_MS);
+
+    await db.passwordResetToken.deleteMany({ where: { userId: user.id } });
+    await db.passwordResetToken.create({
+      data: { userId: user.id, tokenHash: hashToken(token), expiresAt },
+    });
+
+    notifier
+      .sendResetLink({ email: user.email, name: user.name }, resetLink(token), expiresAt)
+      .catch(error => console.error('Password reset delivery error:', error));
+  },
+
+  /**
+   * Spend a reset token on a new password. The token is claimed before the password
+   * changes, so it can't be used twice. Returns the user whose password changed.
+   */
+  async confirmReset(token: string, newPassword: string, now: Date = new Date()): Promise<{ userId: string }> {
+    const tokenHash = hashToken(token);
+    const hashedPassword = await hashPassword(newPassword);
+
+    return prisma.$transaction(async (tx) => {
+      const resetToken = await tx.passwordResetToken.findUnique({ where: { tokenHash } });
+
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+      });
+      if (!resetToken || count === 0) {
+        throw new ApiError('This reset link is invalid or has expired. Please request a new one.', 400);
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      });
+
+      // Any other outstanding links for the account die with this one
+      await tx.passwordResetToken.deleteMany({
+        where: { userId: resetToken.userId, usedAt: null },
+      });
+
+      return { userId: resetToken.userId };
+    });
+  },
+};
@@ -0,0 +1,288 @@
+import axios from 'axios';
+import {
+  createProvider,
+  isMarketDataProviderName,
+  marketDataService,
+  MarketDataProvider,
+  MARKET_DATA_PROVIDERS,
+  OFFLINE_MARKET_DATA_PROVIDERS,
+  SpotPrice,
+} from './market-data.service';
+
+export const PRICE_AGGREGATION_MODES = ['failover', 'median'] as const;
+export type PriceAggregationMode = typeof PRICE_AGGREGATION_MODES[number];
+
+const DEFAULT_TOLERANCE = 0.05; // 5% from the median
+const DEFAULT_COOLDOWN_MS = 60 * 1000; // 1 minute
+
+export interface SourcedSpotPrice extends SpotPrice {
+  // Provider name, or names joined with "+" when several agreed on a median
+  source: string;
+}
+
+export interface PriceSourceHealth {
+  name: string;
+  status: 'healthy' | 'failing' | 'cooling_down' | 'unused';
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  cooldownUntil: Date | null;
+  lastLatencyMs: number | null;
+  outliersRejected: number;
+}
+
+export interface PriceAggregatorOptions {
+  mode?: PriceAggregationMode;
+  // Largest relative distance from the median a quote may have; 0 turns rejection off
+  tolerance?: number;
+  // How long a source that just failed is skipped
+  cooldownMs?: number;
+}
+
+/**
+ * Thrown when no source could be asked or every source asked failed
+ */
+export class PriceSourcesUnavailableError extends Error {
+  constructor(readonly errors: { source: string; error: unknown }[]) {
+    super(
+      errors.length > 0
+        ? `All price sources failed (${errors.map(e => `${e.source}: ${describeError(e.error)}`).join('; ')})`
+        : 'All price sources are cooling down'
+    );
+    this.name = 'PriceSourcesUnavailableError';
+  }
+}
+
+export const describeError = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `HTTP ${error.response.status}` : error.code || 'unreachable';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Honour a 429's Retry-After (seconds) when it asks for longer than the default cooldown
+export const retryAfterMs = (error: unknown): number => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 429) return 0;
+  const seconds = parseInt(String(error.response.headers?.['retry-after'] ?? ''), 10);
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+interface SourceState {
+  provider: MarketDataProvider;
+  health: Omit<PriceSourceHealth, 'name' | 'status'>;
+}
+
+interface Quote {
+  source: string;
+  spot: SpotPrice;
+}
+
+/**
+ * Spot prices from several providers, in priority order. In failover mode the first
+ * source that answers wins, and later sources only fill in coins it lacks. In median
+ * mode every source is asked and each coin gets the median of the quotes that lie
+ * within the tolerance of it. A source that fails is skipped for a cooldown either way.
+ */
+export class PriceAggregator {
+  private readonly sources: SourceState[];
+  readonly mode: PriceAggregationMode;
+  readonly tolerance: number;
+  private readonly cooldownMs: number;
+
+  constructor(providers: MarketDataProvider[], options: PriceAggregatorOptions = {}) {
+    if (providers.length === 0) throw new Error('PriceAggregator needs at least one provider');
+
+    this.sources = providers.map(provider => ({
+      provider,
+      health: {
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        cooldownUntil: null,
+        lastLatencyMs: null,
+        outliersRejected: 0,
+      },
+    }));
+    this.mode = options.mode ?? 'failover';
+    this.tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  /**
+   * Prices for the coins the sources know about, each tagged with where it came from
+   */
+  async getSpotPrices(coinIds: string[], now: Date = new Date()): Promise<Record<string, SourcedSpotPrice>> {
+    return this.mode === 'median' ? this.medianPrices(coinIds, now) : this.failoverPrices(coinIds, now);
+  }
+
+  /**
+   * Per-source health for the status endpoint
+   */
+  getHealth(now: Date = new Date()): PriceSourceHealth[] {
+    return this.sources.map(({ provider, health }) => ({
+      name: provider.name,
+      status: health.cooldownUntil && health.cooldownUntil > now
+        ? 'cooling_down'
+        : health.consecutiveFailures > 0
+          ? 'failing'
+          : health.lastSuccessAt
+            ? 'healthy'
+            : 'unused',
+      ...health,
+    }));
+  }
+
+  private available(now: Date): SourceState[] {
+    return this.sources.filter(({ health }) => !health.cooldownUntil || health.cooldownUntil <= now);
+  }
+
+  // Ask one source, keeping its health up to date; null if it failed
+  private async query(
+    source: SourceState,
+    coinIds: string[],
+    now: Date,
+    errors: { source: string; error: unknown }[]
+  ): Promise<Record<string, SpotPrice> | null> {
+    const startedAt = Date.now();
+    try {
+      const prices = await source.provider.getSpotPrices(coinIds);
+      source.health.lastLatencyMs = Date.now() - startedAt;
+      source.health.lastSuccessAt = now;
+      source.health.consecutiveFailures = 0;
+      source.health.cooldownUntil = null;
+      return prices;
+    } catch (error) {
+      source.health.lastLatencyMs = Date.now() - startedAt;
+      source.health.lastFailureAt = now;
+      source.health.lastError = describeError(error);
+      source.health.consecutiveFailures++;
+      source.health.cooldownUntil = new Date(now.getTime() + Math.max(this.cooldownMs, retryAfterMs(error)));
+      console.error(`❌ Price source ${source.provider.name} failed: ${source.health.lastError}`);
+      errors.push({ source: source.provider.name, error });
+      return null;
+    }
+  }
+
+  private unavailable(errors: { source: string; error: unknown }[]): Error {
+    // With a single source, keep its own error so callers can still inspect it
+    return errors.length === 1 && this.sources.length === 1
+      ? (errors[0].error instanceof Error ? errors[0].error : new Error(String(errors[0].error)))
+      : new PriceSourcesUnavailableError(errors);
+  }
+
+  private async failoverPrices(coinIds: string[], now: Date): Promise<Record<string, SourcedSpotPrice>> {
+    const result: Record<string, SourcedSpotPrice> = {};
+    const errors: { source: string; error: unknown }[] = [];
+    let answered = false;
+    let missing = coinIds;
+
+    for (const source of this.available(now)) {
+      if (missing.length === 0) break;
+
+      const prices = await this.query(source, missing, now, errors);
+      if (!prices) continue;
+
+      answered = true;
+      for (const [coinId, spot] of Object.entries(prices)) {
+        if (missing.includes(coinId)) result[coinId] = { ...spot, source: source.provider.name };
+      }
+      missing = missing.filter(coinId => !result[coinId]);
+    }
+
+    if (!answered) throw this.unavailable(errors);
+    return result;
+  }
+
+  private async medianPrices(coinIds: string[], now: Date): Promise<Record<string, SourcedSpotPrice>> {
+    const errors: { source: string; error: unknown }[] = [];
+    const sources = this.available(now);
+    const answers = await Promise.all(sources.map(source => this.query(source, coinIds, now, errors)));
+
+    if (answers.every(prices => prices === null)) throw this.unavailable(errors);
+
+    const result: Record<string, SourcedSpotPrice> = {};
+    for (const coinId of coinIds) {
+      const quotes: Quote[] = [];
+      answers.forEach((prices, i) => {
+        const spot = prices?.[coinId];
+        if (spot && spot.price > 0) quotes.push({ source: sources[i].provider.name, spot });
+      });
+      if (quotes.length === 0) continue;
+
+      const agreed = this.rejectOutliers(coinId, quotes);
+      const price = median(agreed.map(q => q.spot.price));
+      // Market cap, volume and change come from the quote nearest the median
+      const nearest = agreed.reduce((best, q) =>
+        Math.abs(q.spot.price - price) < Math.abs(best.spot.price - price) ? q : best
+      );
+
+      result[coinId] = {
+        ...nearest.spot,
+        price,
+        source: agreed.map(q => q.source).join('+'),
+      };
+    }
+
+    return result;
+  }
+
+  private rejectOutliers(coinId: string, quotes: Quote[]): Quote[] {
+    if (this.tolerance <= 0 || quotes.length < 2) return quotes;
+
+    const mid = median(quotes.map(q => q.spot.price));
+    const agreed = quotes.filter(q => Math.abs(q.spot.price - mid) / mid <= this.tolerance);
+
+    for (const q of quotes.filter(quote => !agreed.includes(quote))) {
+      const state = this.sources.find(s => s.provider.name === q.source);
+      if (state) state.health.outliersRejected++;
+      console.warn(`⚠️  Rejected ${coinId} from ${q.source}: ${q.spot.price} is over ${this.tolerance * 100}% from median ${mid}`);
+    }
+
+    // Two sources that disagree can't outvote each other; trust the higher-priority one
+    return agreed.length > 0 ? agreed : [quotes[0]];
+  }
+}
+
+/**
+ * Aggregator over MARKET_PRICE_SOURCES (comma-separated provider names, default the
+ * MARKET_DATA_PROVIDER), combined per MARKET_PRICE_AGGREGATION. The configured market
+ * data provider is shared rather than created twice, so a simulated walk stays in step.
+ * In production only live providers may be sources: synced prices feed swaps and alerts.
+ */
+export const createAggregatorFromEnv = (env: NodeJS.ProcessEnv = process.env): PriceAggregator => {
+  const names = (env.MARKET_PRICE_SOURCES || env.MARKET_DATA_PROVIDER || 'coingecko')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const live = MARKET_DATA_PROVIDERS.filter(name => !OFFLINE_MARKET_DATA_PROVIDERS.includes(name));
+  const providers = [...new Set(names)].map(name => {
+    if (!isMarketDataProviderName(name)) {
+      throw new Error(`MARKET_PRICE_SOURCES entries must be one of ${MARKET_DATA_PROVIDERS.join(', ')}`);
+    }
+    if (env.NODE_ENV === 'production' && OFFLINE_MARKET_DATA_PROVIDERS.includes(name)) {
+      throw new Error(`${name} prices can't be synced in production; use ${live.join(' or ')}`);
+    }
+    const shared = marketDataService.getProvider();
+    return shared.name === name ? shared : createProvider(name, env);
+  });
+
+  const mode = env.MARKET_PRICE_AGGREGATION || 'failover';
+  if (!(PRICE_AGGREGATION_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`MARKET_PRICE_AGGREGATION must be one of ${PRICE_AGGREGATION_MODES.join(', ')}`);
+  }
+
+  return new PriceAggregator(providers, {
+    mode: mode as PriceAggregationMode,
+    tolerance: env.MARKET_PRICE_TOLERANCE ? parseFloat(env.MARKET_PRICE_TOLERANCE) : undefined,
+    cooldownMs: env.MARKET_SOURCE_COOLDOWN_MS ? parseInt(env.MARKET_SOURCE_COOLDOWN_MS, 10) : undefined,
+  });
+};
@@ -1,25 +1,36 @@
 import { PrismaClient } from '@prisma/client';
 import axios from 'axios';
+import { alertService, PriceQuote } from './alert.service';
+import { coinRegistryService } from './coin-registry.service';
+import { createAggregatorFromEnv, PriceAggregator, PriceSourcesUnavailableError } from './price-aggregator.service';
+import { marketHistoryService } from './market-history.service';
+import { notificationService } from './notification.service';
+import { Decimal } from '../utils/decimal.utils';
 
 const prisma = new PrismaClient();
 
-interface CoinGeckoPriceData {
-  [key: string]: {
-    usd: number;
-    usd_market_cap?: number;
-    usd_24h_vol?: number;
-    usd_24h_change?: number;
-  };
-}
-
 /**
- * Price Sync Service - Syncs cryptocurrency prices from CoinGecko every 10 seconds
+ * Price Sync Service - Syncs cryptocurrency prices from the configured price sources every 10 seconds
  */
 export class PriceSyncService {
-  private syncInterval: NodeJS.Timeout | null = null;
+  private syncTimer: NodeJS.Timeout | null = null;
   private readonly SYNC_INTERVAL_MS = 10000; // 10 seconds
-  private readonly COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+  private readonly PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly COIN_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 day
+  private readonly FAILURE_NOTIFY_AFTER = 3; // consecutive failed syncs before users hear about it
   private isRunning = false;
+  private lastPrunedAt = 0;
+  private lastCoinRefreshAt = 0;
+  private consecutiveFailures = 0;
+  private lastSuccessAt: Date | null = null;
+
+  // Without an explicit aggregator, one is built from the environment on first sync
+  constructor(private aggregator: PriceAggregator | null = null) {}
+
+  private get sources(): PriceAggregator {
+    if (!this.aggregator) this.aggregator = createAggregatorFromEnv();
+    return this.aggregator;
+  }
 
   /**
    * Start the price sync service
@@ -33,13 +44,9 @@ export class PriceSyncService {
     console.log('🚀 Starting price sync service...');
     this.isRunning = true;
 
-    // Run immediately on start
+    // Run immediately on start, then 10 seconds after each sync finishes
     await this.syncPrices();
-
-    // Then run every 10 seconds
-    this.syncInterval = setInterval(async () => {
-      await this.syncPrices();
-    }, this.SYNC_INTERVAL_MS);
+    this.scheduleNextSync();
 
     console.log(`✅ Price sync service started (interval: ${this.SYNC_INTERVAL_MS / 1000}s)`);
   }
@@ -48,18 +55,32 @@ export class PriceSyncService {
    * Stop the price sync service
    */
   stop(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
+    if (this.isRunning) {
+      if (this.syncTimer) clearTimeout(this.syncTimer);
+      this.syncTimer = null;
       this.isRunning = false;
       console.log('🛑 Price sync service stopped');
     }
   }
 
   /**
-   * Sync prices from CoinGecko API
+   * Queue the next sync. Waiting for each sync to finish before timing the next, rather
+   * than firing on a fixed interval, means a slow one (provider timeouts, failing over
+   * between sources) is never overlapped by another.
    */
-  private async syncPrices(): Promise<void> {
+  private scheduleNextSync(): void {
+    if (!this.isRunning) return;
+
+    this.syncTimer = setTimeout(async () => {
+      await this.syncPrices();
+      this.scheduleNextSync();
+    }, this.SYNC_INTERVAL_MS);
+  }
+
+  /**
+   * Sync prices from the price sources, then check price alerts against them
+   */
+  async syncPrices(): Promise<void> {
     const startTime = Date.now();
 
     try {
@@ -74,61 +95,74 @@ export class PriceSyncService {
         return;
       }
 
-      // Build comma-separated list of coin IDs for CoinGecko API
-      const coinIds = coins.map((c) => c.coinId).join(',');
-
-      // Fetch prices from CoinGecko
-      const url = `${this.COINGECKO_API_BASE}/simple/price`;
-      const params = {
-        ids: coinIds,
-        vs_currencies: 'usd',
-        include_market_cap: true,
-        include_24hr_vol: true,
-        include_24hr_change: true,
-      };
-
-      const response = await axios.get<CoinGeckoPriceData>(url, { params });
-      const priceData = response.data;
+      // Fetch prices for every active coin
+      const priceData = await this.sources.getSpotPrices(coins.map((c) => c.coinId));
 
       // Update database with new prices
       let updatedCount = 0;
+      const quotes: PriceQuote[] = [];
       const updatePromises = coins.map(async (coin) => {
         const data = priceData[coin.coinId];
-        if (data && data.usd) {
+        if (data && data.price) {
           await prisma.marketPrice.upsert({
             where: { coinId: coin.coinId },
             update: {
-              currentPrice: data.usd,
-              marketCap: data.usd_market_cap || null,
-              volume24h: data.usd_24h_vol || null,
-              priceChange24h: data.usd_24h_change || null,
-              priceChangePerc24h: data.usd_24h_change || null,
+              currentPrice: data.price,
+              marketCap: data.marketCap || null,
+              volume24h: data.volume24h || null,
+              priceChange24h: data.change24h ?? null,
+              priceChangePerc24h: data.changePercent24h ?? null,
+              source: data.source,
               lastUpdated: new Date(),
             },
             create: {
               coinId: coin.coinId,
               symbol: coin.symbol,
               name: coin.name,
-              currentPrice: data.usd,
-              marketCap: data.usd_market_cap || null,
-              volume24h: data.usd_24h_vol || null,
-              priceChange24h: data.usd_24h_change || null,
-              priceChangePerc24h: data.usd_24h_change || null,
+              currentPrice: data.price,
+              marketCap: data.marketCap || null,
+              volume24h: data.volume24h || null,
+              priceChange24h: data.change24h ?? null,
+              priceChangePerc24h: data.changePercent24h ?? null,
+              source: data.source,
               lastUpdated: new Date(),
             },
           });
           updatedCount++;
+          quotes.push({
+            coinId: coin.coinId,
+            price: new Decimal(data.price),
+            marketCap: data.marketCap ? new Decimal(data.marketCap) : null,
+            volume24h: data.volume24h ? new Decimal(data.volume24h) : null,
+          });
         }
       });
 
       await Promise.all(updatePromises);
 
+      // Neither failed history bookkeeping nor a failed alert check counts as a failed
+      // sync, and alerts are checked against the new prices whatever happened to history
+      await this.recordHistory(quotes);
+
+      try {
+        const triggered = await alertService.evaluate(quotes, prisma);
+        if (triggered.length > 0) {
+          console.log(`🔔 Triggered ${triggered.length} price alert(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Price alert evaluation failed:', error);
+      }
+
       const duration = Date.now() - startTime;
       const timestamp = new Date().toISOString();
 
       console.log(
         `✅ [${timestamp}] Synced ${updatedCount}/${coins.length} coins in ${duration}ms`
       );
+      this.consecutiveFailures = 0;
+      this.lastSuccessAt = new Date();
+
+      await this.refreshCoins();
     } catch (error) {
       if (axios.isAxiosError(error)) {
         console.error('❌ Price sync failed (API error):', error.message);
@@ -139,16 +173,93 @@ export class PriceSyncService {
       } else {
         console.error('❌ Price sync failed:', error);
       }
+      await this.recordFailure(error);
+    }
+  }
+
+  /**
+   * Count a failed sync and notify alert owners once per outage
+   */
+  private async recordFailure(error: unknown): Promise<void> {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures !== this.FAILURE_NOTIFY_AFTER) return;
+
+    const reason = error instanceof PriceSourcesUnavailableError
+      ? 'all price providers failed'
+      : !axios.isAxiosError(error)
+        ? 'internal error'
+        : error.response
+          ? `price provider returned ${error.response.status}`
+          : 'price provider unreachable';
+
+    try {
+      await notificationService.notifySyncFailure(reason, prisma);
+    } catch (notifyError) {
+      console.error('❌ Sync failure notification failed:', notifyError);
+    }
+  }
+
+  /**
+   * Keep this tick for alert lookbacks, fold it into the price candles, and drop
+   * aged-out ticks and candles about once an hour. Each step logs its own failure and
+   * doesn't stop the others.
+   */
+  private async recordHistory(quotes: PriceQuote[]): Promise<void> {
+    const now = new Date();
+
+    try {
+      await marketHistoryService.recordTicks(quotes, now, prisma);
+    } catch (error) {
+      console.error('❌ Price tick write failed:', error);
+    }
+
+    try {
+      await marketHistoryService.recordCandles(quotes, now, prisma);
+    } catch (error) {
+      console.error('❌ Price candle update failed:', error);
+    }
+
+    if (Date.now() - this.lastPrunedAt >= this.PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now();
+
+      try {
+        await marketHistoryService.pruneTicks(now, prisma);
+        await marketHistoryService.pruneCandles(now, prisma);
+      } catch (error) {
+        console.error('❌ Price history pruning failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Keep CoinList names, logos and market cap ranks current, about once a day. The
+   * ranks decide which coin a shared ticker resolves to.
+   */
+  private async refreshCoins(): Promise<void> {
+    if (Date.now() - this.lastCoinRefreshAt < this.COIN_REFRESH_INTERVAL_MS) return;
+    this.lastCoinRefreshAt = Date.now();
+
+    try {
+      const updated = await coinRegistryService.refreshMetadata(undefined, prisma);
+      if (updated > 0) {
+        console.log(`🪙 Refreshed details for ${updated} coin(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Coin details refresh failed:', error);
     }
   }
 
   /**
    * Get current sync status
    */
-  getStatus(): { isRunning: boolean; intervalMs: number } {
+  getStatus() {
     return {
       isRunning: this.isRunning,
       intervalMs: this.SYNC_INTERVAL_MS,
+      lastSuccessAt: this.lastSuccessAt,
+      consecutiveFailures: this.consecutiveFailures,
+      aggregation: { mode: this.sources.mode, tolerance: this.sources.tolerance },
+      sources: this.sources.getHealth(),
     };
   }
 }
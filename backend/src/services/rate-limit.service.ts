@@ -0,0 +1,82 @@
+// Drop expired counters at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where hit counters live. The in-memory store only counts hits seen by this process;
+ * when the API runs on several instances, plug in a shared store (e.g. Redis) with
+ * `rateLimitService.setStore` so they all count against the same buckets.
+ */
+export interface RateLimitStore {
+  /** Count a hit for a key. The window opens on the first hit and lasts windowMs. */
+  increment(key: string, windowMs: number, now?: Date): Promise<RateLimitHit>;
+  /** The current counter for a key, or null if there is no open window */
+  get(key: string, now?: Date): Promise<RateLimitHit | null>;
+  reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitHit>();
+  private lastSweep = 0;
+
+  async increment(key: string, windowMs: number, now: Date = new Date()): Promise<RateLimitHit> {
+    this.sweep(now);
+
+    const current = this.counters.get(key);
+    const hit = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+
+    this.counters.set(key, hit);
+    return { ...hit };
+  }
+
+  async get(key: string, now: Date = new Date()): Promise<RateLimitHit | null> {
+    const current = this.counters.get(key);
+    return current && current.resetAt > now ? { ...current } : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private sweep(now: Date): void {
+    if (now.getTime() - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now.getTime();
+
+    for (const [key, hit] of this.counters) {
+      if (hit.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export const rateLimitService = {
+  getStore(): RateLimitStore {
+    return store;
+  },
+
+  /**
+   * Swap the counter store, e.g. for a shared one or in tests
+   */
+  setStore(next: RateLimitStore): void {
+    store = next;
+  },
+
+  hit(key: string, windowMs: number, now: Date = new Date()): Promise<RateLimitHit> {
+    return store.increment(key, windowMs, now);
+  },
+
+  peek(key: string, now: Date = new Date()): Promise<RateLimitHit | null> {
+    return store.get(key, now);
+  },
+
+  reset(key: string): Promise<void> {
+    return store.reset(key);
+  },
+};
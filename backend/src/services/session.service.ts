@@ -0,0 +1,218 @@
+import { Prisma, Session } from '@prisma/client';
+import { prisma } from '../server';
+import { generateToken } from '../utils/jwt.utils';
+import { generateOpaqueToken, hashToken } from '../utils/token.utils';
+import { ApiError } from '../utils/error.utils';
+
+// A session ends after this long without a refresh
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// lastUsedAt is bumped on API use at most this often
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+const MAX_USER_AGENT_LENGTH = 255;
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  session: Session;
+}
+
+const clientData = (client: ClientInfo) => ({
+  userAgent: client.userAgent ? client.userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null,
+  ipAddress: client.ipAddress || null,
+});
+
+export const sessionService = {
+  /**
+   * Start a session for a user who just proved who they are
+   */
+  async createSession(
+    user: { id: string; email: string },
+    client: ClientInfo,
+    now: Date = new Date(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<SessionTokens> {
+    const refreshToken = generateOpaqueToken();
+    const session = await db.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashToken(refreshToken),
+        ...clientData(client),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+
+    return {
+      token: generateToken({ userId: user.id, email: user.email, sessionId: session.id }),
+      refreshToken,
+      session,
+    };
+  },
+
+  /**
+   * Trade a refresh token for a new access token and a new refresh token. The old
+   * refresh token stops working, and if it is ever presented again (or twice at once)
+   * someone has a copy of it, so the whole session is revoked.
+   */
+  async refresh(
+    refreshToken: string,
+    client: ClientInfo,
+    now: Date = new Date(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<SessionTokens> {
+    const refreshTokenHash = hashToken(refreshToken);
+    const session = await db.session.findUnique({
+      where: { refreshTokenHash },
+      include: { user: { select: { id: true, email: true } } },
+    });
+
+    if (!session) {
+      const rotated = await db.rotatedRefreshToken.findUnique({
+        where: { tokenHash: refreshTokenHash },
+        select: { sessionId: true },
+      });
+      if (rotated) await this.revokeForReuse(rotated.sessionId, now, db);
+      throw new ApiError('Session expired. Please log in again.', 401);
+    }
+    if (session.revokedAt || session.expiresAt <= now) {
+      throw new ApiError('Session expired. Please log in again.', 401);
+    }
+
+    // Spending the token claims its row, so of two requests racing with the same token
+    // only one gets through, and the other counts as reuse
+    try {
+      await db.rotatedRefreshToken.create({ data: { sessionId: session.id, tokenHash: refreshTokenHash, rotatedAt: now } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await this.revokeForReuse(session.id, now, db);
+        throw new ApiError('Session expired. Please log in again.', 401);
+      }
+      throw error;
+    }
+
+    const nextToken = generateOpaqueToken();
+    const { count } = await db.session.updateMany({
+      where: { id: session.id, refreshTokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(nextToken),
+        ...clientData(client),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+    // Revoked in the meantime
+    if (count === 0) {
+      throw new ApiError('Session expired. Please log in again.', 401);
+    }
+
+    // Forget tokens spent longer ago than a session can go without a refresh
+    await db.rotatedRefreshToken.deleteMany({
+      where: { sessionId: session.id, rotatedAt: { lt: new Date(now.getTime() - REFRESH_TOKEN_TTL_MS) } },
+    });
+
+    const { user, ...rest } = session;
+    return {
+      token: generateToken({ userId: user.id, email: user.email, sessionId: session.id }),
+      refreshToken: nextToken,
+      session: { ...rest, refreshTokenHash: hashToken(nextToken), lastUsedAt: now },
+    };
+  },
+
+  /**
+   * End a session whose refresh token was used after it had been rotated
+   */
+  async revokeForReuse(sessionId: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<void> {
+    const { count } = await db.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+    if (count > 0) {
+      console.warn(`🚨 Refresh token reused on session ${sessionId}; session revoked`);
+    }
+  },
+
+  /**
+   * Whether a session can still be used; bumps lastUsedAt now and then
+   */
+  async touch(sessionId: string, userId: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const session = await db.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true, lastUsedAt: true },
+    });
+
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= now) {
+      return false;
+    }
+
+    if (now.getTime() - session.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await db.session.update({
+        where: { id: sessionId },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return true;
+  },
+
+  /**
+   * The user's live sessions, most recently used first
+   */
+  async listSessions(userId: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma) {
+    return db.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: now } },
+      select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  },
+
+  /**
+   * End one of the user's sessions. Returns false if there was no such live session.
+   */
+  async revokeSession(userId: string, sessionId: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const { count } = await db.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+
+    return count > 0;
+  },
+
+  /**
+   * End the session a refresh token belongs to, e.g. on logout
+   */
+  async revokeByRefreshToken(refreshToken: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<boolean> {
+    const { count } = await db.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: now },
+    });
+
+    return count > 0;
+  },
+
+  /**
+   * End every session of the user, optionally keeping one. Returns how many ended.
+   */
+  async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string,
+    now: Date = new Date(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const { count } = await db.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: now },
+    });
+
+    return count;
+  },
+};
@@ -0,0 +1,199 @@
+import { ApiError } from '../utils/error.utils';
+import { createFixtureProvider, DEFAULT_FIXTURE_DIR, searchCoins, spotPriceOf, trendingCoins } from './fixture.provider';
+import type {
+  CoinDetail,
+  CoinSearchResult,
+  MarketCoin,
+  MarketDataProvider,
+  PricePoint,
+  SpotPrice,
+  TrendingCoin,
+} from './market-data.service';
+
+const DEFAULT_SEED = 42;
+// Standard deviation of the log return per step; about 3% a day at the default step
+const DEFAULT_VOLATILITY = 0.0003;
+const DEFAULT_STEP_MS = 10000; // one step per price sync
+// After a long pause, stop catching up after a day's worth of steps
+const MAX_CATCH_UP_STEPS = 8640;
+const MAX_HISTORY_POINTS = 2000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface SimulatedProviderOptions {
+  // Coins and starting prices come from this fixture directory's markets.json
+  fixtureDir?: string;
+  seed?: number;
+  volatility?: number;
+  stepMs?: number;
+  clock?: () => number;
+}
+
+interface SimulatedCoin {
+  base: MarketCoin;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+}
+
+/**
+ * mulberry32: a small seedable PRNG, so a given seed always walks the same way
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: () => number): number => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Point spacing CoinGecko uses for each range
+const historyInterval = (days: number): number => (days <= 1 ? 5 * MINUTE_MS : days <= 90 ? HOUR_MS : DAY_MS);
+
+/**
+ * Prices that random-walk (geometric Brownian motion, no drift) from the fixture coins'
+ * recorded prices, one step per `stepMs` of wall-clock time. Deterministic for a seed
+ * and a sequence of calls; useful for exercising alerts and charts offline.
+ */
+export const createSimulatedProvider = (options: SimulatedProviderOptions = {}): MarketDataProvider => {
+  const fixtures = createFixtureProvider(options.fixtureDir || DEFAULT_FIXTURE_DIR);
+  const seed = options.seed ?? DEFAULT_SEED;
+  const volatility = options.volatility ?? DEFAULT_VOLATILITY;
+  const stepMs = options.stepMs ?? DEFAULT_STEP_MS;
+  const clock = options.clock ?? Date.now;
+  const random = createRandom(seed);
+
+  let coins: Map<string, SimulatedCoin> | null = null;
+  let lastStepAt = 0;
+
+  const step = (coin: SimulatedCoin, sigma: number): void => {
+    coin.price *= Math.exp(sigma * gaussian(random) - (sigma * sigma) / 2);
+    coin.high = Math.max(coin.high, coin.price);
+    coin.low = Math.min(coin.low, coin.price);
+  };
+
+  // The walk as of now, started from the fixtures on first use
+  const market = async (): Promise<Map<string, SimulatedCoin>> => {
+    const now = clock();
+
+    if (!coins) {
+      const catalogue = await fixtures.getMarkets({ limit: Number.MAX_SAFE_INTEGER });
+      coins = new Map(catalogue.map(base => [base.id, {
+        base,
+        price: base.current_price,
+        open: base.current_price - base.price_change_24h,
+        high: Math.max(base.high_24h, base.current_price),
+        low: Math.min(base.low_24h, base.current_price),
+      }]));
+      lastStepAt = now;
+      return coins;
+    }
+
+    const steps = Math.floor((now - lastStepAt) / stepMs);
+    if (steps > 0) {
+      for (let i = 0; i < Math.min(steps, MAX_CATCH_UP_STEPS); i++) {
+        coins.forEach(coin => step(coin, volatility));
+      }
+      lastStepAt = steps > MAX_CATCH_UP_STEPS ? now : lastStepAt + steps * stepMs;
+    }
+
+    return coins;
+  };
+
+  const snapshot = (coin: SimulatedCoin): MarketCoin => {
+    const ratio = coin.price / coin.base.current_price;
+    return {
+      ...coin.base,
+      current_price: coin.price,
+      price_change_24h: coin.price - coin.open,
+      price_change_percentage_24h: (coin.price / coin.open - 1) * 100,
+      market_cap: coin.base.market_cap * ratio,
+      high_24h: coin.high,
+      low_24h: coin.low,
+    };
+  };
+
+  const snapshots = async (): Promise<MarketCoin[]> => {
+    return [...(await market()).values()].map(snapshot).sort((a, b) => b.market_cap - a.market_cap);
+  };
+
+  const find = async (coinId: string): Promise<SimulatedCoin> => {
+    const coin = (await market()).get(coinId);
+    if (!coin) throw new ApiError(`Unknown coin: ${coinId}`, 404);
+    return coin;
+  };
+
+  return {
+    name: 'simulated',
+
+    async getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>> {
+      const live = await market();
+      const prices: Record<string, SpotPrice> = {};
+      for (const id of coinIds) {
+        const coin = live.get(id);
+        if (coin) prices[id] = spotPriceOf(snapshot(coin));
+      }
+      return prices;
+    },
+
+    async getMarkets({ ids, limit }): Promise<MarketCoin[]> {
+      const all = await snapshots();
+      return (ids ? all.filter(coin => ids.includes(coin.id)) : all).slice(0, limit);
+    },
+
+    async getCoinDetail(coinId: string): Promise<CoinDetail> {
+      return snapshot(await find(coinId));
+    },
+
+    /**
+     * A walk backwards from the current price. Its own seed depends on the coin, the
+     * range and the current interval, so repeated calls agree until the next point.
+     */
+    async getHistory(coinId: string, days: number): Promise<PricePoint[]> {
+      const coin = await find(coinId);
+      const interval = historyInterval(days);
+      const count = Math.min(Math.ceil((days * DAY_MS) / interval), MAX_HISTORY_POINTS);
+      const now = clock();
+      const last = Math.floor(now / interval) * interval;
+      const walk = createRandom(hashString(`${seed}:${coinId}:${days}:${last}`));
+      const sigma = volatility * Math.sqrt(interval / stepMs);
+
+      const points: PricePoint[] = [{ timestamp: now, price: coin.price }];
+      let price = coin.price;
+      for (let i = 0; i < count; i++) {
+        price /= Math.exp(sigma * gaussian(walk) - (sigma * sigma) / 2);
+        points.push({ timestamp: last - i * interval, price });
+      }
+
+      return points.reverse();
+    },
+
+    async search(query: string): Promise<CoinSearchResult[]> {
+      return searchCoins(await snapshots(), query);
+    },
+
+    async getTrending(): Promise<TrendingCoin[]> {
+      return trendingCoins(await snapshots());
+    },
+  };
+};
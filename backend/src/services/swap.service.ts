@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { Prisma, Transaction } from '@prisma/client';
+import { coinRegistryService } from './coin-registry.service';
+import { holdingsService } from './holdings.service';
+import { createError } from '../utils/error.utils';
+import { Decimal, ZERO, quantityScale, PRICE_SCALE } from '../utils/decimal.utils';
+
+// Refuse to swap at a price the sync service hasn't refreshed recently
+const MAX_PRICE_AGE_MS = 5 * 60 * 1000;
+
+export interface SwapRequest {
+  portfolioId: string;
+  fromSymbol: string;
+  toSymbol: string;
+  quantity: Decimal;
+  notes?: string | null;
+}
+
+export interface SwapResult {
+  swapId: string;
+  sell: Transaction;
+  buy: Transaction;
+  rate: Decimal;
+  value: Decimal;
+}
+
+export const swapService = {
+  /**
+   * Latest synced USD price and coin name for the coin CoinList resolves a symbol to.
+   * Throws a 400 ApiError if there is no price and a 503 if it has gone stale.
+   */
+  async getMarketPrice(symbol: string, db: Prisma.TransactionClient): Promise<{ price: Decimal; name: string }> {
+    const coinId = await coinRegistryService.resolveCoinId(symbol, db);
+    const marketPrice = await db.marketPrice.findUnique({ where: { coinId } });
+
+    if (!marketPrice || marketPrice.currentPrice.lte(0)) {
+      throw createError(`No market price available for ${symbol}`, 400);
+    }
+
+    if (Date.now() - marketPrice.lastUpdated.getTime() > MAX_PRICE_AGE_MS) {
+      throw createError(`Market price for ${symbol} is out of date, try again shortly`, 503);
+    }
+
+    return {
+      price: marketPrice.currentPrice.toDecimalPlaces(PRICE_SCALE),
+      name: marketPrice.name,
+    };
+  },
+
+  /**
+   * Exchange one held coin for another inside the caller's transaction, recorded as a
+   * SELL and a BUY sharing a swapId and both valued at the current market price.
+   * The received quantity is rounded down to the coin's precision; the few cents of
+   * rounding stay in the portfolio's cash.
+   */
+  async swap(request: SwapRequest, db: Prisma.TransactionClient): Promise<SwapResult> {
+    const { portfolioId, fromSymbol, toSymbol, quantity, notes } = request;
+    const swapId = randomUUID();
+    const timestamp = new Date();
+
+    await holdingsService.lockPortfolio(portfolioId, db);
+
+    const { price: fromPrice } = await this.getMarketPrice(fromSymbol, db);
+    const { price: toPrice, name: toName } = await this.getMarketPrice(toSymbol, db);
+
+    const value = quantity.times(fromPrice);
+    const received = value.div(toPrice).toDecimalPlaces(quantityScale(toSymbol), Decimal.ROUND_DOWN);
+
+    if (received.lte(0)) {
+      throw createError(`Swap amount is too small to receive any ${toSymbol}`, 400);
+    }
+
+    const ledger = await db.transaction.findMany({ where: { portfolioId, symbol: fromSymbol } });
+    holdingsService.replay([
+      ...ledger,
+      {
+        id: 'pending',
+        type: 'SELL',
+        symbol: fromSymbol,
+        quantity,
+        price: fromPrice,
+        fee: ZERO,
+        timestamp,
+        acquiredAt: null,
+        createdAt: timestamp,
+      },
+    ]);
+
+    const sell = await db.transaction.create({
+      data: {
+        portfolioId,
+        type: 'SELL',
+        symbol: fromSymbol,
+        quantity,
+        price: fromPrice,
+        timestamp,
+        swapId,
+        notes: notes || `Swapped for ${received} ${toSymbol}`,
+      },
+    });
+
+    const buy = await db.transaction.create({
+      data: {
+        portfolioId,
+        type: 'BUY',
+        symbol: toSymbol,
+        quantity: received,
+        price: toPrice,
+        timestamp,
+        swapId,
+        notes: notes || `Swapped from ${quantity} ${fromSymbol}`,
+      },
+    });
+
+    await holdingsService.syncHolding(portfolioId, fromSymbol, {}, db);
+    await holdingsService.syncHolding(portfolioId, toSymbol, { name: toName }, db);
+    await holdingsService.syncCash(portfolioId, db);
+
+    return { swapId, sell, buy, rate: fromPrice.div(toPrice), value };
+  },
+};
@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { Prisma, Transaction } from '@prisma/client';
+import { costBasisService, LedgerTransaction } from './cost-basis.service';
+import { holdingsService } from './holdings.service';
+import { Decimal, ZERO, PRICE_SCALE, sumDecimals } from '../utils/decimal.utils';
+
+export interface TransferRequest {
+  fromPortfolioId: string;
+  toPortfolioId: string;
+  symbol: string;
+  quantity: Decimal;
+  timestamp: Date;
+  notes?: string | null;
+}
+
+export interface TransferResult {
+  transferId: string;
+  outgoing: Transaction;
+  incoming: Transaction[];
+}
+
+export const transferService = {
+  /**
+   * Move coins from one portfolio to another inside the caller's transaction.
+   * The source's lots are drawn down under its own cost basis method and re-opened in the
+   * destination with their unit cost, fees and acquisition dates, one TRANSFER_IN per lot.
+   * Throws a 400 ApiError if the source doesn't hold enough.
+   */
+  async transfer(request: TransferRequest, db: Prisma.TransactionClient): Promise<TransferResult> {
+    const { fromPortfolioId, toPortfolioId, symbol, quantity, timestamp, notes } = request;
+    const transferId = randomUUID();
+
+    // Lock in a fixed order so two opposite transfers can't deadlock each other
+    for (const portfolioId of [fromPortfolioId, toPortfolioId].sort()) {
+      await holdingsService.lockPortfolio(portfolioId, db);
+    }
+
+    const ledger = await db.transaction.findMany({
+      where: { portfolioId: fromPortfolioId, symbol },
+    });
+    const pending: LedgerTransaction = {
+      id: 'pending',
+      type: 'TRANSFER_OUT',
+      symbol,
+      quantity,
+      price: ZERO,
+      fee: ZERO,
+      timestamp,
+      acquiredAt: null,
+      createdAt: new Date(),
+    };
+
+    holdingsService.replay([...ledger, pending]);
+
+    // Work out which lots the move draws on, exactly as the source will once it's recorded
+    const method = await costBasisService.getPortfolioMethod(fromPortfolioId, db);
+    const slices = costBasisService.matchLots([...ledger, pending], method).flatMap(lot =>
+      lot.removals
+        .filter(removal => removal.transactionId === pending.id)
+        .map(removal => ({
+          quantity: removal.quantity,
+          unitPrice: lot.unitPrice.toDecimalPlaces(PRICE_SCALE),
+          fee: removal.quantity.times(lot.unitFee).toDecimalPlaces(PRICE_SCALE),
+          acquiredAt: lot.acquiredAt,
+        }))
+    );
+
+    const basis = sumDecimals(slices.map(slice => slice.quantity.times(slice.unitPrice)));
+    const asset = await db.asset.findFirst({ where: { portfolioId: fromPortfolioId, symbol } });
+
+    const outgoing = await db.transaction.create({
+      data: {
+        portfolioId: fromPortfolioId,
+        type: 'TRANSFER_OUT',
+        symbol,
+        quantity,
+        price: basis.div(quantity).toDecimalPlaces(PRICE_SCALE),
+        timestamp,
+        transferId,
+        notes: notes || null,
+      },
+    });
+
+    const incoming: Transaction[] = [];
+    for (const slice of slices) {
+      incoming.push(await db.transaction.create({
+        data: {
+          portfolioId: toPortfolioId,
+          type: 'TRANSFER_IN',
+          symbol,
+          quantity: slice.quantity,
+          price: slice.unitPrice,
+          fee: slice.fee,
+          timestamp,
+          acquiredAt: slice.acquiredAt,
+          transferId,
+          notes: notes || null,
+        },
+      }));
+    }
+
+    await holdingsService.syncHolding(fromPortfolioId, symbol, {}, db);
+    await holdingsService.syncHolding(toPortfolioId, symbol, { name: asset?.name }, db);
+
+    return { transferId, outgoing, incoming };
+  },
+};
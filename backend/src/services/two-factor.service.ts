@@ -0,0 +1,234 @@
+import { randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { ApiError } from '../utils/error.utils';
+import { comparePassword } from '../utils/password.utils';
+import { generateOpaqueToken, hashToken } from '../utils/token.utils';
+import { generateTotpSecret, otpauthUri, verifyTotp } from '../utils/totp.utils';
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Bit Lover';
+
+const RECOVERY_CODE_COUNT = 10;
+// Lowercase letters and digits without the look-alikes 0/o and 1/l
+const RECOVERY_CODE_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+// Recovery codes are typed by hand; ignore case, spaces and dashes
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]+/g, '');
+
+const generateRecoveryCode = (): string => {
+  const chars = [...randomBytes(10)].map(byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+};
+
+export const twoFactorService = {
+  async getStatus(userId: string, db: Prisma.TransactionClient = prisma) {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorEnabledAt: true },
+    });
+    if (!user) throw new ApiError('User not found', 404);
+
+    const recoveryCodesRemaining = user.twoFactorEnabled
+      ? await db.recoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining,
+    };
+  },
+
+  /**
+   * Start enrollment with a fresh secret. Nothing changes for login until `enable`
+   * confirms the user's app produces matching codes.
+   */
+  async beginSetup(userId: string, db: Prisma.TransactionClient = prisma): Promise<TwoFactorSetup> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+    if (!user) throw new ApiError('User not found', 404);
+    if (user.twoFactorEnabled) throw new ApiError('Two-factor authentication is already enabled', 400);
+
+    const secret = generateTotpSecret();
+    await db.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret, twoFactorLastStep: null },
+    });
+
+    const uri = otpauthUri(secret, user.email, TWO_FACTOR_ISSUER);
+    return { secret, otpauthUri: uri, qrCodeDataUrl: await QRCode.toDataURL(uri) };
+  },
+
+  /**
+   * Finish enrollment with a code from the app. Returns the recovery codes, which are
+   * only ever shown this once.
+   */
+  async enable(userId: string, code: string, now: Date = new Date()): Promise<string[]> {
+    return prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorSecret: true },
+      });
+      if (!user) throw new ApiError('User not found', 404);
+      if (user.twoFactorEnabled) throw new ApiError('Two-factor authentication is already enabled', 400);
+      if (!user.twoFactorSecret) throw new ApiError('Start two-factor setup first', 400);
+
+      const step = verifyTotp(user.twoFactorSecret, code, now);
+      if (step === null) throw new ApiError('Invalid verification code', 400);
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: now, twoFactorLastStep: step },
+      });
+
+      return this.replaceRecoveryCodes(userId, tx);
+    });
+  },
+
+  /**
+   * Turn 2FA off. Needs the password and a current code, so a stolen session alone
+   * can't remove the second factor.
+   */
+  async disable(userId: string, password: string, code: string, now: Date = new Date()): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, twoFactorEnabled: true },
+    });
+    if (!user) throw new ApiError('User not found', 404);
+    if (!user.twoFactorEnabled) throw new ApiError('Two-factor authentication is not enabled', 400);
+    if (!(await comparePassword(password, user.password))) throw new ApiError('Incorrect password', 400);
+    if (!(await this.verifyCode(userId, code, now))) throw new ApiError('Invalid verification code', 400);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null, twoFactorEnabledAt: null },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorChallenge.deleteMany({ where: { userId } }),
+    ]);
+  },
+
+  /**
+   * Swap all recovery codes for new ones after checking a current code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string, now: Date = new Date()): Promise<string[]> {
+    if (!(await this.verifyCode(userId, code, now))) throw new ApiError('Invalid verification code', 400);
+
+    return prisma.$transaction(tx => this.replaceRecoveryCodes(userId, tx));
+  },
+
+  async replaceRecoveryCodes(userId: string, db: Prisma.TransactionClient = prisma): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await db.recoveryCode.deleteMany({ where: { userId } });
+    await db.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    });
+
+    return codes;
+  },
+
+  /**
+   * Check a TOTP code or an unused recovery code for a user with 2FA on. Accepted codes
+   * are spent: a TOTP step can't be reused and a recovery code works once.
+   */
+  async verifyCode(userId: string, code: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<TwoFactorMethod | null> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true },
+    });
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+    const step = verifyTotp(user.twoFactorSecret, code, now, user.twoFactorLastStep);
+    if (step !== null) {
+      const { count } = await db.user.updateMany({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+        },
+        data: { twoFactorLastStep: step },
+      });
+      return count > 0 ? 'totp' : null;
+    }
+
+    const { count } = await db.recoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+      data: { usedAt: now },
+    });
+    return count > 0 ? 'recovery' : null;
+  },
+
+  /**
+   * Park a password-verified login until the second factor arrives. Returns the token
+   * the client sends back with the code.
+   */
+  async createChallenge(userId: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<string> {
+    const token = generateOpaqueToken();
+
+    await db.twoFactorChallenge.deleteMany({ where: { userId, expiresAt: { lte: now } } });
+    await db.twoFactorChallenge.create({
+      data: { userId, tokenHash: hashToken(token), expiresAt: new Date(now.getTime() + CHALLENGE_TTL_MS) },
+    });
+
+    return token;
+  },
+
+  /**
+   * Who a pending login challenge belongs to, or null if it has expired
+   */
+  async findChallengeUser(token: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma) {
+    const challenge = await db.twoFactorChallenge.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { expiresAt: true, user: { select: { id: true, email: true } } },
+    });
+
+    return challenge && challenge.expiresAt > now ? challenge.user : null;
+  },
+
+  /**
+   * Finish a login challenge with a TOTP or recovery code. Each challenge allows a few
+   * wrong codes before the user has to enter their password again.
+   */
+  async completeChallenge(token: string, code: string, now: Date = new Date(), db: Prisma.TransactionClient = prisma) {
+    const tokenHash = hashToken(token);
+    const challenge = await db.twoFactorChallenge.findUnique({ where: { tokenHash } });
+    if (!challenge || challenge.expiresAt <= now) {
+      throw new ApiError('Login expired. Please sign in again.', 401);
+    }
+
+    // Count the attempt before checking it, so parallel guesses can't exceed the limit
+    const { count } = await db.twoFactorChallenge.updateMany({
+      where: { id: challenge.id, attempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (count === 0) {
+      await db.twoFactorChallenge.deleteMany({ where: { id: challenge.id } });
+      throw new ApiError('Too many incorrect codes. Please sign in again.', 401);
+    }
+
+    const method = await this.verifyCode(challenge.userId, code, now, db);
+    if (!method) throw new ApiError('Invalid verification code', 401);
+
+    await db.twoFactorChallenge.deleteMany({ where: { id: challenge.id } });
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: challenge.userId },
+      select: { id: true, email: true, name: true },
+    });
+    return { user, method };
+  },
+};
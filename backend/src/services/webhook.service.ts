@@ -0,0 +1,270 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import axios, { LookupAddressEntry } from 'axios';
+import { Prisma, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import { prisma } from '../server';
+import { alertEvents, AlertTriggeredEvent, describeTrigger } from './alert.service';
+import { resolvePublicAddresses } from '../utils/network.utils';
+
+export const WEBHOOK_EVENTS = [
+  'alert.triggered',
+  'transaction.created',
+  'swap.created',
+  'transfer.created',
+  'webhook.test',
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m ... capped below
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is retried after this if the process dies mid-send
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent => {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+};
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`;
+
+/**
+ * Signature sent in X-Webhook-Signature. Receivers recompute it over
+ * `${X-Webhook-Timestamp}.${raw body}` with their secret and compare.
+ */
+export const signPayload = (secret: string, timestamp: string, body: string): string => {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+};
+
+const subscribes = (endpoint: Pick<WebhookEndpoint, 'events'>, event: WebhookEvent): boolean => {
+  const events = endpoint.events.split(',');
+  return event === 'webhook.test' || events.includes('*') || events.includes(event);
+};
+
+// Resolve hosts for delivery connections, refusing private addresses. Checking as the
+// connection is made means a hostname can't be re-pointed at one after it was validated.
+const publicLookup = async (hostname: string): Promise<[LookupAddressEntry[]]> => {
+  const addresses = await resolvePublicAddresses(hostname);
+  return [addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))];
+};
+
+const retryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+export const webhookService = {
+  /**
+   * Queue an event for every active endpoint of the user that subscribes to it.
+   * Returns the queued deliveries; the dispatcher sends them.
+   */
+  async enqueue(
+    userId: string,
+    event: WebhookEvent,
+    data: unknown,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<WebhookDelivery[]> {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { userId, isActive: true },
+    });
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const endpoint of endpoints.filter(endpoint => subscribes(endpoint, event))) {
+      deliveries.push(await this.enqueueFor(endpoint.id, event, data, db));
+    }
+
+    if (deliveries.length > 0) webhookDispatcher.wake();
+    return deliveries;
+  },
+
+  /**
+   * Queue an event for one endpoint regardless of its filters
+   */
+  async enqueueFor(
+    endpointId: string,
+    event: WebhookEvent,
+    data: unknown,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    const payload = JSON.stringify({ id, event, createdAt: new Date().toISOString(), data });
+
+    return db.webhookDelivery.create({
+      data: { id, endpointId, event, payload },
+    });
+  },
+
+  /**
+   * Send one delivery attempt and record the outcome. Non-2xx responses and network
+   * errors are rescheduled with exponential backoff until MAX_ATTEMPTS is reached.
+   */
+  async attempt(delivery: WebhookDelivery, endpoint: WebhookEndpoint, db: Prisma.TransactionClient = prisma): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    try {
+      // Outside production local receivers are fine; in production only public hosts.
+      // IP literals never reach the lookup, so they're checked up front.
+      const production = process.env.NODE_ENV === 'production';
+      if (production) await resolvePublicAddresses(new URL(endpoint.url).hostname);
+
+      const response = await axios.post(endpoint.url, delivery.payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Bit-Lover-Webhooks/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signPayload(endpoint.secret, timestamp, delivery.payload),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        // Send the signed bytes untouched
+        transformRequest: [(body: string) => body],
+        ...(production && { lookup: publicLookup }),
+      });
+
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        lastError = `Endpoint responded with ${response.status}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Request failed';
+    }
+
+    const now = new Date();
+    const attempts = delivery.attempts;
+
+    if (!lastError) {
+      return db.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SUCCEEDED', responseStatus, lastError: null, deliveredAt: now },
+      });
+    }
+
+    return db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: attempts >= MAX_ATTEMPTS
+        ? { status: 'FAILED', responseStatus, lastError }
+        : { nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)), responseStatus, lastError },
+    });
+  },
+
+  /**
+   * Claim a delivery and send it. Claiming bumps the attempt count and pushes
+   * nextAttemptAt out by a lease, so two dispatchers never send the same attempt.
+   * Returns the updated delivery, or null if someone else claimed it first.
+   */
+  async dispatch(
+    delivery: WebhookDelivery & { endpoint: WebhookEndpoint },
+    now: Date = new Date(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<WebhookDelivery | null> {
+    const { endpoint, ...queued } = delivery;
+
+    const { count } = await db.webhookDelivery.updateMany({
+      where: { id: queued.id, status: 'PENDING', nextAttemptAt: queued.nextAttemptAt },
+      data: {
+        attempts: { increment: 1 },
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+      },
+    });
+    if (count === 0) return null;
+
+    // Endpoints switched off after the event was queued don't get it
+    if (!endpoint.isActive) {
+      return db.webhookDelivery.update({
+        where: { id: queued.id },
+        data: { status: 'FAILED', lastError: 'Endpoint disabled' },
+      });
+    }
+
+    return this.attempt({ ...queued, attempts: queued.attempts + 1 }, endpoint, db);
+  },
+
+  /**
+   * Send every delivery that is due, oldest first. Returns how many attempts were made.
+   */
+  async processDue(now: Date = new Date(), db: Prisma.TransactionClient = prisma): Promise<number> {
+    const due = await db.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+      include: { endpoint: true },
+    });
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (await this.dispatch(delivery, now, db)) attempted++;
+    }
+
+    return attempted;
+  },
+
+  /**
+   * Forward alert firings to webhooks. Call once at startup.
+   */
+  subscribeToAlerts(): void {
+    alertEvents.on('triggered', (event: AlertTriggeredEvent) => {
+      const { title, message } = describeTrigger(event);
+
+      this.enqueue(event.alert.userId, 'alert.triggered', {
+        alert: event.alert,
+        symbol: event.symbol,
+        price: event.price,
+        value: event.value,
+        title,
+        message,
+      }).catch(error => console.error('Alert webhook error:', error));
+    });
+  },
+};
+
+/**
+ * Webhook Dispatcher - Sends queued deliveries every few seconds, and right away when woken
+ */
+export class WebhookDispatcher {
+  private interval: NodeJS.Timeout | null = null;
+  private readonly POLL_INTERVAL_MS = 5000; // 5 seconds
+  private isProcessing = false;
+
+  /**
+   * Start the dispatcher
+   */
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => this.wake(), this.POLL_INTERVAL_MS);
+    console.log(`✅ Webhook dispatcher started (interval: ${this.POLL_INTERVAL_MS / 1000}s)`);
+  }
+
+  /**
+   * Stop the dispatcher
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('🛑 Webhook dispatcher stopped');
+    }
+  }
+
+  /**
+   * Process due deliveries now unless a pass is already running
+   */
+  wake(): void {
+    if (!this.interval || this.isProcessing) return;
+
+    this.isProcessing = true;
+    webhookService.processDue()
+      .catch(error => console.error('❌ Webhook dispatch failed:', error))
+      .finally(() => {
+        this.isProcessing = false;
+      });
+  }
+}
+
+// Create singleton instance
+export const webhookDispatcher = new WebhookDispatcher();
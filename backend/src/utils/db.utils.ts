@@ -0,0 +1,42 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+// Wait before retrying, growing with each attempt and jittered so racing writers spread out
+const RETRY_BASE_DELAY_MS = 25;
+
+// Write conflicts (P2034), a transaction that couldn't start or ran out of time waiting
+// on the lock (P2028), and SQLite's busy timeout (P1008) all roll back and can be retried
+const RETRYABLE_CODES = ['P2034', 'P2028', 'P1008'];
+
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return RETRYABLE_CODES.includes(error.code);
+  }
+  return error instanceof Error && /database is locked|SQLITE_BUSY/i.test(error.message);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a callback inside a serializable interactive transaction, retrying when the
+ * database reports a write conflict or is too busy to take the transaction.
+ */
+export const withTransaction = async <T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        maxWait: 5000,
+        timeout: 10000,
+      });
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
+      await sleep(RETRY_BASE_DELAY_MS * attempt * (1 + Math.random()));
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import { Prisma } from '@prisma/client';
+
+export const Decimal = Prisma.Decimal;
+export type Decimal = Prisma.Decimal;
+
+export const ZERO = new Decimal(0);
+
+// Prices and fees are kept to 8 decimal places, fiat totals to 2
+export const PRICE_SCALE = 8;
+export const FIAT_SCALE = 2;
+
+// Quantity precision per asset; anything not listed trades in satoshi-sized steps
+const DEFAULT_QUANTITY_SCALE = 8;
+const QUANTITY_SCALES: Record<string, number> = {
+  USDT: 6,
+  USDC: 6,
+  XRP: 6,
+  ADA: 6,
+  TRX: 6,
+};
+
+export const quantityScale = (symbol: string): number => {
+  return QUANTITY_SCALES[symbol.toUpperCase()] ?? DEFAULT_QUANTITY_SCALE;
+};
+
+/**
+ * Parse a request value (number or numeric string) into a Decimal, or null if it isn't one
+ */
+export const parseDecimal = (value: unknown): Decimal | null => {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+
+  try {
+    const decimal = new Decimal(typeof value === 'string' ? value.trim() : value);
+    return decimal.isFinite() ? decimal : null;
+  } catch {
+    return null;
+  }
+};
+
+export const exceedsScale = (value: Decimal, scale: number): boolean => value.decimalPlaces() > scale;
+
+export const sumDecimals = (values: Decimal[]): Decimal => {
+  return values.reduce((sum, value) => sum.plus(value), ZERO);
+};
+
+/**
+ * Ratio as a plain number percentage, 0 when the base is zero
+ */
+export const percentOf = (value: Decimal, base: Decimal): number => {
+  return base.isZero() ? 0 : value.div(base).times(100).toNumber();
+};
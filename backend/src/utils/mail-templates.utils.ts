@@ -0,0 +1,144 @@
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const SECURITY_EVENTS = ['PASSWORD_CHANGED', 'TWO_FACTOR_ENABLED', 'TWO_FACTOR_DISABLED', 'RECOVERY_CODE_USED'] as const;
+export type SecurityEvent = typeof SECURITY_EVENTS[number];
+
+const SECURITY_EVENT_COPY: Record<SecurityEvent, { subject: string; summary: string }> = {
+  PASSWORD_CHANGED: {
+    subject: 'Your password was changed',
+    summary: 'The password for your Bit Lover account was just changed.',
+  },
+  TWO_FACTOR_ENABLED: {
+    subject: 'Two-factor authentication turned on',
+    summary: 'Two-factor authentication was turned on for your Bit Lover account. Signing in now needs a code from your authenticator app.',
+  },
+  TWO_FACTOR_DISABLED: {
+    subject: 'Two-factor authentication turned off',
+    summary: 'Two-factor authentication was turned off for your Bit Lover account. Signing in now only needs your password.',
+  },
+  RECOVERY_CODE_USED: {
+    subject: 'A recovery code was used to sign in',
+    summary: 'Someone signed in to your Bit Lover account with one of your two-factor recovery codes. That code no longer works.',
+  },
+};
+
+export interface DigestItem {
+  title: string;
+  message: string;
+  at: Date;
+}
+
+const appUrl = (): string => process.env.APP_URL || 'http://localhost:5173';
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const formatTime = (date: Date): string => date.toUTCString();
+
+const PREFERENCES_FOOTER = "You're receiving this because of your email preferences in Bit Lover";
+
+/**
+ * Wrap body HTML (already escaped) in the shared layout. The footer defaults to one
+ * pointing at the email preferences.
+ */
+const layout = (heading: string, body: string, footer: string = PREFERENCES_FOOTER): string => `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h2 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h2>
+      ${body}
+      <p style="margin:24px 0 0;font-size:12px;color:#71717a;">
+        ${escapeHtml(footer)} (<a href="${escapeHtml(appUrl())}" style="color:#71717a;">${escapeHtml(appUrl())}</a>).
+      </p>
+    </div>
+  </body>
+</html>`;
+
+const textFooter = (footer: string = PREFERENCES_FOOTER): string => `\n--\n${footer} (${appUrl()}).`;
+
+const itemsHtml = (items: DigestItem[]): string => {
+  return `<ul style="padding-left:20px;">${items.map(item => `
+        <li style="margin-bottom:8px;"><strong>${escapeHtml(item.title)}</strong><br>${escapeHtml(item.message)}<br><span style="font-size:12px;color:#71717a;">${escapeHtml(formatTime(item.at))}</span></li>`).join('')}
+      </ul>`;
+};
+
+const itemsText = (items: DigestItem[]): string => {
+  return items.map(item => `- ${item.title}\n  ${item.message}\n  ${formatTime(item.at)}`).join('\n');
+};
+
+export const mailTemplates = {
+  alertFired(input: { name: string; title: string; message: string; triggeredAt: Date }): RenderedMail {
+    return {
+      subject: input.title,
+      html: layout(input.title, `
+      <p>Hi ${escapeHtml(input.name)},</p>
+      <p>${escapeHtml(input.message)}</p>
+      <p style="font-size:12px;color:#71717a;">Triggered ${escapeHtml(formatTime(input.triggeredAt))}</p>`),
+      text: `Hi ${input.name},\n\n${input.message}\n\nTriggered ${formatTime(input.triggeredAt)}${textFooter()}`,
+    };
+  },
+
+  dailyDigest(input: { name: string; date: Date; alerts: DigestItem[]; notifications: DigestItem[] }): RenderedMail {
+    const day = input.date.toISOString().slice(0, 10);
+    const sections: { heading: string; items: DigestItem[] }[] = [
+      { heading: 'Alerts triggered', items: input.alerts },
+      { heading: 'Other activity', items: input.notifications },
+    ].filter(section => section.items.length > 0);
+
+    return {
+      subject: `Your Bit Lover digest for ${day}`,
+      html: layout(`Daily digest for ${day}`, `
+      <p>Hi ${escapeHtml(input.name)}, here's what happened in the last day.</p>${sections.map(section => `
+      <h3 style="margin:16px 0 8px;font-size:16px;">${escapeHtml(section.heading)}</h3>
+      ${itemsHtml(section.items)}`).join('')}`),
+      text: `Hi ${input.name}, here's what happened in the last day.\n${sections
+        .map(section => `\n${section.heading}\n${itemsText(section.items)}`)
+        .join('\n')}\n${textFooter()}`,
+    };
+  },
+
+  passwordReset(input: { name: string; link: string; expiresAt: Date }): RenderedMail {
+    const footer = "You're receiving this because someone asked to reset the password for your Bit Lover account";
+    const ignore = "If you didn't ask for this, ignore this email; your password won't change.";
+
+    return {
+      subject: 'Reset your Bit Lover password',
+      html: layout('Reset your password', `
+      <p>Hi ${escapeHtml(input.name)},</p>
+      <p>Use the button below to choose a new password. The link works once and expires ${escapeHtml(formatTime(input.expiresAt))}.</p>
+      <p><a href="${escapeHtml(input.link)}" style="display:inline-block;padding:10px 16px;background:#7c3aed;color:#ffffff;border-radius:6px;text-decoration:none;">Reset password</a></p>
+      <p style="font-size:12px;color:#71717a;word-break:break-all;">${escapeHtml(input.link)}</p>
+      <p>${escapeHtml(ignore)}</p>`, footer),
+      text: `Hi ${input.name},\n\nOpen this link to choose a new password. It works once and expires ${formatTime(input.expiresAt)}.\n\n${input.link}\n\n${ignore}${textFooter(footer)}`,
+    };
+  },
+
+  accountSecurity(input: { name: string; event: SecurityEvent; occurredAt: Date; ipAddress?: string }): RenderedMail {
+    const copy = SECURITY_EVENT_COPY[input.event];
+    const details = [
+      `Time: ${formatTime(input.occurredAt)}`,
+      ...(input.ipAddress ? [`IP address: ${input.ipAddress}`] : []),
+    ];
+    const warning = "If this wasn't you, reset your password right away.";
+
+    return {
+      subject: copy.subject,
+      html: layout(copy.subject, `
+      <p>Hi ${escapeHtml(input.name)},</p>
+      <p>${escapeHtml(copy.summary)}</p>
+      <p style="font-size:14px;color:#52525b;">${details.map(escapeHtml).join('<br>')}</p>
+      <p><strong>${escapeHtml(warning)}</strong></p>`),
+      text: `Hi ${input.name},\n\n${copy.summary}\n\n${details.join('\n')}\n\n${warning}${textFooter()}`,
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, benchmarking,
+// multicast and reserved ranges: nothing an outside receiver can live on
+const PRIVATE_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+const PRIVATE_IPV6: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const privateRanges = new BlockList();
+PRIVATE_IPV4.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv4'));
+PRIVATE_IPV6.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is reachable on the public internet. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 ranges too.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  return !privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Resolve a hostname (or IP literal) and make sure every address it points at is
+ * public. Throws if it doesn't resolve or any address is private.
+ */
+export const resolvePublicAddresses = async (hostname: string): Promise<{ address: string; family: number }[]> => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await lookup(host, { all: true });
+
+  if (addresses.length === 0) throw new Error(`${host} did not resolve`);
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) throw new Error(`${host} resolves to a private address (${blocked.address})`);
+
+  return addresses;
+};
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Random URL-safe token for links and refresh tokens
+ */
+export const generateOpaqueToken = (): string => randomBytes(32).toString('base64url');
+
+/**
+ * SHA-256 of a token, for storing it without keeping the token itself
+ */
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,95 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alertService, PriceQuote } from '../src/services/alert.service';
+import { createFixtureProvider } from '../src/services/fixture.provider';
+import { Decimal } from '../src/utils/decimal.utils';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let userId: string;
+let quotes: PriceQuote[];
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  await prisma.coinList.createMany({
+    data: [
+      { coinId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', marketCapRank: 1 },
+      { coinId: 'ethereum', symbol: 'ETH', name: 'Ethereum', marketCapRank: 2 },
+    ],
+  });
+  const user = await prisma.user.create({
+    data: { email: 'watcher@example.com', password: 'not-a-real-hash', name: 'Watcher' },
+  });
+  userId = user.id;
+
+  // Prices as a sync would see them, from the recorded market fixtures
+  const spot = await createFixtureProvider().getSpotPrices(['bitcoin', 'ethereum']);
+  quotes = Object.entries(spot).map(([coinId, data]) => ({
+    coinId,
+    price: new Decimal(data.price),
+    volume24h: data.volume24h ? new Decimal(data.volume24h) : null,
+  }));
+});
+
+after(teardownTestDatabase);
+
+test('fires price alerts whose condition the fixture prices meet, once', async () => {
+  const btc = quotes.find(quote => quote.coinId === 'bitcoin')!.price;
+  const eth = quotes.find(quote => quote.coinId === 'ethereum')!.price;
+
+  const btcAbove = await prisma.priceAlert.create({
+    data: { userId, symbol: 'BTC', condition: 'ABOVE', targetPrice: btc.minus(1000) },
+  });
+  await prisma.priceAlert.create({
+    data: { userId, symbol: 'BTC', condition: 'BELOW', targetPrice: btc.minus(1000) },
+  });
+  await prisma.priceAlert.create({
+    data: { userId, symbol: 'ETH', condition: 'ABOVE', targetPrice: eth.plus(1000) },
+  });
+  const ethBelow = await prisma.priceAlert.create({
+    data: { userId, symbol: 'eth', condition: 'BELOW', targetPrice: eth.plus(1) },
+  });
+
+  const triggered = await alertService.evaluate(quotes, prisma);
+
+  assert.deepEqual(
+    triggered.map(event => event.alert.id).sort(),
+    [btcAbove.id, ethBelow.id].sort()
+  );
+  const btcEvent = triggered.find(event => event.alert.id === btcAbove.id)!;
+  assert.equal(btcEvent.coinId, 'bitcoin');
+  assert.equal(btcEvent.price?.toString(), btc.toString());
+
+  const fired = await prisma.priceAlert.findUniqueOrThrow({
+    where: { id: btcAbove.id },
+    include: { triggers: true },
+  });
+  assert.equal(fired.isTriggered, true);
+  assert.equal(fired.triggers.length, 1);
+  assert.equal(fired.triggers[0].price?.toString(), btc.toString());
+
+  // ONCE alerts stay fired; nothing goes off a second time
+  assert.deepEqual(await alertService.evaluate(quotes, prisma), []);
+  assert.equal(await prisma.alertTrigger.count(), 2);
+});
+
+test('switches off expired alerts without firing them', async () => {
+  const now = new Date();
+  const expired = await prisma.priceAlert.create({
+    data: {
+      userId,
+      symbol: 'BTC',
+      condition: 'ABOVE',
+      targetPrice: new Decimal(1),
+      expiresAt: new Date(now.getTime() - 60 * 1000),
+    },
+  });
+
+  const triggered = await alertService.evaluate(quotes, prisma, now);
+
+  assert.equal(triggered.some(event => event.alert.id === expired.id), false);
+  const alert = await prisma.priceAlert.findUniqueOrThrow({ where: { id: expired.id } });
+  assert.equal(alert.isActive, false);
+  assert.equal(alert.isTriggered, false);
+});
@@ -0,0 +1,125 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { analyticsController } from '../src/controllers/analytics.controller';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let userId: string;
+
+interface Amount {
+  toString(): string;
+}
+
+interface TaxReport {
+  costBasisMethod: string;
+  summary: Record<'proceeds' | 'costBasis' | 'fees' | 'gain' | 'shortTermGain' | 'longTermGain', Amount> & {
+    disposalCount: number;
+  };
+  disposals: Array<{ quantity: Amount; gain: Amount; daysHeld: number; term: string }>;
+}
+
+// Call the controller the way the router would and capture what it answers
+const getTaxReport = async (query: Record<string, string>): Promise<{ status: number; body: TaxReport; sent?: string }> => {
+  const result = { status: 200, body: {} as TaxReport, sent: undefined as string | undefined };
+  const req = { user: { userId, email: 'filer@example.com', sessionId: 'test' }, query } as unknown as Request;
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(data: TaxReport) {
+      result.body = data;
+      return this;
+    },
+    setHeader() {
+      return this;
+    },
+    send(data: string) {
+      result.sent = data;
+      return this;
+    },
+  } as unknown as Response;
+
+  await analyticsController.getTaxReport(req, res);
+  return result;
+};
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  const user = await prisma.user.create({
+    data: { email: 'filer@example.com', password: 'not-a-real-hash', name: 'Filer' },
+  });
+  const { id: portfolioId } = await prisma.portfolio.create({ data: { userId: user.id, name: 'Main' } });
+  userId = user.id;
+
+  const trade = (type: string, date: string, quantity: number, price: number, fee = 0) =>
+    prisma.transaction.create({
+      data: { portfolioId, type, symbol: 'BTC', quantity, price, fee, timestamp: new Date(date), createdAt: new Date(date) },
+    });
+
+  await trade('BUY', '2023-01-10T00:00:00Z', 2, 100, 2);
+  await trade('BUY', '2024-03-01T00:00:00Z', 1, 300);
+  await trade('SELL', '2024-06-01T00:00:00Z', 2.5, 400, 5);
+  // Next tax year
+  await trade('SELL', '2025-01-15T00:00:00Z', 0.5, 500);
+});
+
+after(teardownTestDatabase);
+
+test('reports the year\'s disposals split into long and short term, with totals', async () => {
+  const { status, body } = await getTaxReport({ year: '2024' });
+
+  assert.equal(status, 200);
+  assert.equal(body.costBasisMethod, 'FIFO');
+  assert.deepEqual(
+    body.disposals.map(d => [d.quantity.toString(), d.daysHeld, d.term, d.gain.toString()]),
+    [
+      // 800 - 200 - (2 + 4): held 508 days
+      ['2', 508, 'LONG', '594'],
+      // 200 - 150 - 1: held 92 days
+      ['0.5', 92, 'SHORT', '49'],
+    ]
+  );
+
+  const { summary } = body;
+  assert.equal(summary.disposalCount, 2);
+  assert.equal(summary.proceeds.toString(), '1000');
+  assert.equal(summary.costBasis.toString(), '350');
+  assert.equal(summary.fees.toString(), '7');
+  assert.equal(summary.gain.toString(), '643');
+  assert.equal(summary.longTermGain.toString(), '594');
+  assert.equal(summary.shortTermGain.toString(), '49');
+});
+
+test('matches lots with the requested method and holding period', async () => {
+  const { body } = await getTaxReport({ year: '2024', method: 'lifo', longTermDays: '600' });
+
+  assert.equal(body.costBasisMethod, 'LIFO');
+  assert.deepEqual(
+    body.disposals.map(d => [d.quantity.toString(), d.term, d.gain.toString()]),
+    [
+      // 600 - 150 - (1.5 + 3)
+      ['1.5', 'SHORT', '445.5'],
+      // 400 - 300 - 2
+      ['1', 'SHORT', '98'],
+    ]
+  );
+  assert.equal(body.summary.gain.toString(), '543.5');
+  assert.equal(body.summary.longTermGain.toString(), '0');
+});
+
+test('ends the CSV with a totals row for the year', async () => {
+  const { sent } = await getTaxReport({ year: '2025', format: 'csv' });
+
+  const rows = (sent ?? '').trim().split(/\r?\n/);
+  assert.equal(rows.length, 3);
+  assert.match(rows[2], /^"?TOTAL 2025 \(FIFO\)"?,/);
+  assert.match(rows[2], /,250,150,0,100,,"?SHORT 100 \/ LONG 0"?$/);
+});
+
+test('rejects a missing tax year', async () => {
+  const { status } = await getTaxReport({});
+  assert.equal(status, 400);
+});
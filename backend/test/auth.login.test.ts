@@ -0,0 +1,56 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { callController } from './helpers/controller';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { authController } from '../src/controllers/auth.controller';
+
+const PASSWORD = 'correct horse battery';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+
+interface AuthResponse {
+  error?: string;
+  token?: string;
+  user?: { email: string };
+}
+
+const login = (email: string, password: string) =>
+  callController<AuthResponse>(authController.login, { body: { email, password } });
+
+before(async () => {
+  prisma = await setupTestDatabase();
+});
+
+after(teardownTestDatabase);
+
+test('stores the email lower-cased and signs in however it is typed', async () => {
+  const registered = await callController<AuthResponse>(authController.register, {
+    body: { email: ' Mixed.Case@Example.com ', password: PASSWORD, name: 'Mixed' },
+  });
+  assert.equal(registered.status, 201);
+  assert.equal(registered.body.user?.email, 'mixed.case@example.com');
+  assert.ok(await prisma.user.findUnique({ where: { email: 'mixed.case@example.com' } }));
+
+  const { status, body } = await login('MIXED.CASE@example.COM', PASSWORD);
+  assert.equal(status, 200);
+  assert.ok(body.token);
+
+  const duplicate = await callController<AuthResponse>(authController.register, {
+    body: { email: 'mixed.case@EXAMPLE.com', password: PASSWORD, name: 'Again' },
+  });
+  assert.equal(duplicate.status, 400);
+});
+
+test('counts failures against one lockout whatever the case of the email', async () => {
+  const spellings = ['mixed.case@example.com', 'Mixed.Case@Example.com', 'MIXED.CASE@EXAMPLE.COM', ' mixed.case@example.com'];
+
+  for (let failure = 0; failure < 4; failure++) {
+    assert.equal((await login(spellings[failure], 'wrong password')).status, 401);
+  }
+  const locked = await login('mixed.CASE@example.com', 'wrong password');
+  assert.equal(locked.status, 429);
+  assert.ok(Number(locked.headers['Retry-After']) > 0);
+
+  // Locked, so even the right password is refused
+  assert.equal((await login('mixed.case@example.com', PASSWORD)).status, 429);
+});
@@ -0,0 +1,98 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { callController } from './helpers/controller';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { authController } from '../src/controllers/auth.controller';
+import { twoFactorService } from '../src/services/two-factor.service';
+import { mailService } from '../src/services/mail.service';
+import { hashPassword } from '../src/utils/password.utils';
+import { totpCode, totpStep } from '../src/utils/totp.utils';
+
+const EMAIL = 'guarded@example.com';
+const PASSWORD = 'correct horse battery';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let secret: string;
+let recoveryCodes: string[];
+
+interface LoginResponse {
+  error?: string;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  token?: string;
+  refreshToken?: string;
+  recoveryCodesRemaining?: number;
+}
+
+const login = async (): Promise<string> => {
+  const { status, body } = await callController<LoginResponse>(authController.login, {
+    body: { email: EMAIL, password: PASSWORD },
+  });
+  assert.equal(status, 200);
+  assert.equal(body.twoFactorRequired, true);
+  assert.equal(body.token, undefined);
+  return body.challengeToken!;
+};
+
+const verify = (challengeToken: string, code: string) =>
+  callController<LoginResponse>(authController.verifyTwoFactor, { body: { challengeToken, code } });
+
+before(async () => {
+  prisma = await setupTestDatabase();
+  // Recovery-code sign-ins send a security email; nothing needs to go out here
+  mailService.setTransport({ name: 'discard', send: async () => undefined });
+
+  const user = await prisma.user.create({
+    data: { email: EMAIL, password: await hashPassword(PASSWORD), name: 'Guarded' },
+  });
+
+  // Turned on with a code from a few steps back, so the current step is still unspent
+  const enabledAt = new Date(Date.now() - 90 * 1000);
+  ({ secret } = await twoFactorService.beginSetup(user.id));
+  recoveryCodes = await twoFactorService.enable(user.id, totpCode(secret, totpStep(enabledAt)), enabledAt);
+});
+
+after(teardownTestDatabase);
+
+test('signs in with the password and then a TOTP code', async () => {
+  const challengeToken = await login();
+
+  // A code from well outside the accepted window
+  const wrong = await verify(challengeToken, totpCode(secret, totpStep() + 10));
+  assert.equal(wrong.status, 401);
+  assert.equal(wrong.body.error, 'Invalid verification code');
+
+  const { status, body } = await verify(challengeToken, totpCode(secret, totpStep()));
+  assert.equal(status, 200);
+  assert.ok(body.token);
+  assert.ok(body.refreshToken);
+  assert.equal(body.recoveryCodesRemaining, undefined);
+});
+
+test('refuses a TOTP code that was already used', async () => {
+  const challengeToken = await login();
+
+  const { status } = await verify(challengeToken, totpCode(secret, totpStep()));
+  assert.equal(status, 401);
+});
+
+test('a finished challenge can\'t be used again', async () => {
+  const challengeToken = await login();
+  await verify(challengeToken, recoveryCodes[0]);
+
+  const { status, body } = await verify(challengeToken, recoveryCodes[1]);
+  assert.equal(status, 401);
+  assert.match(body.error!, /Login expired/);
+});
+
+test('signs in with a recovery code once, whatever its case', async () => {
+  const challengeToken = await login();
+
+  const { status, body } = await verify(challengeToken, recoveryCodes[1].toUpperCase());
+  assert.equal(status, 200);
+  assert.ok(body.token);
+  assert.equal(body.recoveryCodesRemaining, recoveryCodes.length - 2);
+
+  const reused = await verify(await login(), recoveryCodes[1]);
+  assert.equal(reused.status, 401);
+});
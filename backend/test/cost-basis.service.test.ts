@@ -0,0 +1,100 @@
+import './helpers/database';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { costBasisService, CostBasisMethod, LedgerTransaction, LotEntry } from '../src/services/cost-basis.service';
+import { Decimal } from '../src/utils/decimal.utils';
+
+const entry = (id: string, type: string, date: string, quantity: string, price: string, fee = '0'): LedgerTransaction => ({
+  id,
+  type,
+  symbol: 'BTC',
+  quantity: new Decimal(quantity),
+  price: new Decimal(price),
+  fee: new Decimal(fee),
+  timestamp: new Date(date),
+  acquiredAt: null,
+  createdAt: new Date(date),
+});
+
+// Three lots at different prices, then a SELL that takes one and a half of them
+const ledger = [
+  entry('buy-100', 'BUY', '2024-01-01', '1', '100', '1'),
+  entry('buy-300', 'BUY', '2024-02-01', '1', '300'),
+  entry('buy-200', 'BUY', '2024-03-01', '1', '200'),
+  entry('sell', 'SELL', '2024-04-01', '1.5', '400', '3'),
+];
+
+// What each lot gave up to the SELL, and what it still holds
+const consumed = (lots: LotEntry[]) =>
+  lots.map(lot => ({
+    lot: lot.transactionId,
+    sold: lot.disposals.map(d => d.quantity.toString()),
+    costBasis: lot.disposals.map(d => d.costBasis.toString()),
+    remaining: lot.remainingQuantity.toString(),
+  }));
+
+const match = (method: CostBasisMethod) => costBasisService.matchLots(ledger, method);
+
+test('FIFO sells the oldest lot first and part of the next', () => {
+  assert.deepEqual(consumed(match('FIFO')), [
+    { lot: 'buy-100', sold: ['1'], costBasis: ['100'], remaining: '0' },
+    { lot: 'buy-300', sold: ['0.5'], costBasis: ['150'], remaining: '0.5' },
+    { lot: 'buy-200', sold: [], costBasis: [], remaining: '1' },
+  ]);
+});
+
+test('LIFO sells the newest lot first', () => {
+  assert.deepEqual(consumed(match('LIFO')), [
+    { lot: 'buy-100', sold: [], costBasis: [], remaining: '1' },
+    { lot: 'buy-300', sold: ['0.5'], costBasis: ['150'], remaining: '0.5' },
+    { lot: 'buy-200', sold: ['1'], costBasis: ['200'], remaining: '0' },
+  ]);
+});
+
+test('HIFO sells the most expensive lot first', () => {
+  assert.deepEqual(consumed(match('HIFO')), [
+    { lot: 'buy-100', sold: [], costBasis: [], remaining: '1' },
+    { lot: 'buy-300', sold: ['1'], costBasis: ['300'], remaining: '0' },
+    { lot: 'buy-200', sold: ['0.5'], costBasis: ['100'], remaining: '0.5' },
+  ]);
+});
+
+test('AVERAGE prices every unit at the pooled cost', () => {
+  const lots = match('AVERAGE');
+  const disposals = costBasisService.listDisposals(lots);
+
+  // 600 paid for 3 coins, plus a fee of 1 spread over all of them
+  assert.equal(disposals.reduce((sum, d) => sum.plus(d.quantity), new Decimal(0)).toString(), '1.5');
+  assert.equal(disposals.reduce((sum, d) => sum.plus(d.costBasis), new Decimal(0)).toFixed(8), '300.00000000');
+  assert.equal(disposals.reduce((sum, d) => sum.plus(d.acquisitionFee), new Decimal(0)).toFixed(8), '0.50000000');
+  lots.forEach(lot => assert.equal(lot.unitPrice.toFixed(8), '200.00000000'));
+
+  const held = costBasisService.summarizeLots(lots).get('BTC')!;
+  assert.equal(held.quantity.toString(), '1.5');
+  assert.equal(held.costBasis.toFixed(8), '300.50000000');
+});
+
+test('splits the SELL fee and proceeds across the lots it drew on', () => {
+  const disposals = costBasisService.listDisposals(match('FIFO'));
+
+  assert.deepEqual(
+    disposals.map(d => [d.lotTransactionId, d.proceeds.toString(), d.acquisitionFee.toString(), d.disposalFee.toString(), d.gain.toString()]),
+    [
+      // 400 - 100 - 1 - 2
+      ['buy-100', '400', '1', '2', '297'],
+      // 200 - 150 - 0 - 1
+      ['buy-300', '200', '0', '1', '49'],
+    ]
+  );
+});
+
+test('transfers out shrink lots without realizing a gain', () => {
+  const lots = costBasisService.matchLots(
+    [...ledger, entry('moved', 'TRANSFER_OUT', '2024-05-01', '0.25', '0')],
+    'FIFO'
+  );
+
+  assert.equal(costBasisService.listDisposals(lots).length, 2);
+  assert.deepEqual(lots[1].removals.map(r => [r.transactionId, r.quantity.toString()]), [['moved', '0.25']]);
+  assert.equal(lots[1].remainingQuantity.toString(), '0.25');
+});
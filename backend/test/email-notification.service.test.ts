@@ -0,0 +1,120 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import { emailNotificationService } from '../src/services/email-notification.service';
+import { createSmtpTransport, mailService } from '../src/services/mail.service';
+import { Decimal } from '../src/utils/decimal.utils';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let receiver: net.Server | undefined;
+const received: Array<{ from: string; to: string[]; data: string }> = [];
+
+// Just enough SMTP to take a message: greet, accept the envelope, read DATA up to the lone dot
+const startSmtpReceiver = async (): Promise<number> => {
+  receiver = net.createServer(socket => {
+    let buffer = '';
+    let message: { from: string; to: string[]; data: string } = { from: '', to: [], data: '' };
+    let inData = false;
+
+    socket.setEncoding('utf8');
+    socket.write('220 localhost test receiver\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            received.push(message);
+            message = { from: '', to: [], data: '' };
+            socket.write('250 Queued\r\n');
+          } else {
+            message.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^MAIL FROM:/i.test(line)) {
+          message.from = line.replace(/^MAIL FROM:\s*<([^>]*)>.*$/i, '$1');
+          socket.write('250 OK\r\n');
+        } else if (/^RCPT TO:/i.test(line)) {
+          message.to.push(line.replace(/^RCPT TO:\s*<([^>]*)>.*$/i, '$1'));
+          socket.write('250 OK\r\n');
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => receiver!.listen(0, '127.0.0.1', resolve));
+  return (receiver.address() as AddressInfo).port;
+};
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  const port = await startSmtpReceiver();
+  mailService.setTransport(createSmtpTransport({ host: '127.0.0.1', port }));
+});
+
+after(async () => {
+  if (receiver) await new Promise(resolve => receiver!.close(resolve));
+  await teardownTestDatabase();
+});
+
+const firedAlert = async (email: string, emailAlerts: boolean) => {
+  const user = await prisma.user.create({
+    data: { email, password: 'not-a-real-hash', name: 'Watcher', userSettings: { create: { emailAlerts } } },
+  });
+  const alert = await prisma.priceAlert.create({
+    data: {
+      userId: user.id,
+      symbol: 'BTC',
+      condition: 'ABOVE',
+      targetPrice: new Decimal(90000),
+      isTriggered: true,
+      triggeredAt: new Date('2025-06-01T12:00:00Z'),
+    },
+  });
+  const price = new Decimal(95000);
+  return { alert, coinId: 'bitcoin', symbol: 'BTC', price, value: price };
+};
+
+test('delivers an alert email over SMTP to a user who opted in', async () => {
+  process.env.MAIL_FROM = 'Bit Lover <alerts@bitlover.test>';
+  try {
+    const sent = await emailNotificationService.sendAlertEmail(await firedAlert('opted-in@example.com', true), prisma);
+    assert.equal(sent, true);
+  } finally {
+    delete process.env.MAIL_FROM;
+  }
+
+  assert.equal(received.length, 1);
+  const [message] = received;
+  assert.equal(message.from, 'alerts@bitlover.test');
+  assert.deepEqual(message.to, ['opted-in@example.com']);
+  assert.match(message.data, /^Subject: BTC above \$90000\.00$/m);
+  assert.match(message.data, /^To: opted-in@example\.com$/m);
+  assert.match(message.data, /^Content-Type: text\/plain/m);
+  assert.match(message.data, /^Content-Type: text\/html/m);
+  assert.match(message.data, /Hi Watcher,/);
+  assert.match(message.data, /BTC is trading at \$95000\.00, above your \$90000\.00 target\./);
+});
+
+test('sends nothing to a user who opted out', async () => {
+  const count = received.length;
+
+  const sent = await emailNotificationService.sendAlertEmail(await firedAlert('opted-out@example.com', false), prisma);
+
+  assert.equal(sent, false);
+  assert.equal(received.length, count);
+});
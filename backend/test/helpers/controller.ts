@@ -0,0 +1,50 @@
+import type { Request, Response } from 'express';
+import type { ValidationChain } from 'express-validator';
+
+type Handler = ValidationChain | ((req: Request, res: Response) => Promise<void>);
+
+export interface ControllerResult<T> {
+  status: number;
+  body: T;
+  headers: Record<string, string>;
+}
+
+/**
+ * Call a controller action the way the router would: run its validators against the
+ * request, then the handler, and capture what it answers
+ */
+export const callController = async <T = Record<string, unknown>>(
+  action: Handler | Handler[],
+  request: { body?: unknown; ip?: string; headers?: Record<string, string> }
+): Promise<ControllerResult<T>> => {
+  const result: ControllerResult<T> = { status: 200, body: {} as T, headers: {} };
+  const headers = request.headers ?? {};
+  const req = {
+    body: request.body ?? {},
+    ip: request.ip ?? '127.0.0.1',
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(data: T) {
+      result.body = data;
+      return this;
+    },
+    set(name: string | Record<string, string>, value?: string) {
+      Object.assign(result.headers, typeof name === 'string' ? { [name]: value } : name);
+      return this;
+    },
+  } as unknown as Response;
+
+  for (const handler of Array.isArray(action) ? action : [action]) {
+    if ('run' in handler) {
+      await handler.run(req);
+    } else {
+      await handler(req, res);
+    }
+  }
+  return result;
+};
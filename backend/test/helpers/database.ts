@@ -0,0 +1,43 @@
+// Import this before the code under test: it points the server at a throwaway database
+// and loads it the way it normally loads, ahead of any controller or service
+import { readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import './env';
+import { prisma } from '../../src/server';
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', '..', 'prisma', 'migrations');
+
+// Statements of a migration file, comments dropped
+const statements = (sql: string): string[] =>
+  sql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(/;\s*(?:\n|$)/)
+    .map(statement => statement.trim())
+    .filter(Boolean);
+
+/**
+ * Build the schema by applying every migration in order, and return the server's client
+ */
+export const setupTestDatabase = async (): Promise<typeof prisma> => {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter(name => statSync(path.join(MIGRATIONS_DIR, name)).isDirectory())
+    .sort();
+
+  for (const migration of migrations) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, migration, 'migration.sql'), 'utf8');
+    for (const statement of statements(sql)) {
+      await prisma.$executeRawUnsafe(statement);
+    }
+  }
+
+  return prisma;
+};
+
+/**
+ * Disconnect; the database file goes when the process exits
+ */
+export const teardownTestDatabase = async (): Promise<void> => {
+  await prisma.$disconnect();
+};
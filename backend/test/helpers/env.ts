@@ -0,0 +1,12 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file runs in its own process against its own throwaway SQLite database,
+// deleted when the process exits. The server connects Prisma to DATABASE_URL as it
+// loads, so this runs first.
+const testDir = mkdtempSync(path.join(os.tmpdir(), 'bitlover-test-'));
+process.on('exit', () => rmSync(testDir, { recursive: true, force: true }));
+
+process.env.DATABASE_URL = `file:${path.join(testDir, 'test.db')}`;
+process.env.NODE_ENV = 'test';
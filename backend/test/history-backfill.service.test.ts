@@ -0,0 +1,115 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { historyBackfillService, HistoryBackfillOptions } from '../src/services/history-backfill.service';
+import type { MarketDataProvider, PricePoint } from '../src/services/market-data.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:30:00Z');
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+
+// Hourly history for as many days as asked, or a 400 for coins told to fail
+const provider = {
+  name: 'fake',
+  requests: [] as string[],
+  failing: new Set<string>(),
+  async getHistory(coinId: string, days: number): Promise<PricePoint[]> {
+    provider.requests.push(coinId);
+    if (provider.failing.has(coinId)) {
+      throw Object.assign(new Error('Request failed with status code 400'), { isAxiosError: true, response: { status: 400 } });
+    }
+
+    const points: PricePoint[] = [];
+    for (let time = now.getTime() - days * 24 * HOUR_MS; time <= now.getTime(); time += HOUR_MS) {
+      points.push({ timestamp: time, price: 100 + (time / HOUR_MS) % 10 });
+    }
+    return points;
+  },
+};
+
+const backfill = (options: Partial<HistoryBackfillOptions> = {}) =>
+  historyBackfillService.run(
+    { days: 3, now, requestDelayMs: 0, provider: provider as unknown as MarketDataProvider, ...options },
+    prisma
+  );
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  await prisma.coinList.createMany({
+    data: [
+      { coinId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
+      { coinId: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
+    ],
+  });
+  // A candle from our own syncs, which the backfill must leave alone
+  await prisma.priceCandle.create({
+    data: { coinId: 'bitcoin', interval: '1d', openTime: new Date('2025-05-31T00:00:00Z'), open: 1, high: 1, low: 1, close: 1 },
+  });
+});
+
+after(teardownTestDatabase);
+
+test('resumes after a failed step without filling the finished ones again', async () => {
+  provider.failing.add('ethereum');
+  const first = await backfill();
+  provider.failing.clear();
+
+  assert.deepEqual([first.filled, first.failed], [2, 2]);
+  const failed = await prisma.historyBackfillCheckpoint.findUniqueOrThrow({
+    where: { coinId_interval: { coinId: 'ethereum', interval: '1h' } },
+  });
+  assert.equal(failed.coveredFrom, null);
+  assert.match(failed.lastError!, /400/);
+
+  provider.requests = [];
+  const resumed = await backfill();
+
+  assert.deepEqual([resumed.filled, resumed.skipped, resumed.failed], [2, 2, 0]);
+  assert.deepEqual(provider.requests, ['ethereum', 'ethereum']);
+  assert.equal(await prisma.priceCandle.count(), 1 + first.candlesAdded + resumed.candlesAdded);
+});
+
+test('a second run over the same range requests and adds nothing', async () => {
+  const candles = await prisma.priceCandle.count();
+  provider.requests = [];
+
+  const again = await backfill();
+
+  assert.deepEqual([again.skipped, again.filled, again.candlesAdded], [4, 0, 0]);
+  assert.deepEqual(provider.requests, []);
+  assert.equal(await prisma.priceCandle.count(), candles);
+});
+
+test('a restarted run requests again but never duplicates or overwrites candles', async () => {
+  const candles = await prisma.priceCandle.count();
+
+  const restarted = await backfill({ restart: true });
+
+  assert.deepEqual([restarted.filled, restarted.candlesAdded], [4, 0]);
+  assert.equal(await prisma.priceCandle.count(), candles);
+
+  const synced = await prisma.priceCandle.findUniqueOrThrow({
+    where: { coinId_interval_openTime: { coinId: 'bitcoin', interval: '1d', openTime: new Date('2025-05-31T00:00:00Z') } },
+  });
+  assert.equal(synced.source, 'sync');
+  assert.equal(synced.close.toString(), '1');
+});
+
+test('a longer run only adds the candles before what is already covered', async () => {
+  const candles = await prisma.priceCandle.count();
+
+  const wider = await backfill({ days: 5, intervals: ['1d'], coins: ['BTC'] });
+
+  // May 27th and 28th; the rest of the range was covered by the three-day runs
+  assert.equal(wider.filled, 1);
+  assert.equal(wider.candlesAdded, 2);
+  assert.equal(await prisma.priceCandle.count(), candles + wider.candlesAdded);
+
+  const checkpoint = await prisma.historyBackfillCheckpoint.findUniqueOrThrow({
+    where: { coinId_interval: { coinId: 'bitcoin', interval: '1d' } },
+  });
+  assert.equal(checkpoint.coveredFrom?.toISOString(), '2025-05-27T12:30:00.000Z');
+  assert.equal(checkpoint.coveredTo?.toISOString(), now.toISOString());
+});
@@ -0,0 +1,58 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { holdingsService } from '../src/services/holdings.service';
+import { Decimal } from '../src/utils/decimal.utils';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+
+before(async () => {
+  prisma = await setupTestDatabase();
+});
+
+after(teardownTestDatabase);
+
+const entry = (type: string, quantity: string, price: string, fee = '0') => ({
+  type,
+  quantity: new Decimal(quantity),
+  price: new Decimal(price),
+  fee: new Decimal(fee),
+});
+
+test('takes fees out of cash whatever the transaction type', () => {
+  const balance = holdingsService.cashBalance([
+    entry('DEPOSIT', '1000', '1'),
+    entry('BUY', '2', '100', '1.5'),
+    entry('SELL', '1', '150', '0.5'),
+    entry('TRANSFER_IN', '1', '90', '2'),
+    entry('TRANSFER_OUT', '1', '0', '0.25'),
+    entry('STAKING', '0.1', '100', '0.1'),
+  ]);
+
+  // 1000 - 201.5 + 149.5 - 2 - 0.25 - 0.1
+  assert.equal(balance.toString(), '945.65');
+});
+
+test('refuses a backdated BUY that only a later DEPOSIT would pay for', async () => {
+  const user = await prisma.user.create({
+    data: { email: 'saver@example.com', password: 'not-a-real-hash', name: 'Saver' },
+  });
+  const { id: portfolioId } = await prisma.portfolio.create({ data: { userId: user.id, name: 'Main' } });
+
+  await prisma.transaction.create({
+    data: { portfolioId, type: 'DEPOSIT', symbol: 'USD', quantity: 1000, price: 1, timestamp: new Date('2025-03-01') },
+  });
+  assert.equal((await holdingsService.syncCash(portfolioId, prisma)).toString(), '1000');
+
+  // The final balance would be 500, but on 1 February there was nothing to pay with
+  const backdated = await prisma.transaction.create({
+    data: { portfolioId, type: 'BUY', symbol: 'BTC', quantity: 5, price: 100, timestamp: new Date('2025-02-01') },
+  });
+  await assert.rejects(holdingsService.syncCash(portfolioId, prisma), {
+    statusCode: 400,
+    message: /Insufficient USD cash on 2025-02-01T00:00:00.000Z: available 0, required 500/,
+  });
+
+  await prisma.transaction.update({ where: { id: backdated.id }, data: { timestamp: new Date('2025-03-02') } });
+  assert.equal((await holdingsService.syncCash(portfolioId, prisma)).toString(), '500');
+});
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createAggregatorFromEnv,
+  PriceAggregator,
+  PriceSourcesUnavailableError,
+} from '../src/services/price-aggregator.service';
+import type { MarketDataProvider, SpotPrice } from '../src/services/market-data.service';
+
+const spot = (price: number): SpotPrice => ({
+  price,
+  marketCap: price * 1000,
+  volume24h: null,
+  change24h: null,
+  changePercent24h: null,
+});
+
+// A provider that answers spot prices from a table, or fails when told to
+const source = (name: string, prices: Record<string, number>) => {
+  const fake = {
+    name,
+    calls: 0,
+    failWith: null as Error | null,
+    async getSpotPrices(coinIds: string[]): Promise<Record<string, SpotPrice>> {
+      fake.calls++;
+      if (fake.failWith) throw fake.failWith;
+      return Object.fromEntries(coinIds.filter(id => prices[id]).map(id => [id, spot(prices[id])]));
+    },
+  };
+  return fake as typeof fake & MarketDataProvider;
+};
+
+test('median mode takes the median of the sources and names them', async () => {
+  const aggregator = new PriceAggregator(
+    [source('a', { bitcoin: 100 }), source('b', { bitcoin: 102 }), source('c', { bitcoin: 101 })],
+    { mode: 'median' }
+  );
+
+  const prices = await aggregator.getSpotPrices(['bitcoin']);
+
+  assert.equal(prices.bitcoin.price, 101);
+  assert.equal(prices.bitcoin.source, 'a+b+c');
+  assert.equal(prices.bitcoin.marketCap, 101000);
+});
+
+test('median mode rejects a quote too far from the others', async () => {
+  const aggregator = new PriceAggregator(
+    [source('a', { bitcoin: 100 }), source('b', { bitcoin: 150 }), source('c', { bitcoin: 102 })],
+    { mode: 'median', tolerance: 0.05 }
+  );
+
+  const prices = await aggregator.getSpotPrices(['bitcoin']);
+
+  assert.equal(prices.bitcoin.price, 101);
+  assert.equal(prices.bitcoin.source, 'a+c');
+  assert.deepEqual(
+    aggregator.getHealth().map(health => [health.name, health.outliersRejected]),
+    [['a', 0], ['b', 1], ['c', 0]]
+  );
+});
+
+test('failover mode moves to the next source and cools the failed one down', async () => {
+  const primary = source('primary', { bitcoin: 100, ethereum: 10 });
+  const backup = source('backup', { bitcoin: 99, ethereum: 9, solana: 1 });
+  const aggregator = new PriceAggregator([primary, backup], { cooldownMs: 60 * 1000 });
+  const now = new Date('2025-06-01T12:00:00Z');
+
+  // Healthy: the primary answers, the backup only fills in what it lacks
+  let prices = await aggregator.getSpotPrices(['bitcoin', 'ethereum', 'solana'], now);
+  assert.deepEqual(
+    Object.entries(prices).map(([coinId, price]) => [coinId, price.price, price.source]),
+    [['bitcoin', 100, 'primary'], ['ethereum', 10, 'primary'], ['solana', 1, 'backup']]
+  );
+
+  primary.failWith = new Error('rate limited');
+  prices = await aggregator.getSpotPrices(['bitcoin'], now);
+  assert.equal(prices.bitcoin.price, 99);
+  assert.equal(prices.bitcoin.source, 'backup');
+
+  // Cooling down, the primary isn't asked again until the cooldown is over
+  const calls = primary.calls;
+  await aggregator.getSpotPrices(['bitcoin'], new Date(now.getTime() + 30 * 1000));
+  assert.equal(primary.calls, calls);
+  assert.equal(aggregator.getHealth(new Date(now.getTime() + 30 * 1000))[0].status, 'cooling_down');
+
+  primary.failWith = null;
+  prices = await aggregator.getSpotPrices(['bitcoin'], new Date(now.getTime() + 61 * 1000));
+  assert.equal(prices.bitcoin.source, 'primary');
+});
+
+test('failover mode throws once every source has failed', async () => {
+  const a = source('a', { bitcoin: 100 });
+  const b = source('b', { bitcoin: 100 });
+  a.failWith = new Error('down');
+  b.failWith = new Error('also down');
+
+  await assert.rejects(
+    new PriceAggregator([a, b]).getSpotPrices(['bitcoin']),
+    (error: unknown) => error instanceof PriceSourcesUnavailableError && /a: down; b: also down/.test(error.message)
+  );
+});
+
+test('refuses offline price sources in production', () => {
+  assert.throws(
+    () => createAggregatorFromEnv({ NODE_ENV: 'production', MARKET_PRICE_SOURCES: 'coingecko,simulated' }),
+    /simulated prices can't be synced in production/
+  );
+  assert.throws(
+    () => createAggregatorFromEnv({ NODE_ENV: 'production', MARKET_DATA_PROVIDER: 'fixture' }),
+    /fixture prices can't be synced in production/
+  );
+
+  const live = createAggregatorFromEnv({ NODE_ENV: 'production', MARKET_PRICE_SOURCES: 'coingecko,coincap' });
+  assert.deepEqual(live.getHealth().map(health => health.name), ['coingecko', 'coincap']);
+});
@@ -0,0 +1,110 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFixtureProvider } from '../src/services/fixture.provider';
+import { marketDataService, MarketDataProvider, SpotPrice } from '../src/services/market-data.service';
+import { marketHistoryService } from '../src/services/market-history.service';
+import { PriceAggregator } from '../src/services/price-aggregator.service';
+import { PriceSyncService } from '../src/services/price-sync.service';
+import { Decimal } from '../src/utils/decimal.utils';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+
+before(async () => {
+  prisma = await setupTestDatabase();
+  // The daily coin details refresh after a sync reads the recorded fixtures, not the network
+  marketDataService.setProvider(createFixtureProvider());
+});
+
+after(teardownTestDatabase);
+
+const tick = (coinId: string, price: number) => ({ coinId, price: new Decimal(price), volume24h: new Decimal(1e9) });
+const at = (time: string) => new Date(`2025-06-01T${time}Z`);
+
+const candles = async (coinId: string, interval: string) =>
+  (await prisma.priceCandle.findMany({ where: { coinId, interval }, orderBy: { openTime: 'asc' } })).map(candle => ({
+    openTime: candle.openTime.toISOString().slice(11, 16),
+    ohlc: [candle.open, candle.high, candle.low, candle.close].map(price => price.toString()),
+    volume: candle.volume,
+  }));
+
+test('rolls each sync into the open candle of every interval', async () => {
+  await marketHistoryService.recordCandles([tick('rollup', 100)], at('12:00:10'), prisma);
+  await marketHistoryService.recordCandles([tick('rollup', 105)], at('12:00:40'), prisma);
+  await marketHistoryService.recordCandles([tick('rollup', 95)], at('12:03:00'), prisma);
+  await marketHistoryService.recordCandles([tick('rollup', 102)], at('12:07:00'), prisma);
+
+  assert.deepEqual(await candles('rollup', '1m'), [
+    { openTime: '12:00', ohlc: ['100', '105', '100', '105'], volume: null },
+    { openTime: '12:03', ohlc: ['95', '95', '95', '95'], volume: null },
+    { openTime: '12:07', ohlc: ['102', '102', '102', '102'], volume: null },
+  ]);
+  assert.deepEqual(await candles('rollup', '5m'), [
+    { openTime: '12:00', ohlc: ['100', '105', '95', '95'], volume: null },
+    { openTime: '12:05', ohlc: ['102', '102', '102', '102'], volume: null },
+  ]);
+  assert.deepEqual(await candles('rollup', '1h'), [
+    { openTime: '12:00', ohlc: ['100', '105', '95', '102'], volume: null },
+  ]);
+  assert.deepEqual(await candles('rollup', '1d'), [
+    { openTime: '00:00', ohlc: ['100', '105', '95', '102'], volume: null },
+  ]);
+});
+
+test('prunes each interval past its retention and keeps daily candles', async () => {
+  const pruned = await marketHistoryService.pruneCandles(new Date('2025-06-10T00:00:00Z'), prisma);
+
+  // 1m candles are kept two days, 5m thirty
+  assert.equal(pruned, 3);
+  assert.deepEqual(
+    (await prisma.priceCandle.findMany({ where: { coinId: 'rollup' }, select: { interval: true } }))
+      .map(candle => candle.interval)
+      .sort(),
+    ['1d', '1h', '5m', '5m']
+  );
+});
+
+test('a failed history write or prune neither fails the sync nor skips alerts', async () => {
+  await prisma.coinList.create({ data: { coinId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' } });
+  const user = await prisma.user.create({
+    data: { email: 'watcher@example.com', password: 'not-a-real-hash', name: 'Watcher' },
+  });
+  const alert = await prisma.priceAlert.create({
+    data: { userId: user.id, symbol: 'BTC', condition: 'ABOVE', targetPrice: 90000 },
+  });
+
+  const source = {
+    name: 'fake',
+    async getSpotPrices(): Promise<Record<string, SpotPrice>> {
+      return { bitcoin: { price: 95000, marketCap: null, volume24h: 1e9, change24h: null, changePercent24h: null } };
+    },
+  } as unknown as MarketDataProvider;
+  const sync = new PriceSyncService(new PriceAggregator([source]));
+
+  const recordTicks = mock.method(marketHistoryService, 'recordTicks', async () => {
+    throw new Error('disk full');
+  });
+  const pruneTicks = mock.method(marketHistoryService, 'pruneTicks', async () => {
+    throw new Error('database is locked');
+  });
+  const quiet = mock.method(console, 'error', () => undefined);
+  try {
+    await sync.syncPrices();
+  } finally {
+    recordTicks.mock.restore();
+    pruneTicks.mock.restore();
+    quiet.mock.restore();
+  }
+
+  assert.equal(recordTicks.mock.callCount(), 1);
+  assert.equal(pruneTicks.mock.callCount(), 1);
+  assert.equal(sync.getStatus().consecutiveFailures, 0);
+  assert.ok(sync.getStatus().lastSuccessAt);
+
+  // The price and the candles still went in, and the alert was checked against the price
+  const price = await prisma.marketPrice.findUniqueOrThrow({ where: { coinId: 'bitcoin' } });
+  assert.equal(price.currentPrice.toString(), '95000');
+  assert.equal(await prisma.priceCandle.count({ where: { coinId: 'bitcoin' } }), 4);
+  assert.equal(await prisma.priceTick.count(), 0);
+  assert.equal((await prisma.priceAlert.findUniqueOrThrow({ where: { id: alert.id } })).isTriggered, true);
+});
@@ -0,0 +1,118 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { byEmail, byIp, rateLimit } from '../src/middleware/rate-limit.middleware';
+import { lockoutDurationMs, loginLockoutService } from '../src/services/login-lockout.service';
+import { MemoryRateLimitStore, rateLimitService } from '../src/services/rate-limit.service';
+
+const MINUTE = 60 * 1000;
+const at = (ms: number) => new Date(Date.UTC(2025, 5, 1) + ms);
+
+beforeEach(() => rateLimitService.setStore(new MemoryRateLimitStore()));
+
+// Run a limiter once and capture whether it let the request through
+const limit = async (limiter: ReturnType<typeof rateLimit>, req: Partial<Request>) => {
+  const result = { passed: false, status: 200, headers: {} as Record<string, string>, body: {} as { retryAfter?: number } };
+  const res = {
+    set(name: string | Record<string, string>, value?: string) {
+      Object.assign(result.headers, typeof name === 'string' ? { [name]: value } : name);
+      return this;
+    },
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(data: { retryAfter?: number }) {
+      result.body = data;
+      return this;
+    },
+  } as unknown as Response;
+
+  await limiter(req as Request, res, () => {
+    result.passed = true;
+  });
+  return result;
+};
+
+test('a window counts hits from the first one and starts over once it closes', async () => {
+  const store = new MemoryRateLimitStore();
+
+  assert.deepEqual(await store.increment('k', MINUTE, at(0)), { count: 1, resetAt: at(MINUTE) });
+  assert.deepEqual(await store.increment('k', MINUTE, at(59 * 1000)), { count: 2, resetAt: at(MINUTE) });
+  assert.deepEqual(await store.get('k', at(MINUTE - 1)), { count: 2, resetAt: at(MINUTE) });
+
+  assert.equal(await store.get('k', at(MINUTE)), null);
+  assert.deepEqual(await store.increment('k', MINUTE, at(MINUTE)), { count: 1, resetAt: at(2 * MINUTE) });
+});
+
+test('the limiter answers 429 past the max, per key', async () => {
+  const limiter = rateLimit({ name: 'test', windowMs: MINUTE, max: 2, key: byIp });
+
+  const first = await limit(limiter, { ip: '10.0.0.1' });
+  assert.equal(first.passed, true);
+  assert.equal(first.headers['RateLimit-Policy'], '2;w=60');
+  assert.equal(first.headers['RateLimit-Remaining'], '1');
+
+  assert.equal((await limit(limiter, { ip: '10.0.0.1' })).passed, true);
+
+  const refused = await limit(limiter, { ip: '10.0.0.1' });
+  assert.equal(refused.passed, false);
+  assert.equal(refused.status, 429);
+  assert.equal(refused.headers['RateLimit-Remaining'], '0');
+  assert.ok(Number(refused.headers['Retry-After']) > 0 && Number(refused.headers['Retry-After']) <= 60);
+
+  // Another address has its own bucket
+  assert.equal((await limit(limiter, { ip: '10.0.0.2' })).passed, true);
+});
+
+test('the account limiter counts an email however it is written, and skips requests without one', async () => {
+  const limiter = rateLimit({ name: 'account-test', windowMs: MINUTE, max: 1, key: byEmail });
+
+  assert.equal((await limit(limiter, { body: { email: 'Someone@Example.com' } })).passed, true);
+  assert.equal((await limit(limiter, { body: { email: ' someone@example.com ' } })).status, 429);
+  assert.equal((await limit(limiter, { body: {} })).passed, true);
+  assert.equal((await limit(limiter, { body: {} })).passed, true);
+});
+
+test('lockouts start at the threshold and double up to the cap', () => {
+  assert.deepEqual(
+    [1, 4, 5, 6, 7, 10, 20].map(lockoutDurationMs),
+    [0, 0, MINUTE, 2 * MINUTE, 4 * MINUTE, 32 * MINUTE, 60 * MINUTE]
+  );
+});
+
+test('an account locks after repeated failures and unlocks when the lock runs out', async () => {
+  const email = 'target@example.com';
+
+  for (let failure = 1; failure < 5; failure++) {
+    assert.equal(await loginLockoutService.recordFailure(email, at(failure * 1000)), 0);
+  }
+  assert.equal(await loginLockoutService.retryAfterMs(email, at(4500)), 0);
+
+  // The fifth failure locks for a minute, from that failure
+  assert.equal(await loginLockoutService.recordFailure('TARGET@example.com', at(5000)), MINUTE);
+  assert.equal(await loginLockoutService.retryAfterMs(email, at(5000)), MINUTE);
+  assert.equal(await loginLockoutService.retryAfterMs(email, at(5000 + MINUTE - 1)), 1);
+  assert.equal(await loginLockoutService.retryAfterMs(email, at(5000 + MINUTE)), 0);
+
+  // Failing again after the lock locks for twice as long
+  assert.equal(await loginLockoutService.recordFailure(email, at(5000 + MINUTE)), 2 * MINUTE);
+  assert.equal(await loginLockoutService.retryAfterMs(email, at(5000 + 2 * MINUTE)), MINUTE);
+});
+
+test('failures are forgotten a day after the first, or on a successful sign-in', async () => {
+  const email = 'forgetful@example.com';
+  const DAY = 24 * 60 * MINUTE;
+
+  for (let failure = 0; failure < 4; failure++) {
+    await loginLockoutService.recordFailure(email, at(failure * 1000));
+  }
+  // The window has closed, so this is the first failure of a new run
+  assert.equal(await loginLockoutService.recordFailure(email, at(DAY)), 0);
+
+  for (let failure = 1; failure < 4; failure++) {
+    await loginLockoutService.recordFailure(email, at(DAY + failure * 1000));
+  }
+  await loginLockoutService.recordSuccess(email);
+  assert.equal(await loginLockoutService.recordFailure(email, at(DAY + 5000)), 0);
+});
@@ -0,0 +1,70 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sessionService } from '../src/services/session.service';
+import { ApiError } from '../src/utils/error.utils';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let user: { id: string; email: string };
+
+const client = { userAgent: 'test', ipAddress: '127.0.0.1' };
+const expired = (error: unknown) => error instanceof ApiError && error.statusCode === 401;
+
+before(async () => {
+  prisma = await setupTestDatabase();
+  user = await prisma.user.create({
+    data: { email: 'rotator@example.com', password: 'not-a-real-hash', name: 'Rotator' },
+  });
+  // Reuse is logged as a warning
+  mock.method(console, 'warn', () => undefined);
+});
+
+after(teardownTestDatabase);
+
+test('rotates the refresh token on every use', async () => {
+  const { refreshToken: first, session } = await sessionService.createSession(user, client);
+
+  const { refreshToken: second } = await sessionService.refresh(first, client);
+  const { refreshToken: third } = await sessionService.refresh(second, client);
+
+  assert.notEqual(second, first);
+  assert.notEqual(third, second);
+  assert.equal(await prisma.rotatedRefreshToken.count({ where: { sessionId: session.id } }), 2);
+});
+
+test('revokes the session when a rotated refresh token comes back', async () => {
+  const { refreshToken: stolen, session } = await sessionService.createSession(user, client);
+  const { refreshToken: second } = await sessionService.refresh(stolen, client);
+  const { refreshToken: latest } = await sessionService.refresh(second, client);
+
+  await assert.rejects(sessionService.refresh(stolen, client), expired);
+
+  assert.ok((await prisma.session.findUniqueOrThrow({ where: { id: session.id } })).revokedAt);
+  // Whoever holds the newest token is signed out as well
+  await assert.rejects(sessionService.refresh(latest, client), expired);
+});
+
+test('lets only one of two refreshes racing with the same token through, and revokes the session', async () => {
+  const { refreshToken, session } = await sessionService.createSession(user, client);
+
+  const results = await Promise.allSettled([
+    sessionService.refresh(refreshToken, client),
+    sessionService.refresh(refreshToken, client),
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  assert.ok(expired(rejected.reason));
+  assert.ok((await prisma.session.findUniqueOrThrow({ where: { id: session.id } })).revokedAt);
+});
+
+test('leaves other sessions of the user alone', async () => {
+  const { refreshToken: stolen } = await sessionService.createSession(user, client);
+  const other = await sessionService.createSession(user, client);
+  await sessionService.refresh(stolen, client);
+
+  await assert.rejects(sessionService.refresh(stolen, client), expired);
+
+  const { refreshToken } = await sessionService.refresh(other.refreshToken, client);
+  assert.ok(refreshToken);
+});
@@ -0,0 +1,77 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { transactionController } from '../src/controllers/transaction.controller';
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let userId: string;
+let portfolioId: string;
+
+// Call the controller the way the router would and capture what it answers
+const createTransaction = async (body: Record<string, unknown>): Promise<{ status: number; body: { error?: string } }> => {
+  const result = { status: 200, body: {} as { error?: string } };
+  const req = { user: { userId, email: 'trader@example.com', sessionId: 'test' }, body } as unknown as Request;
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(data: { error?: string }) {
+      result.body = data;
+      return this;
+    },
+  } as unknown as Response;
+
+  await transactionController.createTransaction(req, res);
+  return result;
+};
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  const user = await prisma.user.create({
+    data: { email: 'trader@example.com', password: 'not-a-real-hash', name: 'Trader' },
+  });
+  const portfolio = await prisma.portfolio.create({ data: { userId: user.id, name: 'Main' } });
+  userId = user.id;
+  portfolioId = portfolio.id;
+});
+
+after(teardownTestDatabase);
+
+test('parallel SELLs never take a holding below zero', async () => {
+  const balance = 10;
+  const quantity = 3;
+  const attempts = 8;
+
+  assert.equal((await createTransaction({ portfolioId, type: 'DEPOSIT', quantity: '1000' })).status, 201);
+  assert.equal(
+    (await createTransaction({ portfolioId, type: 'BUY', symbol: 'BTC', quantity: String(balance), price: '100' })).status,
+    201
+  );
+
+  const results = await Promise.all(
+    Array.from({ length: attempts }, () =>
+      createTransaction({ portfolioId, type: 'SELL', symbol: 'BTC', quantity: String(quantity), price: '120' })
+    )
+  );
+
+  // However the writers interleave, the SELLs that went through never add up to more
+  // than was held, and every one turned away was turned away for the balance
+  const succeeded = results.filter(result => result.status === 201);
+  const refused = results.filter(result => result.status !== 201);
+  assert.ok(succeeded.length >= 1);
+  assert.ok(succeeded.length * quantity <= balance);
+  for (const result of refused) {
+    assert.equal(result.status, 400);
+    assert.match(result.body.error ?? '', /Insufficient BTC balance/);
+  }
+
+  const asset = await prisma.asset.findFirstOrThrow({ where: { portfolioId, symbol: 'BTC' } });
+  assert.equal(asset.quantity.toString(), String(balance - succeeded.length * quantity));
+  assert.ok(asset.quantity.gte(0));
+
+  const sells = await prisma.transaction.count({ where: { portfolioId, type: 'SELL' } });
+  assert.equal(sells, succeeded.length);
+});
@@ -0,0 +1,108 @@
+import { setupTestDatabase, teardownTestDatabase } from './helpers/database';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateWebhookSecret, webhookService } from '../src/services/webhook.service';
+
+const SECRET = generateWebhookSecret();
+
+let prisma: Awaited<ReturnType<typeof setupTestDatabase>>;
+let userId: string;
+let receiver: http.Server | undefined;
+let receiverUrl: string;
+const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+
+// What a receiver does with the documented scheme: HMAC-SHA256 over
+// `${X-Webhook-Timestamp}.${raw body}` with the endpoint secret
+const hasValidSignature = (headers: http.IncomingHttpHeaders, body: string): boolean => {
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', SECRET).update(`${headers['x-webhook-timestamp']}.${body}`).digest('hex')}`
+  );
+  const signature = Buffer.from(String(headers['x-webhook-signature'] ?? ''));
+  return signature.length === expected.length && timingSafeEqual(signature, expected);
+};
+
+before(async () => {
+  prisma = await setupTestDatabase();
+
+  const user = await prisma.user.create({
+    data: { email: 'hooks@example.com', password: 'not-a-real-hash', name: 'Hooks' },
+  });
+  userId = user.id;
+
+  receiver = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(hasValidSignature(req.headers, body) ? 200 : 401).end();
+    });
+  });
+  await new Promise<void>(resolve => receiver!.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+});
+
+after(async () => {
+  if (receiver) await new Promise(resolve => receiver!.close(resolve));
+  await teardownTestDatabase();
+});
+
+test('delivers a signed payload the receiver can verify', async () => {
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { userId, url: receiverUrl, secret: SECRET, events: '*' },
+  });
+  const queued = await webhookService.enqueueFor(endpoint.id, 'transaction.created', { transaction: { id: 'tx-1' } });
+
+  const delivery = await webhookService.attempt({ ...queued, attempts: 1 }, endpoint, prisma);
+
+  assert.equal(delivery.status, 'SUCCEEDED');
+  assert.equal(delivery.responseStatus, 200);
+  assert.equal(delivery.lastError, null);
+  assert.ok(delivery.deliveredAt);
+
+  const request = received[received.length - 1];
+  assert.equal(request.body, queued.payload);
+  assert.equal(request.headers['x-webhook-id'], queued.id);
+  assert.equal(request.headers['x-webhook-event'], 'transaction.created');
+  assert.deepEqual(JSON.parse(request.body).data, { transaction: { id: 'tx-1' } });
+});
+
+test('reschedules a delivery the receiver rejects', async () => {
+  // Signed with a secret the receiver doesn't know
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { userId, url: receiverUrl, secret: generateWebhookSecret(), events: '*' },
+  });
+  const queued = await webhookService.enqueueFor(endpoint.id, 'webhook.test', { message: 'hello' });
+  const sentAt = Date.now();
+
+  const delivery = await webhookService.attempt({ ...queued, attempts: 1 }, endpoint, prisma);
+
+  assert.equal(delivery.status, 'PENDING');
+  assert.equal(delivery.responseStatus, 401);
+  assert.equal(delivery.lastError, 'Endpoint responded with 401');
+  assert.ok(delivery.nextAttemptAt.getTime() > sentAt);
+  assert.equal(delivery.deliveredAt, null);
+});
+
+test('refuses to deliver to a loopback address in production', async () => {
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { userId, url: receiverUrl, secret: SECRET, events: '*' },
+  });
+  const queued = await webhookService.enqueueFor(endpoint.id, 'webhook.test', { message: 'hello' });
+  const requests = received.length;
+
+  process.env.NODE_ENV = 'production';
+  try {
+    const delivery = await webhookService.attempt({ ...queued, attempts: 1 }, endpoint, prisma);
+
+    assert.notEqual(delivery.status, 'SUCCEEDED');
+    assert.equal(delivery.responseStatus, null);
+    assert.match(delivery.lastError ?? '', /private address/);
+    assert.equal(received.length, requests);
+  } finally {
+    process.env.NODE_ENV = 'test';
+  }
+});
@@ -17,6 +17,7 @@ import Overview from "./pages/dashboard/Overview";
 import Wallet from "./pages/dashboard/Wallet";
 import Market from "./pages/dashboard/Market";
 import Trade from "./pages/dashboard/Trade";
+import Security from "./pages/dashboard/Security";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -49,6 +50,7 @@ const App = () => {
                   <Route path="wallet" element={<Wallet />} />
                   <Route path="market" element={<Market />} />
                   <Route path="trade" element={<Trade />} />
+                  <Route path="security" element={<Security />} />
                 </Route>
                 <Route path="*" element={<NotFound />} />
               </Routes>
@@ -3,6 +3,7 @@ import { Home, Wallet, TrendingUp, Repeat, Heart } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { UserProfile } from "@/components/UserProfile";
+import { NotificationBell } from "@/components/NotificationBell";
 
 const navItems = [
   { path: "/dashboard", icon: Home, label: "Overview" },
@@ -26,6 +27,7 @@ export const DashboardLayout = () => {
           
           <div className="flex items-center gap-4">
             <ThemeToggle />
+            <NotificationBell />
             <UserProfile />
           </div>
         </div>
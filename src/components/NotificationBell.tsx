@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bell, BellOff, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { notificationService, Notification } from "@/services/notification.service";
+
+// How often the unread badge is refreshed
+const POLL_INTERVAL_MS = 30000;
+
+export const NotificationBell = () => {
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [enabled, setEnabled] = useState(true);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const result = await notificationService.getUnreadCount();
+      setUnreadCount(result.count);
+      setEnabled(result.enabled);
+    } catch (error) {
+      console.error("Failed to fetch unread notifications:", error);
+    }
+  }, []);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setNotifications(await notificationService.getNotifications({ limit: 20 }));
+    } catch (error) {
+      console.error("Failed to fetch notifications:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchUnreadCount]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchNotifications();
+    }
+  }, [isOpen, fetchNotifications]);
+
+  const handleMarkRead = async (notification: Notification) => {
+    if (notification.isRead) return;
+
+    try {
+      await notificationService.markRead(notification.id);
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, isRead: true } : n)));
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    } catch (error) {
+      console.error("Failed to mark notification as read:", error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  };
+
+  const handleDelete = async (notification: Notification) => {
+    try {
+      await notificationService.deleteNotification(notification.id);
+      setNotifications(prev => prev.filter(n => n.id !== notification.id));
+      if (!notification.isRead) {
+        setUnreadCount(prev => Math.max(prev - 1, 0));
+      }
+    } catch (error) {
+      console.error("Failed to delete notification:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative transition-all duration-300 hover:scale-110"
+          aria-label="Notifications"
+        >
+          {enabled ? <Bell className="h-5 w-5" /> : <BellOff className="h-5 w-5 text-muted-foreground" />}
+          {enabled && unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-bold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              className="text-xs text-primary hover:underline"
+              onClick={handleMarkAllRead}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+
+        {!enabled && (
+          <p className="px-3 py-2 text-xs text-muted-foreground border-b">
+            Notifications are turned off in your settings. Nothing new will arrive here.
+          </p>
+        )}
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading && notifications.length === 0 ? (
+            <p className="px-3 py-6 text-sm text-center text-muted-foreground">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-3 py-6 text-sm text-center text-muted-foreground">You're all caught up.</p>
+          ) : (
+            notifications.map(notification => (
+              <div
+                key={notification.id}
+                onClick={() => handleMarkRead(notification)}
+                className={cn(
+                  "group flex gap-2 px-3 py-2 border-b last:border-b-0 cursor-pointer hover:bg-accent transition-colors",
+                  !notification.isRead && "bg-primary/5"
+                )}
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                    notification.isRead ? "bg-transparent" : "bg-primary"
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm truncate", !notification.isRead && "font-semibold")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{notification.message}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground transition-opacity"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(notification);
+                  }}
+                  aria-label="Delete notification"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { format } from "date-fns";
+import { Copy, KeyRound, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { authService, TwoFactorSetup, TwoFactorStatus } from "@/services/auth.service";
+
+type Mode = "idle" | "setup" | "codes" | "regenerate" | "disable";
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  return (axios.isAxiosError(error) && error.response?.data?.error) || fallback;
+};
+
+const CodeInput = ({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled: boolean }) => (
+  <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}>
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export const TwoFactorSettings = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await authService.getTwoFactorStatus());
+    } catch (error) {
+      console.error("Failed to fetch two-factor status:", error);
+      toast.error("Failed to load two-factor status");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const reset = (next: Mode = "idle") => {
+    setMode(next);
+    setCode("");
+    setPassword("");
+  };
+
+  const handleStartSetup = async () => {
+    setIsBusy(true);
+    try {
+      setSetup(await authService.setupTwoFactor());
+      reset("setup");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to start two-factor setup"));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setIsBusy(true);
+    try {
+      setRecoveryCodes(await authService.enableTwoFactor(code));
+      setSetup(null);
+      reset("codes");
+      toast.success("Two-factor authentication enabled");
+      fetchStatus();
+    } catch (error) {
+      setCode("");
+      toast.error(errorMessage(error, "Invalid verification code"));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setIsBusy(true);
+    try {
+      setRecoveryCodes(await authService.regenerateRecoveryCodes(code));
+      reset("codes");
+      fetchStatus();
+    } catch (error) {
+      setCode("");
+      toast.error(errorMessage(error, "Invalid verification code"));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsBusy(true);
+    try {
+      await authService.disableTwoFactor(password, code);
+      reset();
+      toast.success("Two-factor authentication disabled");
+      fetchStatus();
+    } catch (error) {
+      setCode("");
+      toast.error(errorMessage(error, "Failed to disable two-factor authentication"));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  return (
+    <Card className="glass p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Two-factor authentication</h2>
+            {status?.enabled && <Badge variant="secondary">On</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `Signing in needs a code from your authenticator app${status.enabledAt ? ` (on since ${format(new Date(status.enabledAt), "PP")})` : ""}.`
+              : "Protect your account with a code from an authenticator app when you sign in."}
+          </p>
+        </div>
+        {status && !status.enabled && mode === "idle" && (
+          <Button size="sm" onClick={handleStartSetup} disabled={isBusy}>
+            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set up
+          </Button>
+        )}
+      </div>
+
+      {!status ? (
+        <p className="py-4 text-sm text-center text-muted-foreground">Loading...</p>
+      ) : mode === "setup" && setup ? (
+        <div className="space-y-4">
+          <p className="text-sm">
+            Scan this QR code with Google Authenticator, 1Password, Authy or a similar app, then enter the
+            6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="h-44 w-44 rounded-md bg-white p-2" />
+            <div className="space-y-2 min-w-0">
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+              <div className="flex items-center gap-2">
+                <code className="text-sm font-mono break-all">{setup.secret}</code>
+                <Button variant="ghost" size="icon" onClick={() => copyToClipboard(setup.secret, "Key")} aria-label="Copy key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Verification code</Label>
+            <CodeInput value={code} onChange={setCode} disabled={isBusy} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleEnable} disabled={isBusy || code.length < 6}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enable
+            </Button>
+            <Button variant="outline" onClick={() => { setSetup(null); reset(); }} disabled={isBusy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : mode === "codes" ? (
+        <div className="space-y-4">
+          <div className="flex items-start gap-2 text-sm">
+            <KeyRound className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+            <p>
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your device.
+              They won't be shown again.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => copyToClipboard(recoveryCodes.join("\n"), "Recovery codes")}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy codes
+            </Button>
+            <Button onClick={() => { setRecoveryCodes([]); reset(); }}>
+              I've saved them
+            </Button>
+          </div>
+        </div>
+      ) : mode === "regenerate" || mode === "disable" ? (
+        <div className="space-y-4">
+          <p className="text-sm">
+            {mode === "disable"
+              ? "Enter your password and a code from your app (or a recovery code) to turn two-factor authentication off."
+              : "Enter a code from your app to replace your recovery codes. The old codes stop working."}
+          </p>
+          {mode === "disable" && (
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorPassword">Password</Label>
+              <Input
+                id="twoFactorPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="twoFactorCode">Verification code</Label>
+            {mode === "disable" ? (
+              <Input
+                id="twoFactorCode"
+                placeholder="123456 or xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="off"
+                disabled={isBusy}
+              />
+            ) : (
+              <CodeInput value={code} onChange={setCode} disabled={isBusy} />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={mode === "disable" ? "destructive" : "default"}
+              onClick={mode === "disable" ? handleDisable : handleRegenerate}
+              disabled={isBusy || !code || (mode === "disable" && !password)}
+            >
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "disable" ? "Turn off" : "Generate new codes"}
+            </Button>
+            <Button variant="outline" onClick={() => reset()} disabled={isBusy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : status.enabled ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => reset("regenerate")}>
+              New recovery codes
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => reset("disable")}>
+              Turn off
+            </Button>
+          </div>
+        </div>
+      ) : null}
+    </Card>
+  );
+};
@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { LogOut, User, Settings } from "lucide-react";
+import { LogOut, User, Settings, Shield } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 export const UserProfile = () => {
@@ -62,6 +62,10 @@ export const UserProfile = () => {
           <Settings className="mr-2 h-4 w-4" />
           <span>Settings</span>
         </DropdownMenuItem>
+        <DropdownMenuItem className="cursor-pointer" onClick={() => navigate("/dashboard/security")}>
+          <Shield className="mr-2 h-4 w-4" />
+          <span>Security</span>
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem 
           className="cursor-pointer text-destructive focus:text-destructive"
@@ -1,11 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authService, User } from '@/services/auth.service';
+import { authService, isTwoFactorChallenge, TwoFactorChallenge, User } from '@/services/auth.service';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves to a challenge when the account needs a second factor, otherwise null
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<{ recoveryCodesRemaining?: number }>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => void;
 }
@@ -27,7 +29,17 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const login = async (email: string, password: string) => {
     const response = await authService.login({ email, password });
+    if (isTwoFactorChallenge(response)) {
+      return response;
+    }
+    setUser(response.user);
+    return null;
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await authService.verifyTwoFactor(challengeToken, code);
     setUser(response.user);
+    return { recoveryCodesRemaining: response.recoveryCodesRemaining };
   };
 
   const register = async (email: string, password: string, name: string) => {
@@ -45,6 +57,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     isAuthenticated: !!user,
     isLoading,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
   };
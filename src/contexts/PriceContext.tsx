@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import axios from 'axios';
+import { toNumber } from '@/lib/utils';
 
 interface CoinPrice {
   coinId: string;
@@ -11,7 +12,8 @@ interface CoinPrice {
   priceChange24h: number | null;
   priceChangePerc24h: number | null;
   lastUpdated: string;
-  image?: string; // CoinGecko logo URL
+  image?: string; // Logo URL from CoinList
+  marketCapRank: number | null;
 }
 
 interface PriceContextType {
@@ -50,43 +52,25 @@ export const PriceProvider: React.FC<PriceProviderProps> = ({
       if (response?.data?.success && Array.isArray(response.data.data)) {
         const priceMap = new Map<string, CoinPrice>();
         
-        // Logo mapping for popular coins
-        const logoMap: Record<string, string> = {
-          'bitcoin': 'https://assets.coingecko.com/coins/images/1/small/bitcoin.png',
-          'ethereum': 'https://assets.coingecko.com/coins/images/279/small/ethereum.png',
-          'tether': 'https://assets.coingecko.com/coins/images/325/small/Tether.png',
-          'binancecoin': 'https://assets.coingecko.com/coins/images/825/small/bnb-icon2_2x.png',
-          'solana': 'https://assets.coingecko.com/coins/images/4128/small/solana.png',
-          'ripple': 'https://assets.coingecko.com/coins/images/44/small/xrp-symbol-white-128.png',
-          'usd-coin': 'https://assets.coingecko.com/coins/images/6319/small/USD_Coin_icon.png',
-          'cardano': 'https://assets.coingecko.com/coins/images/975/small/cardano.png',
-          'dogecoin': 'https://assets.coingecko.com/coins/images/5/small/dogecoin.png',
-          'tron': 'https://assets.coingecko.com/coins/images/1094/small/tron-logo.png',
-          'avalanche-2': 'https://assets.coingecko.com/coins/images/12559/small/Avalanche_Circle_RedWhite_Trans.png',
-          'polkadot': 'https://assets.coingecko.com/coins/images/12171/small/polkadot.png',
-          'chainlink': 'https://assets.coingecko.com/coins/images/877/small/chainlink-new-logo.png',
-          'matic-network': 'https://assets.coingecko.com/coins/images/4713/small/matic-token-icon.png',
-          'litecoin': 'https://assets.coingecko.com/coins/images/2/small/litecoin.png',
-        };
-        
         response.data.data.forEach((coin: any) => {
           // Validate coin data before adding
-          if (coin && coin.coinId && coin.symbol && typeof coin.currentPrice === 'number') {
+          // Prices arrive as decimal strings
+          if (coin && coin.coinId && coin.symbol && coin.currentPrice != null && !isNaN(Number(coin.currentPrice))) {
             // Only store by coinId to avoid duplicates
-            // Add logo URL if available
-            const coinWithLogo: CoinPrice = {
+            const coinPrice: CoinPrice = {
               coinId: coin.coinId,
               symbol: coin.symbol,
               name: coin.name || coin.symbol,
-              currentPrice: coin.currentPrice,
-              marketCap: coin.marketCap ?? null,
-              volume24h: coin.volume24h ?? null,
-              priceChange24h: coin.priceChange24h ?? null,
-              priceChangePerc24h: coin.priceChangePerc24h ?? null,
+              currentPrice: toNumber(coin.currentPrice),
+              marketCap: coin.marketCap != null ? toNumber(coin.marketCap) : null,
+              volume24h: coin.volume24h != null ? toNumber(coin.volume24h) : null,
+              priceChange24h: coin.priceChange24h != null ? toNumber(coin.priceChange24h) : null,
+              priceChangePerc24h: coin.priceChangePerc24h != null ? toNumber(coin.priceChangePerc24h) : null,
               lastUpdated: coin.lastUpdated || new Date().toISOString(),
-              image: logoMap[coin.coinId] || coin.image || undefined,
+              image: coin.image || undefined,
+              marketCapRank: coin.marketCapRank ?? null,
             };
-            priceMap.set(coin.coinId, coinWithLogo);
+            priceMap.set(coin.coinId, coinPrice);
           }
         });
         
@@ -130,14 +114,16 @@ export const PriceProvider: React.FC<PriceProviderProps> = ({
   };
 
   const getPriceBySymbol = (symbol: string): CoinPrice | undefined => {
-    // Search through all coins to find by symbol
+    // Several coins can share a symbol; like the backend, pick the best-ranked one
     const upperSymbol = symbol.toUpperCase();
+    let match: CoinPrice | undefined;
     for (const coin of prices.values()) {
-      if (coin.symbol.toUpperCase() === upperSymbol) {
-        return coin;
+      if (coin.symbol.toUpperCase() !== upperSymbol) continue;
+      if (!match || (coin.marketCapRank ?? Infinity) < (match.marketCapRank ?? Infinity)) {
+        match = coin;
       }
     }
-    return undefined;
+    return match;
   };
 
   const getPriceByCoinId = (coinId: string): CoinPrice | undefined => {
@@ -185,6 +171,6 @@ export const usePrices = (): PriceContextType => {
 export const useCoinPrice = (symbolOrCoinId: string): CoinPrice | undefined => {
   const { getPriceBySymbol, getPriceByCoinId } = usePrices();
   
-  // Try symbol first (BTC, ETH), then coinId (bitcoin, ethereum)
-  return getPriceBySymbol(symbolOrCoinId) || getPriceByCoinId(symbolOrCoinId);
+  // Like the backend: an exact coinId (bitcoin) first, then a symbol (BTC)
+  return getPriceByCoinId(symbolOrCoinId) || getPriceBySymbol(symbolOrCoinId);
 };
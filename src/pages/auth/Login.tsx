@@ -4,29 +4,42 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useAuth } from '@/contexts/AuthContext';
-import { Heart, Loader2 } from 'lucide-react';
+import { Heart, Loader2, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import axios from 'axios';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, completeTwoFactorLogin } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  const welcome = () => {
+    toast({
+      title: 'Welcome back!',
+      description: 'You have successfully logged in.',
+    });
+    navigate('/dashboard');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await login(email, password);
-      toast({
-        title: 'Welcome back!',
-        description: 'You have successfully logged in.',
-      });
-      navigate('/dashboard');
+      const challenge = await login(email, password);
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken);
+        return;
+      }
+      welcome();
     } catch (error: any) {
       toast({
         title: 'Login failed',
@@ -38,6 +51,137 @@ export default function Login() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setIsLoading(true);
+
+    try {
+      const { recoveryCodesRemaining } = await completeTwoFactorLogin(challengeToken, code);
+      if (recoveryCodesRemaining !== undefined) {
+        toast({
+          title: 'Recovery code used',
+          description: `You have ${recoveryCodesRemaining} recovery code${recoveryCodesRemaining === 1 ? '' : 's'} left. You can generate new ones under Security.`,
+        });
+      }
+      welcome();
+    } catch (error) {
+      const message: string = (axios.isAxiosError(error) && error.response?.data?.error) || 'Invalid verification code';
+      setCode('');
+
+      // The challenge is gone once it expires or runs out of attempts
+      if (message.includes('sign in again')) {
+        setChallengeToken(null);
+        setPassword('');
+      }
+
+      toast({
+        title: 'Verification failed',
+        description: message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelChallenge = () => {
+    setChallengeToken(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setPassword('');
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <Card className="w-full max-w-md glass">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <ShieldCheck className="h-12 w-12 text-primary" />
+            </div>
+            <CardTitle className="text-2xl font-bold text-gradient">Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleVerify}>
+            <CardContent className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery Code</Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="off"
+                    autoFocus
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    autoFocus
+                    disabled={isLoading}
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <button
+                type="button"
+                className="w-full text-xs text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+                disabled={isLoading}
+              >
+                {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+              </button>
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button
+                type="submit"
+                className="w-full glow"
+                disabled={isLoading || (!useRecoveryCode && code.length < 6) || !code}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:text-foreground"
+                onClick={cancelChallenge}
+                disabled={isLoading}
+              >
+                Back to login
+              </button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4">
       <Card className="w-full max-w-md glass">
@@ -1,43 +1,145 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Heart, Loader2, Eye, EyeOff, CheckCircle } from 'lucide-react';
+import { Heart, Loader2, Eye, EyeOff, CheckCircle, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import axios from 'axios';
 
-export default function ResetPassword() {
+const apiUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+const errorMessageFrom = (error: unknown, fallback: string): string => {
+  if (!axios.isAxiosError(error)) return fallback;
+  return error.response?.data?.error ||
+    error.response?.data?.errors?.[0]?.msg ||
+    fallback;
+};
+
+// Step 1: ask for a reset link by email
+function RequestResetForm() {
   const [email, setEmail] = useState('');
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [showNewPassword, setShowNewPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [isSuccess, setIsSuccess] = useState(false);
-  const navigate = useNavigate();
+  const [isSent, setIsSent] = useState(false);
   const { toast } = useToast();
 
-  const validateForm = (): boolean => {
-    if (!email) {
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !email.includes('@')) {
       toast({
         title: 'Validation Error',
-        description: 'Please enter your email address',
+        description: 'Please enter a valid email address',
         variant: 'destructive',
       });
-      return false;
+      return;
     }
 
-    if (!email.includes('@')) {
+    setIsLoading(true);
+
+    try {
+      await axios.post(`${apiUrl}/auth/reset-password/request`, { email });
+      setIsSent(true);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+
       toast({
-        title: 'Validation Error',
-        description: 'Please enter a valid email address',
+        title: 'Request Failed',
+        description: errorMessageFrom(error, 'Failed to request a password reset. Please try again.'),
         variant: 'destructive',
       });
-      return false;
+    } finally {
+      setIsLoading(false);
     }
+  };
+
+  if (isSent) {
+    return (
+      <Card className="w-full max-w-md glass">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Mail className="h-16 w-16 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-gradient">Check Your Email</CardTitle>
+          <CardDescription>
+            If an account exists for <span className="font-medium text-foreground">{email}</span>, we've sent a link
+            to reset its password. The link expires in 1 hour.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="flex flex-col space-y-2">
+          <Button variant="outline" className="w-full" onClick={() => setIsSent(false)}>
+            Use a Different Email
+          </Button>
+          <Link to="/login" className="text-sm text-primary hover:underline">
+            Back to Login
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md glass">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-4">
+          <Heart className="h-12 w-12 text-primary fill-primary" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-gradient">Reset Your Password</CardTitle>
+        <CardDescription>
+          Enter your email and we'll send you a link to choose a new password
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="your.email@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={isLoading}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <Button type="submit" className="w-full glow" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending Link...
+              </>
+            ) : (
+              'Send Reset Link'
+            )}
+          </Button>
+          <div className="text-sm text-center text-muted-foreground">
+            Remember your password?{' '}
+            <Link to="/login" className="text-primary hover:underline">
+              Back to Login
+            </Link>
+          </div>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
 
+// Step 2: choose a new password with the token from the emailed link
+function ConfirmResetForm({ token }: { token: string }) {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showNewPassword, setShowNewPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const validateForm = (): boolean => {
     if (newPassword.length < 8) {
       toast({
         title: 'Validation Error',
@@ -69,14 +171,11 @@ export default function ResetPassword() {
     setIsLoading(true);
 
     try {
-      const apiUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
-      const response = await axios.post(`${apiUrl}/auth/reset-password`, {
-        email,
+      const response = await axios.post(`${apiUrl}/auth/reset-password/confirm`, {
+        token,
         newPassword,
       });
 
-      console.log('✅ Password reset successful:', response.data);
-
       setIsSuccess(true);
       toast({
         title: 'Success!',
@@ -87,16 +186,12 @@ export default function ResetPassword() {
       setTimeout(() => {
         navigate('/login');
       }, 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Password reset error:', error);
-      
-      const errorMessage = error.response?.data?.error || 
-                          error.response?.data?.errors?.[0]?.msg ||
-                          'Failed to reset password. Please try again.';
-      
+
       toast({
         title: 'Reset Failed',
-        description: errorMessage,
+        description: errorMessageFrom(error, 'Failed to reset password. Please try again.'),
         variant: 'destructive',
       });
     } finally {
@@ -106,142 +201,136 @@ export default function ResetPassword() {
 
   if (isSuccess) {
     return (
-      <div className="min-h-screen flex items-center justify-center px-4">
-        <Card className="w-full max-w-md glass">
-          <CardHeader className="text-center">
-            <div className="flex justify-center mb-4">
-              <CheckCircle className="h-16 w-16 text-success" />
-            </div>
-            <CardTitle className="text-2xl font-bold text-gradient">Password Reset Successful!</CardTitle>
-            <CardDescription>
-              Your password has been successfully updated. Redirecting you to login...
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <div className="animate-pulse">
-              <p className="text-sm text-muted-foreground">
-                Redirecting in 3 seconds...
-              </p>
-            </div>
-          </CardContent>
-          <CardFooter className="flex justify-center">
-            <Link to="/login">
-              <Button variant="outline">Go to Login Now</Button>
-            </Link>
-          </CardFooter>
-        </Card>
-      </div>
-    );
-  }
-
-  return (
-    <div className="min-h-screen flex items-center justify-center px-4">
       <Card className="w-full max-w-md glass">
         <CardHeader className="text-center">
           <div className="flex justify-center mb-4">
-            <Heart className="h-12 w-12 text-primary fill-primary" />
+            <CheckCircle className="h-16 w-16 text-success" />
           </div>
-          <CardTitle className="text-2xl font-bold text-gradient">Reset Your Password</CardTitle>
+          <CardTitle className="text-2xl font-bold text-gradient">Password Reset Successful!</CardTitle>
           <CardDescription>
-            Enter your email and create a new password
+            Your password has been successfully updated. Redirecting you to login...
           </CardDescription>
         </CardHeader>
-        <form onSubmit={handleSubmit}>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email Address</Label>
+        <CardContent className="text-center">
+          <div className="animate-pulse">
+            <p className="text-sm text-muted-foreground">
+              Redirecting in 3 seconds...
+            </p>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link to="/login">
+            <Button variant="outline">Go to Login Now</Button>
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md glass">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-4">
+          <Heart className="h-12 w-12 text-primary fill-primary" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-gradient">Choose a New Password</CardTitle>
+        <CardDescription>
+          Enter a new password for your account
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">New Password</Label>
+            <div className="relative">
               <Input
-                id="email"
-                type="email"
-                placeholder="your.email@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                id="newPassword"
+                type={showNewPassword ? 'text' : 'password'}
+                placeholder="Enter new password (min 8 characters)"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
                 required
                 disabled={isLoading}
+                minLength={8}
               />
+              <button
+                type="button"
+                onClick={() => setShowNewPassword(!showNewPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                disabled={isLoading}
+              >
+                {showNewPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
             </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="newPassword">New Password</Label>
-              <div className="relative">
-                <Input
-                  id="newPassword"
-                  type={showNewPassword ? 'text' : 'password'}
-                  placeholder="Enter new password (min 8 characters)"
-                  value={newPassword}
-                  onChange={(e) => setNewPassword(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  minLength={8}
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowNewPassword(!showNewPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  disabled={isLoading}
-                >
-                  {showNewPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </button>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Password must be at least 8 characters long
-              </p>
-            </div>
+            <p className="text-xs text-muted-foreground">
+              Password must be at least 8 characters long
+            </p>
+          </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword">Confirm New Password</Label>
-              <div className="relative">
-                <Input
-                  id="confirmPassword"
-                  type={showConfirmPassword ? 'text' : 'password'}
-                  placeholder="Confirm your new password"
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  minLength={8}
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  disabled={isLoading}
-                >
-                  {showConfirmPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </button>
-              </div>
-              {confirmPassword && newPassword !== confirmPassword && (
-                <p className="text-xs text-destructive">
-                  Passwords do not match
-                </p>
-              )}
-              {confirmPassword && newPassword === confirmPassword && (
-                <p className="text-xs text-success">
-                  ✓ Passwords match
-                </p>
-              )}
-            </div>
-          </CardContent>
-          <CardFooter className="flex flex-col space-y-4">
-            <Button type="submit" className="w-full glow" disabled={isLoading}>
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Resetting Password...
-                </>
-              ) : (
-                'Reset Password'
-              )}
-            </Button>
-            <div className="text-sm text-center text-muted-foreground">
-              Remember your password?{' '}
-              <Link to="/login" className="text-primary hover:underline">
-                Back to Login
-              </Link>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm New Password</Label>
+            <div className="relative">
+              <Input
+                id="confirmPassword"
+                type={showConfirmPassword ? 'text' : 'password'}
+                placeholder="Confirm your new password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isLoading}
+                minLength={8}
+              />
+              <button
+                type="button"
+                onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                disabled={isLoading}
+              >
+                {showConfirmPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
             </div>
-          </CardFooter>
-        </form>
-      </Card>
+            {confirmPassword && newPassword !== confirmPassword && (
+              <p className="text-xs text-destructive">
+                Passwords do not match
+              </p>
+            )}
+            {confirmPassword && newPassword === confirmPassword && (
+              <p className="text-xs text-success">
+                ✓ Passwords match
+              </p>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-4">
+          <Button type="submit" className="w-full glow" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Resetting Password...
+              </>
+            ) : (
+              'Reset Password'
+            )}
+          </Button>
+          <div className="text-sm text-center text-muted-foreground">
+            Link expired?{' '}
+            <Link to="/reset-password" className="text-primary hover:underline">
+              Request a new one
+            </Link>
+          </div>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      {token ? <ConfirmResetForm token={token} /> : <RequestResetForm />}
     </div>
   );
 }
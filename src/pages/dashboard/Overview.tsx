@@ -5,6 +5,7 @@ import { motion } from "framer-motion";
 import { Sparkline } from "@/components/Sparkline";
 import { usePrices } from "@/contexts/PriceContext";
 import axios from "axios";
+import { toNumber } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface TopHolding {
@@ -47,7 +48,14 @@ export default function Overview() {
           headers: { Authorization: `Bearer ${token}` }
         });
 
-        const holdings = response.data || [];
+        const holdings: TopHolding[] = (response.data || []).map((h: TopHolding) => ({
+          ...h,
+          quantity: toNumber(h.quantity),
+          currentPrice: toNumber(h.currentPrice),
+          purchasePrice: toNumber(h.purchasePrice),
+          value: toNumber(h.value),
+          profitLoss: toNumber(h.profitLoss),
+        }));
         setTopHoldings(holdings);
 
         // Calculate portfolio stats from holdings
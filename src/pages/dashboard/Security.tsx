@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Laptop, Loader2, LogOut, Shield, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { useAuth } from "@/contexts/AuthContext";
+import { authService, Session } from "@/services/auth.service";
+
+// Rough "Browser on OS" label from a user agent string
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null): boolean => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+export default function Security() {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+      toast.error("Failed to load sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const endLocalSession = () => {
+    logout();
+    navigate("/login");
+  };
+
+  const handleRevoke = async (session: Session) => {
+    setPendingId(session.id);
+    try {
+      await authService.revokeSession(session.id);
+      if (session.current) {
+        endLocalSession();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      toast.success("Session signed out");
+    } catch (error) {
+      console.error("Failed to revoke session:", error);
+      toast.error("Failed to sign out session");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setPendingId("others");
+    try {
+      const count = await authService.revokeAllSessions({ exceptCurrent: true });
+      setSessions(prev => prev.filter(s => s.current));
+      toast.success(count === 1 ? "Signed out 1 other session" : `Signed out ${count} other sessions`);
+    } catch (error) {
+      console.error("Failed to revoke sessions:", error);
+      toast.error("Failed to sign out other sessions");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setPendingId("all");
+    try {
+      await authService.revokeAllSessions();
+      endLocalSession();
+    } catch (error) {
+      console.error("Failed to revoke sessions:", error);
+      toast.error("Failed to sign out everywhere");
+      setPendingId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.current).length;
+
+  return (
+    <div className="container mx-auto px-6 py-8 max-w-3xl">
+      <div className="flex items-center gap-3 mb-6">
+        <Shield className="h-6 w-6 text-primary" />
+        <div>
+          <h1 className="text-3xl font-bold">Security</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Manage how you sign in and where you're signed in
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <TwoFactorSettings />
+      </div>
+
+      <Card className="glass p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold">Active sessions</h2>
+            <p className="text-sm text-muted-foreground">
+              Signing out a session ends it on that device right away.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRevokeOthers}
+              disabled={otherSessions === 0 || pendingId !== null}
+            >
+              {pendingId === "others" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign out other sessions
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleRevokeAll}
+              disabled={pendingId !== null}
+            >
+              {pendingId === "all" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign out everywhere
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="py-6 text-sm text-center text-muted-foreground">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="py-6 text-sm text-center text-muted-foreground">No active sessions.</p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+
+              return (
+                <div key={session.id} className="flex items-center gap-4 py-3">
+                  <DeviceIcon className="h-8 w-8 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{describeDevice(session.userAgent)}</p>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ipAddress || "Unknown IP"} · Last used{" "}
+                      {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })} · Signed in{" "}
+                      {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(session)}
+                    disabled={pendingId !== null}
+                    aria-label="Sign out session"
+                  >
+                    {pendingId === session.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
 import { toast } from "sonner";
 import { usePrices } from "@/contexts/PriceContext";
 import axios from "axios";
+import { toNumber } from "@/lib/utils";
 
 interface UserHolding {
   symbol: string;
@@ -43,7 +44,9 @@ export default function Trade() {
   
   const [selectedCoinId, setSelectedCoinId] = useState(defaultCoinId);
   const [amount, setAmount] = useState("");
-  const [mode, setMode] = useState<"buy" | "sell">("buy");
+  const [mode, setMode] = useState<"buy" | "sell" | "swap">("buy");
+  // Coin received in Swap mode; selectedCoinId is the coin given up
+  const [targetCoinId, setTargetCoinId] = useState("");
 
   // Update selected coin when URL parameter changes
   useEffect(() => {
@@ -55,6 +58,13 @@ export default function Trade() {
   const selectedCoin = prices.get(selectedCoinId);
   const estimatedTotal = selectedCoin && amount ? (parseFloat(amount) * selectedCoin.currentPrice).toFixed(2) : "0.00";
 
+  // Swap rate from the two live prices; the server settles at its own synced prices
+  const targetCoin = prices.get(targetCoinId);
+  const swapRate = selectedCoin && targetCoin && targetCoin.currentPrice > 0
+    ? selectedCoin.currentPrice / targetCoin.currentPrice
+    : 0;
+  const estimatedReceived = amount ? parseFloat(amount) * swapRate : 0;
+
   // Get or create portfolio and fetch holdings on component mount
   useEffect(() => {
     const getOrCreatePortfolio = async () => {
@@ -123,7 +133,7 @@ export default function Trade() {
 
       // Filter assets with quantity > 0 and map to holdings format
       const holdings: UserHolding[] = response.data
-        .filter((asset: any) => asset.quantity > 0)
+        .filter((asset: any) => toNumber(asset.quantity) > 0)
         .map((asset: any) => {
           // Try to find matching coin in prices to get coinId
           const priceData = prices.get(asset.symbol.toLowerCase()) ||
@@ -132,7 +142,7 @@ export default function Trade() {
           return {
             symbol: asset.symbol,
             name: asset.name,
-            quantity: asset.quantity,
+            quantity: toNumber(asset.quantity),
             coinId: priceData?.coinId || asset.symbol.toLowerCase(),
           };
         });
@@ -146,9 +156,9 @@ export default function Trade() {
     }
   };
 
-  // Refetch holdings when switching to Sell mode
+  // Refetch holdings when switching to Sell or Swap mode
   useEffect(() => {
-    if (mode === 'sell' && portfolioId && userHoldings.length === 0) {
+    if (mode !== 'buy' && portfolioId && userHoldings.length === 0) {
       fetchUserHoldings();
     }
   }, [mode, portfolioId]);
@@ -159,8 +169,8 @@ export default function Trade() {
       // In Buy mode, use URL param or first available coin
       const firstCoin = coinFromUrl || availableCoins[0]?.coinId || 'bitcoin';
       setSelectedCoinId(firstCoin);
-    } else if (mode === 'sell') {
-      // In Sell mode, use first holding or keep current if it exists in holdings
+    } else {
+      // In Sell and Swap mode, use first holding or keep current if it exists in holdings
       if (userHoldings.length > 0) {
         const currentCoinInHoldings = userHoldings.find(h => h.coinId === selectedCoinId);
         if (!currentCoinInHoldings) {
@@ -171,6 +181,14 @@ export default function Trade() {
     }
   }, [mode, userHoldings]);
 
+  // Keep the Swap target on a different coin from the one being given up
+  const firstOtherCoinId = availableCoins.find(coin => coin.coinId !== selectedCoinId)?.coinId;
+  useEffect(() => {
+    if (mode === 'swap' && firstOtherCoinId && (!targetCoinId || targetCoinId === selectedCoinId)) {
+      setTargetCoinId(firstOtherCoinId);
+    }
+  }, [mode, selectedCoinId, targetCoinId, firstOtherCoinId]);
+
   if (isLoading || !selectedCoin) {
     return (
       <div className="container mx-auto px-6 py-8">
@@ -187,8 +205,8 @@ export default function Trade() {
       return;
     }
 
-    // Validate sell amount against holdings
-    if (mode === "sell") {
+    // Validate sell and swap amount against holdings
+    if (mode !== "buy") {
       const currentHolding = userHoldings.find(h => h.coinId === selectedCoinId);
       if (!currentHolding) {
         toast.error("You don't own this cryptocurrency");
@@ -200,6 +218,11 @@ export default function Trade() {
       }
     }
 
+    if (mode === "swap" && (!targetCoin || targetCoin.symbol === selectedCoin.symbol)) {
+      toast.error("Please choose a different cryptocurrency to receive");
+      return;
+    }
+
     if (!portfolioId) {
       toast.error("Portfolio not initialized. Please refresh the page.");
       return;
@@ -217,6 +240,30 @@ export default function Trade() {
         return;
       }
 
+      if (mode === "swap" && targetCoin) {
+        // The server records the swap as a linked SELL and BUY at market prices
+        const response = await axios.post(
+          `${apiUrl}/transactions/swap`,
+          {
+            portfolioId,
+            fromSymbol: selectedCoin.symbol,
+            toSymbol: targetCoin.symbol,
+            quantity: amount,
+          },
+          {
+            headers: { Authorization: `Bearer ${token}` }
+          }
+        );
+
+        const received = toNumber(response.data.transactions[1].quantity);
+        toast.success("Swap Successful!", {
+          description: `${amount} ${selectedCoin.symbol} for ${received.toLocaleString()} ${targetCoin.symbol}`
+        });
+        setAmount("");
+        fetchUserHoldings(portfolioId);
+        return;
+      }
+
       // Save transaction to database
       await axios.post(
         `${apiUrl}/transactions`,
@@ -224,8 +271,9 @@ export default function Trade() {
           portfolioId,
           type: mode.toUpperCase(),
           symbol: selectedCoin.symbol,
-          quantity: parseFloat(amount),
-          price: selectedCoin.currentPrice,
+          // Send the typed amount as-is so the server stores it exactly
+          quantity: amount,
+          price: selectedCoin.currentPrice.toFixed(8),
           fee: 0,
           notes: `${mode === 'buy' ? 'Bought' : 'Sold'} via Trade page`
         },
@@ -276,8 +324,8 @@ export default function Trade() {
         >
           <Card className="glass p-6 glow">
             <div className="space-y-6">
-              {/* Buy/Sell Toggle */}
-              <div className="grid grid-cols-2 gap-2 p-1 glass rounded-lg">
+              {/* Buy/Sell/Swap Toggle */}
+              <div className="grid grid-cols-3 gap-2 p-1 glass rounded-lg">
                 <Button
                   variant={mode === "buy" ? "default" : "ghost"}
                   onClick={() => setMode("buy")}
@@ -292,18 +340,27 @@ export default function Trade() {
                 >
                   Sell
                 </Button>
+                <Button
+                  variant={mode === "swap" ? "default" : "ghost"}
+                  onClick={() => setMode("swap")}
+                  className="transition-all"
+                >
+                  Swap
+                </Button>
               </div>
 
               {/* Coin Selection */}
               <div className="space-y-2">
                 <Label>
-                  {mode === "buy" ? "Select Cryptocurrency to Buy" : "Select Cryptocurrency to Sell"}
+                  {mode === "buy"
+                    ? "Select Cryptocurrency to Buy"
+                    : mode === "sell" ? "Select Cryptocurrency to Sell" : "Select Cryptocurrency to Swap"}
                 </Label>
                 
-                {mode === "sell" && userHoldings.length === 0 && !loadingHoldings ? (
+                {mode !== "buy" && userHoldings.length === 0 && !loadingHoldings ? (
                   <div className="glass p-4 rounded-lg text-center">
                     <p className="text-sm text-muted-foreground">
-                      You currently have no coins to sell.
+                      You currently have no coins to {mode}.
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
                       Buy some cryptocurrencies first!
@@ -315,7 +372,7 @@ export default function Trade() {
                     onValueChange={(value) => {
                       setSelectedCoinId(value);
                     }}
-                    disabled={mode === "sell" && (loadingHoldings || userHoldings.length === 0)}
+                    disabled={mode !== "buy" && (loadingHoldings || userHoldings.length === 0)}
                   >
                     <SelectTrigger className="glass">
                       <SelectValue />
@@ -339,7 +396,7 @@ export default function Trade() {
                           </SelectItem>
                         ))
                       ) : (
-                        // Sell mode: Show only user's holdings
+                        // Sell and Swap mode: Show only user's holdings
                         userHoldings.map(holding => {
                           const priceData = prices.get(holding.coinId) ||
                                           Array.from(prices.values()).find(p => p.symbol === holding.symbol);
@@ -369,11 +426,42 @@ export default function Trade() {
                 )}
               </div>
 
+              {/* Swap Target Selection */}
+              {mode === "swap" && (
+                <div className="space-y-2">
+                  <Label>Select Cryptocurrency to Receive</Label>
+                  <Select value={targetCoinId} onValueChange={setTargetCoinId}>
+                    <SelectTrigger className="glass">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableCoins
+                        .filter(coin => coin.coinId !== selectedCoinId)
+                        .map(coin => (
+                          <SelectItem key={coin.coinId} value={coin.coinId}>
+                            <div className="flex items-center gap-2">
+                              {coin.image ? (
+                                <img src={coin.image} alt={coin.name} className="h-5 w-5 rounded-full" />
+                              ) : (
+                                <div className="h-5 w-5 rounded-full bg-primary/10 flex items-center justify-center text-xs font-bold">
+                                  {coin.symbol.slice(0, 1)}
+                                </div>
+                              )}
+                              <span>{coin.symbol}</span>
+                              <span className="text-muted-foreground">— {coin.name}</span>
+                            </div>
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Amount Input */}
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <Label>Amount ({selectedCoin.symbol})</Label>
-                  {mode === "sell" && (() => {
+                  {mode !== "buy" && (() => {
                     const currentHolding = userHoldings.find(h => h.coinId === selectedCoinId);
                     return currentHolding ? (
                       <span className="text-xs text-muted-foreground">
@@ -390,13 +478,13 @@ export default function Trade() {
                   className="glass text-lg"
                   step="0.01"
                   min="0"
-                  max={mode === "sell" ? 
+                  max={mode !== "buy" ? 
                     userHoldings.find(h => h.coinId === selectedCoinId)?.quantity : 
                     undefined
                   }
-                  disabled={mode === "sell" && userHoldings.length === 0}
+                  disabled={mode !== "buy" && userHoldings.length === 0}
                 />
-                {mode === "sell" && amount && (() => {
+                {mode !== "buy" && amount && (() => {
                   const currentHolding = userHoldings.find(h => h.coinId === selectedCoinId);
                   const amountNum = parseFloat(amount);
                   if (currentHolding && amountNum > currentHolding.quantity) {
@@ -426,13 +514,25 @@ export default function Trade() {
               </div>
 
               {/* Estimated Total */}
-              <div className="glass p-6 rounded-lg">
-                <p className="text-sm text-muted-foreground mb-2">Estimated Total</p>
-                <p className="text-3xl font-bold text-gradient">${estimatedTotal}</p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  {amount || "0"} {selectedCoin.symbol} × ${selectedCoin.currentPrice.toLocaleString()}
-                </p>
-              </div>
+              {mode === "swap" && targetCoin ? (
+                <div className="glass p-6 rounded-lg">
+                  <p className="text-sm text-muted-foreground mb-2">Estimated Received</p>
+                  <p className="text-3xl font-bold text-gradient">
+                    {estimatedReceived.toLocaleString(undefined, { maximumFractionDigits: 8 })} {targetCoin.symbol}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    1 {selectedCoin.symbol} = {swapRate.toLocaleString(undefined, { maximumFractionDigits: 8 })} {targetCoin.symbol} (≈ ${estimatedTotal})
+                  </p>
+                </div>
+              ) : (
+                <div className="glass p-6 rounded-lg">
+                  <p className="text-sm text-muted-foreground mb-2">Estimated Total</p>
+                  <p className="text-3xl font-bold text-gradient">${estimatedTotal}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {amount || "0"} {selectedCoin.symbol} × ${selectedCoin.currentPrice.toLocaleString()}
+                  </p>
+                </div>
+              )}
 
               {/* Action Buttons */}
               <div className="grid grid-cols-2 gap-3">
@@ -451,7 +551,7 @@ export default function Trade() {
                   className="glow"
                   disabled={isSaving || !portfolioId}
                 >
-                  {isSaving ? "Processing..." : `Confirm ${mode === "buy" ? "Buy" : "Sell"}`}
+                  {isSaving ? "Processing..." : `Confirm ${mode === "buy" ? "Buy" : mode === "sell" ? "Sell" : "Swap"}`}
                 </Button>
               </div>
             </div>
@@ -7,6 +7,7 @@ import { motion } from "framer-motion";
 import { Sparkline } from "@/components/Sparkline";
 import { usePrices } from "@/contexts/PriceContext";
 import axios from "axios";
+import { toNumber } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface Transaction {
@@ -20,6 +21,14 @@ interface Transaction {
   notes?: string;
 }
 
+// Transaction types that bring coins or cash into the wallet
+const INFLOW_TYPES = ['BUY', 'DEPOSIT', 'TRANSFER_IN', 'REWARD', 'STAKING', 'AIRDROP', 'GIFT_RECEIVED'];
+
+interface CashBalance {
+  balance: number;
+  currency: string;
+}
+
 interface Asset {
   id: string;
   symbol: string;
@@ -37,6 +46,7 @@ export default function Wallet() {
   const [loadingTransactions, setLoadingTransactions] = useState(false);
   const [loadingAssets, setLoadingAssets] = useState(false);
   const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const [cash, setCash] = useState<CashBalance | null>(null);
   
   // Fetch portfolio, assets, and transactions
   useEffect(() => {
@@ -58,6 +68,13 @@ export default function Wallet() {
 
           let userPortfolioId = portfolioResponse.data[0]?.id;
 
+          if (portfolioResponse.data[0]) {
+            setCash({
+              balance: toNumber(portfolioResponse.data[0].cashBalance),
+              currency: portfolioResponse.data[0].currency || 'USD',
+            });
+          }
+
           if (!userPortfolioId) {
             // Create default portfolio if none exists
             const createResponse = await axios.post(`${apiUrl}/portfolios`, 
@@ -76,7 +93,11 @@ export default function Wallet() {
             headers: { Authorization: `Bearer ${token}` }
           });
 
-          setAssets(assetsResponse.data || []);
+          setAssets((assetsResponse.data || []).map((asset: Asset) => ({
+            ...asset,
+            quantity: toNumber(asset.quantity),
+            purchasePrice: toNumber(asset.purchasePrice),
+          })));
           console.log(`✅ Loaded ${assetsResponse.data?.length || 0} assets`);
 
         } catch (error) {
@@ -95,7 +116,12 @@ export default function Wallet() {
             headers: { Authorization: `Bearer ${token}` }
           });
 
-          setTransactions(transactionsResponse.data || []);
+          setTransactions((transactionsResponse.data || []).map((tx: Transaction) => ({
+            ...tx,
+            quantity: toNumber(tx.quantity),
+            price: toNumber(tx.price),
+            fee: toNumber(tx.fee),
+          })));
           console.log(`✅ Loaded ${transactionsResponse.data?.length || 0} transactions`);
         } catch (error) {
           console.error('Failed to fetch transactions:', error);
@@ -174,6 +200,24 @@ export default function Wallet() {
         </div>
       </div>
 
+      {/* Cash Balance */}
+      {cash && (
+        <Card className="glass p-4 mb-6 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center font-bold text-xs">
+              {cash.currency.slice(0, 3)}
+            </div>
+            <div>
+              <p className="font-semibold">Cash</p>
+              <p className="text-sm text-muted-foreground">Available to trade</p>
+            </div>
+          </div>
+          <p className={`text-xl font-bold ${cash.balance < 0 ? 'text-destructive' : 'text-gradient'}`}>
+            {cash.balance.toLocaleString('en-US', { style: 'currency', currency: cash.currency })}
+          </p>
+        </Card>
+      )}
+
       {/* Empty State */}
       {walletCoins.length === 0 && !loadingAssets && (
         <Card className="glass p-12 text-center mb-8">
@@ -386,9 +430,9 @@ export default function Wallet() {
                     </td>
                     <td className="p-4">
                       <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${
-                        tx.type === 'BUY' ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'
+                        INFLOW_TYPES.includes(tx.type) ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'
                       }`}>
-                        {tx.type === 'BUY' ? <ArrowDownToLine className="h-3 w-3" /> : <ArrowUpFromLine className="h-3 w-3" />}
+                        {INFLOW_TYPES.includes(tx.type) ? <ArrowDownToLine className="h-3 w-3" /> : <ArrowUpFromLine className="h-3 w-3" />}
                         {tx.type}
                       </span>
                     </td>
@@ -1,7 +1,68 @@
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
 
+let refreshPromise: Promise<string> | null = null;
+
+const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+};
+
+// Trade the stored refresh token for a new access token; concurrent 401s share one refresh
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    refreshPromise = (async () => {
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      try {
+        const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+        localStorage.setItem('token', response.data.token);
+        localStorage.setItem('refreshToken', response.data.refreshToken);
+        return response.data.token as string;
+      } catch (error) {
+        // Another tab may have rotated the token first; use what it stored
+        const latestToken = localStorage.getItem('token');
+        if (localStorage.getItem('refreshToken') !== refreshToken && latestToken) {
+          return latestToken;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+// Replay a request that failed with 401 using a fresh access token. Resolves to null when
+// the request can't be retried or the session is over, after sending the user to log in.
+const retryWithFreshToken = async (instance: AxiosInstance, error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { _authRetry?: boolean }) | undefined;
+
+  if (config && !config._authRetry && config.headers?.Authorization) {
+    config._authRetry = true;
+
+    try {
+      const token = await refreshAccessToken();
+      config.headers.Authorization = `Bearer ${token}`;
+      return instance(config);
+    } catch (refreshError) {
+      console.error('Session refresh failed:', refreshError);
+    }
+  }
+
+  clearSession();
+  window.location.href = '/login';
+  return null;
+};
+
 // Create axios instance
 const api: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
@@ -31,13 +92,11 @@ api.interceptors.response.use(
   async (error: AxiosError) => {
     const config = error.config as AxiosRequestConfig & { _retry?: boolean; _retryCount?: number };
     
-    // Handle 401 Unauthorized
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
-      return Promise.reject(error);
+    // Handle 401 Unauthorized; failed logins are left to the login form
+    if (error.response?.status === 401 && !config?.url?.startsWith('/auth/login')) {
+      // Access token expired; refresh it and try again, or log in again if the session ended
+      const retried = await retryWithFreshToken(api, error);
+      return retried ?? Promise.reject(error);
     }
 
     // Retry logic for network errors or 5xx errors (max 3 attempts)
@@ -67,4 +126,16 @@ api.interceptors.response.use(
   }
 );
 
+// Pages that call axios directly with a bearer token get the same refresh handling
+axios.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    if (error.response?.status === 401 && error.config?.headers?.Authorization) {
+      const retried = await retryWithFreshToken(axios, error);
+      return retried ?? Promise.reject(error);
+    }
+    return Promise.reject(error);
+  }
+);
+
 export default api;
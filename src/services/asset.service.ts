@@ -1,11 +1,11 @@
 import api from './api';
-import { Asset } from './portfolio.service';
+import { Asset, DecimalString } from './portfolio.service';
 
 export interface AddAssetData {
   symbol: string;
   name: string;
-  quantity: number;
-  purchasePrice: number;
+  quantity: number | DecimalString;
+  purchasePrice: number | DecimalString;
   purchaseDate?: string;
 }
 
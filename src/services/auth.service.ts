@@ -19,24 +19,78 @@ export interface RegisterData {
 
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: User;
   message: string;
 }
 
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  message: string;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface ProfileUpdate extends Partial<User> {
+  theme?: string;
+  currency?: string;
+  notifications?: boolean;
+  emailAlerts?: boolean;
+  emailDigest?: boolean;
+  emailSecurity?: boolean;
+}
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge => {
+  return 'twoFactorRequired' in result && result.twoFactorRequired;
+};
+
 export const authService = {
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     const response = await api.post('/auth/login', credentials);
     if (response.data.token) {
       localStorage.setItem('token', response.data.token);
+      localStorage.setItem('refreshToken', response.data.refreshToken);
       localStorage.setItem('user', JSON.stringify(response.data.user));
     }
     return response.data;
   },
 
+  async verifyTwoFactor(challengeToken: string, code: string): Promise<AuthResponse & { recoveryCodesRemaining?: number }> {
+    const response = await api.post('/auth/login/2fa', { challengeToken, code });
+    localStorage.setItem('token', response.data.token);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+    localStorage.setItem('user', JSON.stringify(response.data.user));
+    return response.data;
+  },
+
   async register(data: RegisterData): Promise<AuthResponse> {
     const response = await api.post('/auth/register', data);
     if (response.data.token) {
       localStorage.setItem('token', response.data.token);
+      localStorage.setItem('refreshToken', response.data.refreshToken);
       localStorage.setItem('user', JSON.stringify(response.data.user));
     }
     return response.data;
@@ -47,14 +101,62 @@ export const authService = {
     return response.data;
   },
 
-  async updateProfile(data: Partial<User> & { theme?: string; currency?: string; notifications?: boolean }): Promise<any> {
+  async updateProfile(data: ProfileUpdate): Promise<any> {
     const response = await api.put('/auth/profile', data);
     return response.data;
   },
 
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(id: string): Promise<void> {
+    await api.delete(`/auth/sessions/${id}`);
+  },
+
+  async revokeAllSessions(options: { exceptCurrent?: boolean } = {}): Promise<number> {
+    const response = await api.delete('/auth/sessions', {
+      params: options.exceptCurrent ? { exceptCurrent: true } : undefined,
+    });
+    return response.data.count;
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get('/auth/2fa');
+    return response.data;
+  },
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data;
+  },
+
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await api.post('/auth/2fa/enable', { code });
+    return response.data.recoveryCodes;
+  },
+
+  async disableTwoFactor(password: string, code: string): Promise<void> {
+    await api.post('/auth/2fa/disable', { password, code });
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await api.post('/auth/2fa/recovery-codes', { code });
+    return response.data.recoveryCodes;
+  },
+
   logout() {
+    const refreshToken = localStorage.getItem('refreshToken');
+
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
+
+    // End the session on the server too; the tokens are gone locally either way
+    if (refreshToken) {
+      api.post('/auth/logout', { refreshToken }).catch(error => console.error('Logout error:', error));
+    }
   },
 
   getCurrentUser(): User | null {
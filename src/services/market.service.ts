@@ -13,6 +13,33 @@ export interface CoinPrice {
   image?: string;
 }
 
+// A coin from the backend's CoinList; several can share a symbol
+export interface TrackedCoin {
+  coinId: string;
+  symbol: string;
+  name: string;
+  image: string | null;
+  marketCapRank: number | null;
+}
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export interface Candle {
+  openTime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface CandleSeries {
+  symbol: string;
+  coinId: string;
+  interval: CandleInterval;
+  candles: Candle[];
+}
+
 export const marketService = {
   async getPrices(symbols: string[]): Promise<CoinPrice[]> {
     const response = await api.get('/market/prices', {
@@ -21,6 +48,14 @@ export const marketService = {
     return response.data;
   },
 
+  // Tracked coins, best-ranked first; with a symbol, every coin sharing that ticker
+  async getCoins(symbol?: string): Promise<TrackedCoin[]> {
+    const response = await api.get('/market/coins', {
+      params: { symbol },
+    });
+    return response.data.data;
+  },
+
   async getCoinDetail(symbol: string): Promise<any> {
     const response = await api.get(`/market/coins/${symbol}`);
     return response.data;
@@ -51,4 +86,20 @@ export const marketService = {
     });
     return response.data;
   },
+
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval = '1h',
+    options: { from?: Date; to?: Date; limit?: number } = {}
+  ): Promise<CandleSeries> {
+    const response = await api.get(`/market/candles/${symbol}`, {
+      params: {
+        interval,
+        from: options.from?.toISOString(),
+        to: options.to?.toISOString(),
+        limit: options.limit,
+      },
+    });
+    return response.data;
+  },
 };
@@ -0,0 +1,46 @@
+import api from './api';
+
+export type NotificationType = 'ALERT_TRIGGERED' | 'LARGE_FILL' | 'SYNC_FAILURE';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  isRead: boolean;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface UnreadCount {
+  count: number;
+  // False when the user has switched notifications off in their settings
+  enabled: boolean;
+}
+
+export const notificationService = {
+  async getNotifications(options: { unread?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    const response = await api.get('/notifications', { params: options });
+    return response.data;
+  },
+
+  async getUnreadCount(): Promise<UnreadCount> {
+    const response = await api.get('/notifications/unread-count');
+    return response.data;
+  },
+
+  async markRead(id: string): Promise<Notification> {
+    const response = await api.put(`/notifications/${id}/read`);
+    return response.data.notification;
+  },
+
+  async markAllRead(): Promise<void> {
+    await api.put('/notifications/read-all');
+  },
+
+  async deleteNotification(id: string): Promise<void> {
+    await api.delete(`/notifications/${id}`);
+  },
+};
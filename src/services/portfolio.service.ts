@@ -1,10 +1,19 @@
 import api from './api';
+import type { Transaction } from './transaction.service';
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'AVERAGE';
+
+// Money and quantities are serialized as exact decimal strings
+export type DecimalString = string;
 
 export interface Portfolio {
   id: string;
   userId: string;
   name: string;
   description?: string | null;
+  costBasisMethod?: CostBasisMethod | null;
+  currency: string;
+  cashBalance: DecimalString;
   createdAt: string;
   updatedAt: string;
   assets?: Asset[];
@@ -15,27 +24,53 @@ export interface Asset {
   portfolioId: string;
   symbol: string;
   name: string;
-  quantity: number;
-  purchasePrice: number;
+  quantity: DecimalString;
+  purchasePrice: DecimalString;
   purchaseDate: string;
-  currentPrice?: number;
-  currentValue?: number;
-  profitLoss?: number;
+  currentPrice?: DecimalString;
+  currentValue?: DecimalString;
+  costBasis?: DecimalString;
+  profitLoss?: DecimalString;
   profitLossPercentage?: number;
 }
 
+export interface TaxLot {
+  id: string;
+  portfolioId: string;
+  transactionId: string;
+  symbol: string;
+  quantity: DecimalString;
+  remainingQuantity: DecimalString;
+  unitPrice: DecimalString;
+  unitFee: DecimalString;
+  acquiredAt: string;
+  disposals: Array<{
+    id: string;
+    transactionId: string;
+    quantity: DecimalString;
+    costBasis: DecimalString;
+    acquisitionFee: DecimalString;
+    proceeds: DecimalString;
+    disposalFee: DecimalString;
+    disposedAt: string;
+  }>;
+}
+
 export interface PortfolioSummary {
   portfolio: {
     id: string;
     name: string;
     description?: string | null;
+    currency: string;
   };
+  costBasisMethod: CostBasisMethod;
   summary: {
-    totalValue: number;
-    totalCost: number;
-    totalProfitLoss: number;
+    totalValue: DecimalString;
+    cashBalance: DecimalString;
+    totalCost: DecimalString;
+    totalProfitLoss: DecimalString;
     totalProfitLossPercentage: number;
-    change24h: number;
+    change24h: DecimalString;
     change24hPercentage: number;
     assetCount: number;
   };
@@ -58,7 +93,10 @@ export const portfolioService = {
     return response.data.portfolio;
   },
 
-  async updatePortfolio(id: string, data: { name?: string; description?: string }): Promise<Portfolio> {
+  async updatePortfolio(
+    id: string,
+    data: { name?: string; description?: string; costBasisMethod?: CostBasisMethod | null }
+  ): Promise<Portfolio> {
     const response = await api.put(`/portfolios/${id}`, data);
     return response.data.portfolio;
   },
@@ -67,8 +105,23 @@ export const portfolioService = {
     await api.delete(`/portfolios/${id}`);
   },
 
-  async getPortfolioSummary(id: string): Promise<PortfolioSummary> {
-    const response = await api.get(`/portfolios/${id}/summary`);
+  async getPortfolioSummary(id: string, method?: CostBasisMethod): Promise<PortfolioSummary> {
+    const response = await api.get(`/portfolios/${id}/summary`, {
+      params: method ? { method } : undefined,
+    });
+    return response.data;
+  },
+
+  async getLots(id: string, params?: { symbol?: string; open?: boolean }): Promise<{ costBasisMethod: CostBasisMethod; lots: TaxLot[] }> {
+    const response = await api.get(`/portfolios/${id}/lots`, { params });
+    return response.data;
+  },
+
+  async transferAssets(
+    id: string,
+    data: { toPortfolioId: string; symbol: string; quantity: number | DecimalString; timestamp?: string; notes?: string }
+  ): Promise<{ transferId: string; transactions: Transaction[] }> {
+    const response = await api.post(`/portfolios/${id}/transfer`, data);
     return response.data;
   },
 };
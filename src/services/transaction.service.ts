@@ -1,28 +1,64 @@
 import api from './api';
+import { DecimalString } from './portfolio.service';
+
+export type TransactionType =
+  | 'BUY'
+  | 'SELL'
+  | 'DEPOSIT'
+  | 'WITHDRAW'
+  | 'TRANSFER_IN'
+  | 'TRANSFER_OUT'
+  | 'REWARD'
+  | 'STAKING'
+  | 'AIRDROP'
+  | 'GIFT_SENT'
+  | 'GIFT_RECEIVED'
+  | 'FEE';
 
 export interface Transaction {
   id: string;
   portfolioId: string;
-  type: 'BUY' | 'SELL';
+  type: TransactionType;
   symbol: string;
-  quantity: number;
-  price: number;
-  fee: number;
+  quantity: DecimalString;
+  price: DecimalString;
+  fee: DecimalString;
   timestamp: string;
+  acquiredAt?: string | null;
+  transferId?: string | null;
+  swapId?: string | null;
   notes?: string | null;
 }
 
 export interface CreateTransactionData {
   portfolioId: string;
-  type: 'BUY' | 'SELL';
-  symbol: string;
-  quantity: number;
-  price: number;
-  fee?: number;
+  type: TransactionType;
+  // Optional for DEPOSIT and WITHDRAW, which are booked in the portfolio currency at a price of 1
+  symbol?: string;
+  quantity: number | DecimalString;
+  // Market value for income and FEE, carried-over basis for TRANSFER_IN and GIFT_RECEIVED (required for all of these)
+  price?: number | DecimalString;
+  fee?: number | DecimalString;
   timestamp?: string;
   notes?: string;
 }
 
+export interface CreateSwapData {
+  portfolioId: string;
+  fromSymbol: string;
+  toSymbol: string;
+  quantity: number | DecimalString;
+  notes?: string;
+}
+
+export interface SwapResult {
+  swapId: string;
+  rate: DecimalString;
+  value: DecimalString;
+  // The SELL of the coin given up, then the BUY of the coin received
+  transactions: [Transaction, Transaction];
+}
+
 export const transactionService = {
   async getTransactionsByPortfolio(portfolioId: string): Promise<Transaction[]> {
     const response = await api.get(`/transactions/portfolio/${portfolioId}`);
@@ -39,6 +75,11 @@ export const transactionService = {
     return response.data.transaction;
   },
 
+  async createSwap(data: CreateSwapData): Promise<SwapResult> {
+    const response = await api.post('/transactions/swap', data);
+    return response.data;
+  },
+
   async updateTransaction(id: string, data: Partial<CreateTransactionData>): Promise<Transaction> {
     const response = await api.put(`/transactions/${id}`, data);
     return response.data.transaction;